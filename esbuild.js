@@ -5,7 +5,12 @@ const watch = process.argv.includes("--watch");
 
 async function main() {
   const ctx = await esbuild.context({
-    entryPoints: ["src/extension.ts", "src/languageServer.ts"],
+    entryPoints: [
+      "src/extension.ts",
+      "src/languageServer.ts",
+      "src/transportBridge.ts",
+      "src/replayServer.ts",
+    ],
     bundle: true,
     format: "cjs",
     minify: production,
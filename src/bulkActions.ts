@@ -0,0 +1,166 @@
+/**
+ * Bulk Actions
+ *
+ * Commands run on several processes selected in the process list: which
+ * processes a command applies to, running an action for each while
+ * counting progress, and one summary of what failed instead of a
+ * notification per process.
+ */
+
+import type { ProcessInfo, ProcessStats } from "./mcpClient";
+import { formatDuration } from "./recentProcesses";
+import { formatMemory } from "./processSummary";
+
+export interface BulkFailure {
+  pid: number;
+  message: string;
+}
+
+export interface BulkResult<T> {
+  /** Results of the processes that succeeded, in selection order */
+  succeeded: Array<{ pid: number; value: T }>;
+  failures: BulkFailure[];
+}
+
+/**
+ * Failures named in a summary before the rest are only counted
+ */
+const LISTED_FAILURES = 3;
+
+/**
+ * The processes a command invoked from the tree applies to. VS Code passes
+ * the clicked item and, with several items selected, the whole selection;
+ * items that are not processes, such as groups, are skipped.
+ */
+export function selectedProcesses(
+  item: { processInfo?: ProcessInfo } | undefined,
+  selection: ReadonlyArray<{ processInfo?: ProcessInfo }> | undefined
+): ProcessInfo[] {
+  const items = selection && selection.length > 0 ? selection : [item];
+  const seen = new Set<number>();
+  return items.flatMap((entry) => {
+    const process = entry?.processInfo;
+    if (!process || seen.has(process.pid)) {
+      return [];
+    }
+    seen.add(process.pid);
+    return [process];
+  });
+}
+
+/**
+ * Run an action for each pid in parallel, reporting each one that settles
+ */
+export async function runBulk<T>(
+  pids: number[],
+  action: (pid: number) => Promise<T>,
+  onSettled?: (done: number, total: number) => void
+): Promise<BulkResult<T>> {
+  let done = 0;
+  const settled = await Promise.all(
+    pids.map(
+      async (pid): Promise<{ pid: number; value?: T; error?: string }> => {
+        try {
+          return { pid, value: await action(pid) };
+        } catch (error: any) {
+          return { pid, error: String(error?.message || error) };
+        } finally {
+          onSettled?.(++done, pids.length);
+        }
+      }
+    )
+  );
+
+  const result: BulkResult<T> = { succeeded: [], failures: [] };
+  for (const { pid, value, error } of settled) {
+    if (error !== undefined) {
+      result.failures.push({ pid, message: error });
+    } else {
+      result.succeeded.push({ pid, value: value as T });
+    }
+  }
+  return result;
+}
+
+/**
+ * One-line outcome, e.g. `Terminated 3 of 5 processes. Failed: PID 12
+ * (not found), PID 14 (access denied)`
+ */
+export function summarizeBulk(
+  verb: string,
+  total: number,
+  failures: BulkFailure[]
+): string {
+  const summary = `${verb} ${total - failures.length} of ${total} process(es)`;
+  if (failures.length === 0) {
+    return summary;
+  }
+  const listed = failures
+    .slice(0, LISTED_FAILURES)
+    .map((f) => `PID ${f.pid} (${f.message})`);
+  if (failures.length > LISTED_FAILURES) {
+    listed.push(`${failures.length - LISTED_FAILURES} more`);
+  }
+  return `${summary}. Failed: ${listed.join(", ")}`;
+}
+
+/**
+ * Output of several processes in one document, each under a heading with
+ * its pid and command
+ */
+export function formatCombinedOutput(
+  entries: Array<{ process: ProcessInfo; output: string }>
+): string {
+  return entries
+    .map(({ process, output }) =>
+      [
+        `==> PID ${process.pid}: ${process.command} ${process.args.join(
+          " "
+        )}`.trimEnd(),
+        output.trimEnd(),
+        "",
+      ].join("\n")
+    )
+    .join("\n");
+}
+
+/**
+ * Current statistics of several processes side by side as a Markdown
+ * report, with the highest CPU and memory in bold
+ */
+export function formatStatsComparison(
+  entries: Array<{ process: ProcessInfo; stats: ProcessStats }>
+): string {
+  const peakCpu = Math.max(...entries.map((e) => e.stats.cpuPercent));
+  const peakMemory = Math.max(...entries.map((e) => e.stats.memoryMB));
+  const highlight = (text: string, isPeak: boolean) =>
+    isPeak && entries.length > 1 ? `**${text}**` : text;
+
+  return [
+    "# Process Comparison",
+    "",
+    "| PID | Command | State | Uptime | CPU | Memory | Threads | I/O read | I/O write |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+    ...entries.map(({ process, stats }) =>
+      [
+        "",
+        process.pid,
+        `\`${process.command}\``,
+        stats.state ?? process.state,
+        formatDuration(stats.uptime ?? process.uptime),
+        highlight(
+          `${stats.cpuPercent.toFixed(1)}%`,
+          stats.cpuPercent === peakCpu
+        ),
+        highlight(formatMemory(stats.memoryMB), stats.memoryMB === peakMemory),
+        stats.threadCount,
+        `${(stats.ioRead / 1024 / 1024).toFixed(2)} MB`,
+        `${(stats.ioWrite / 1024 / 1024).toFixed(2)} MB`,
+        "",
+      ]
+        .join(" | ")
+        .trim()
+    ),
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,123 @@
+/**
+ * Command Line
+ *
+ * Shell-style parsing and formatting of command lines typed by the user.
+ * Quoting follows POSIX shells: single quotes are literal, double quotes
+ * allow backslash escapes of `"`, `\`, `$` and `` ` ``, and a backslash
+ * outside quotes escapes the next character. Nothing is expanded, since
+ * processes are started without a shell.
+ */
+
+/**
+ * Raised for input a shell would reject, such as an unterminated quote
+ */
+export class CommandLineSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CommandLineSyntaxError";
+  }
+}
+
+const DOUBLE_QUOTE_ESCAPES = new Set(['"', "\\", "$", "`"]);
+
+/**
+ * Split a command line into arguments, honoring quotes and escapes
+ */
+export function parseArguments(input: string): string[] {
+  const args: string[] = [];
+  let current = "";
+  let inArgument = false;
+  let quote: "'" | '"' | undefined;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = undefined;
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (quote === '"') {
+      if (char === '"') {
+        quote = undefined;
+      } else if (char === "\\" && DOUBLE_QUOTE_ESCAPES.has(input[i + 1])) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+      continue;
+    }
+
+    if (char === "'" || char === '"') {
+      quote = char;
+      inArgument = true;
+    } else if (char === "\\") {
+      if (i + 1 >= input.length) {
+        throw new CommandLineSyntaxError("Trailing backslash");
+      }
+      current += input[++i];
+      inArgument = true;
+    } else if (/\s/.test(char)) {
+      if (inArgument) {
+        args.push(current);
+        current = "";
+        inArgument = false;
+      }
+    } else {
+      current += char;
+      inArgument = true;
+    }
+  }
+
+  if (quote) {
+    throw new CommandLineSyntaxError(`Unterminated ${quote} quote`);
+  }
+  if (inArgument) {
+    args.push(current);
+  }
+  return args;
+}
+
+/**
+ * Quote an argument so parseArguments (or a POSIX shell) reads it back
+ * unchanged
+ */
+export function quoteArgument(arg: string): string {
+  if (arg.length === 0) {
+    return "''";
+  }
+  if (/^[A-Za-z0-9_\-+=.,:/@%]+$/.test(arg)) {
+    return arg;
+  }
+  return `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Format an executable and its arguments as a single command line
+ */
+export function formatCommandLine(executable: string, args: string[]): string {
+  return [executable, ...args].map(quoteArgument).join(" ");
+}
+
+/**
+ * Parse `NAME=value` assignments, e.g. `NODE_ENV=production DEBUG='app:*'`
+ */
+export function parseAssignments(input: string): Record<string, string> {
+  const assignments: Record<string, string> = {};
+  for (const arg of parseArguments(input)) {
+    const index = arg.indexOf("=");
+    if (index <= 0) {
+      throw new CommandLineSyntaxError(`Expected NAME=value but got "${arg}"`);
+    }
+    const name = arg.slice(0, index);
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      throw new CommandLineSyntaxError(`Invalid name "${name}"`);
+    }
+    assignments[name] = arg.slice(index + 1);
+  }
+  return assignments;
+}
@@ -0,0 +1,56 @@
+/**
+ * Crash Notifications
+ *
+ * Rate limiting for crash notifications. A flapping service can crash many
+ * times a minute; only the first crash of a command within the interval is
+ * reported, the rest are counted and mentioned with the next notification,
+ * and no more than a fixed number of notifications are shown per interval
+ * across all commands.
+ */
+
+export interface RateLimitDecision {
+  notify: boolean;
+  /** Failures of the same command not reported since its last notification */
+  suppressed: number;
+}
+
+export class CrashRateLimiter {
+  private readonly lastByKey = new Map<
+    string,
+    { time: number; suppressed: number }
+  >();
+  private recent: number[] = [];
+
+  constructor(
+    private intervalMs: number,
+    private readonly maxPerInterval = 3
+  ) {}
+
+  setInterval(intervalMs: number): void {
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Decide whether a failure of the command `key` is reported now
+   */
+  take(key: string, now: number): RateLimitDecision {
+    this.recent = this.recent.filter((time) => now - time < this.intervalMs);
+    const last = this.lastByKey.get(key);
+
+    const tooSoon = last !== undefined && now - last.time < this.intervalMs;
+    if (tooSoon || this.recent.length >= this.maxPerInterval) {
+      if (last) {
+        last.suppressed++;
+      } else {
+        // Never reported, so the next failure is reported as soon as the
+        // overall limit allows
+        this.lastByKey.set(key, { time: now - this.intervalMs, suppressed: 1 });
+      }
+      return { notify: false, suppressed: 0 };
+    }
+
+    this.recent.push(now);
+    this.lastByKey.set(key, { time: now, suppressed: 0 });
+    return { notify: true, suppressed: last?.suppressed ?? 0 };
+  }
+}
@@ -0,0 +1,152 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { MCPProcessClient } from "./mcpClient";
+import { formatCommandLine } from "./commandLine";
+import { CrashRateLimiter } from "./crashNotifications";
+import {
+  RecentProcess,
+  describeExit,
+  endedWithFailure,
+} from "./recentProcesses";
+
+/**
+ * Output lines quoted in a crash notification
+ */
+const NOTIFICATION_OUTPUT_LINES = 3;
+
+/**
+ * CrashNotifier - Reports processes that crash or exit with an error
+ *
+ * Shows the executable, how it ended and its last output lines, with
+ * Relaunch, Show Output and Ignore for This Command actions. Ignored
+ * commands are kept in `notifications.ignoredCommands`; notifications are
+ * rate limited per command by `notifications.crashRateLimitSeconds`.
+ */
+export class CrashNotifier {
+  private client: MCPProcessClient | undefined;
+  private readonly limiter = new CrashRateLimiter(0);
+
+  constructor(private readonly outputChannel: vscode.OutputChannel) {
+    this.applySettings();
+  }
+
+  setMCPClient(client: MCPProcessClient | undefined): void {
+    this.client = client;
+  }
+
+  /**
+   * Pick up changed `notifications.*` settings
+   */
+  applySettings(): void {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    this.limiter.setInterval(
+      config.get<number>("notifications.crashRateLimitSeconds", 60) * 1000
+    );
+  }
+
+  handleProcessEnd(entry: RecentProcess): void {
+    if (!endedWithFailure(entry)) {
+      return;
+    }
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const command = formatCommandLine(entry.executable, entry.args);
+    if (
+      !config.get<boolean>("notifications.crashes", true) ||
+      config
+        .get<string[]>("notifications.ignoredCommands", [])
+        .includes(command)
+    ) {
+      return;
+    }
+
+    const name = path.basename(entry.executable);
+    const { notify, suppressed } = this.limiter.take(command, Date.now());
+    this.outputChannel.appendLine(
+      `Process ${entry.pid} (${command}) ended with ${describeExit(entry)}${
+        notify ? "" : " - notification suppressed"
+      }`
+    );
+    if (notify) {
+      void this.notify(entry, name, command, suppressed);
+    }
+  }
+
+  private async notify(
+    entry: RecentProcess,
+    name: string,
+    command: string,
+    suppressed: number
+  ): Promise<void> {
+    const verb = entry.state === "crashed" ? "crashed" : "failed";
+    const output = entry.outputTail.slice(-NOTIFICATION_OUTPUT_LINES);
+    const message = [
+      `${name} (PID ${entry.pid}) ${verb}: ${describeExit(entry)}.`,
+      suppressed > 0
+        ? `It failed ${suppressed} more time(s) since the last notification.`
+        : "",
+      output.length > 0 ? `Last output: ${output.join(" ⏎ ")}` : "",
+    ]
+      .filter((part) => part.length > 0)
+      .join(" ");
+
+    const action = await vscode.window.showErrorMessage(
+      message,
+      "Relaunch",
+      "Show Output",
+      "Ignore for This Command"
+    );
+
+    switch (action) {
+      case "Relaunch":
+        await vscode.commands.executeCommand("mcp-process.relaunchProcess", {
+          entry,
+        });
+        break;
+      case "Show Output":
+        await this.showOutput(entry, command);
+        break;
+      case "Ignore for This Command":
+        await this.ignore(command);
+        break;
+    }
+  }
+
+  /**
+   * Open the process's output in an editor, from the server when it still
+   * has it and from the recorded tail otherwise
+   */
+  private async showOutput(
+    entry: RecentProcess,
+    command: string
+  ): Promise<void> {
+    let output = entry.outputTail.join("\n");
+    if (this.client) {
+      try {
+        output = (await this.client.getProcessOutput({ pid: entry.pid }))
+          .output;
+      } catch {
+        // Fall back to the recorded tail
+      }
+    }
+    const document = await vscode.workspace.openTextDocument({
+      language: "log",
+      content: [`# ${command} (PID ${entry.pid})`, "", output].join("\n"),
+    });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+
+  private async ignore(command: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const ignored = config.get<string[]>("notifications.ignoredCommands", []);
+    await config.update(
+      "notifications.ignoredCommands",
+      [...ignored, command],
+      vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global
+    );
+    vscode.window.showInformationMessage(
+      `Failures of "${command}" will no longer be reported. Remove it from mcp-process.notifications.ignoredCommands to undo.`
+    );
+  }
+}
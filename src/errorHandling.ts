@@ -9,6 +9,12 @@
 
 import * as vscode from "vscode";
 import { ValidationError, ValidationWarning } from "./settingsManager";
+import { InvalidResponseError } from "./responseSchemas";
+import {
+  COMPATIBLE_SERVER_RANGE,
+  COMPATIBLE_SERVER_SPEC,
+  IncompatibleServerError,
+} from "./serverCompatibility";
 
 /**
  * Error types for categorization
@@ -576,6 +582,14 @@ export class ServerCommunicationErrorHandler {
    * Classify a server communication error
    */
   private classifyServerError(error: Error): ServerErrorType {
+    if (error instanceof InvalidResponseError) {
+      return ServerErrorType.InvalidResponse;
+    }
+
+    if (error instanceof IncompatibleServerError) {
+      return ServerErrorType.VersionMismatch;
+    }
+
     const message = error.message.toLowerCase();
 
     if (
@@ -708,9 +722,14 @@ export class ServerCommunicationErrorHandler {
     );
     this.outputChannel.appendLine(`Error: ${error.message}`);
 
-    const message =
-      "Received invalid response from MCP ACS Process server.\n\n" +
-      "The server may be in an inconsistent state.\n\n" +
+    let message = "Received invalid response from MCP ACS Process server.\n\n";
+
+    if (error instanceof InvalidResponseError) {
+      message += `Tool: ${error.tool}\nProblem: ${error.detail}\n\n`;
+    }
+
+    message +=
+      "The server may be in an inconsistent state or running an incompatible version.\n\n" +
       "Recommended action: Restart the server";
 
     const selection = await vscode.window.showErrorMessage(
@@ -731,13 +750,19 @@ export class ServerCommunicationErrorHandler {
   /**
    * Handle version mismatch error
    *
-   * Shows a warning about incompatible versions.
+   * Shows a warning about incompatible versions. Servers rejected by the
+   * handshake check get options to point at a compatible server.
    */
   public async handleVersionMismatch(
     error: Error,
     extensionVersion?: string,
     serverVersion?: string
   ): Promise<void> {
+    if (error instanceof IncompatibleServerError) {
+      await this.handleIncompatibleServer(error, extensionVersion);
+      return;
+    }
+
     this.outputChannel.appendLine(
       "Version mismatch between extension and server"
     );
@@ -780,6 +805,62 @@ export class ServerCommunicationErrorHandler {
     }
   }
 
+  /**
+   * Handle a server rejected by the initialize handshake check
+   */
+  private async handleIncompatibleServer(
+    error: IncompatibleServerError,
+    extensionVersion?: string
+  ): Promise<void> {
+    this.outputChannel.appendLine(error.message);
+    if (extensionVersion) {
+      this.outputChannel.appendLine(`Extension version: ${extensionVersion}`);
+    }
+
+    // In test mode, just throw the error instead of showing UI
+    const isTestMode =
+      process.env.VSCODE_TEST_MODE === "true" ||
+      process.env.NODE_ENV === "test";
+
+    if (isTestMode) {
+      throw error;
+    }
+
+    const message =
+      "The MCP ACS Process server is not compatible with this extension.\n\n" +
+      `Problem: ${error.reason}\n` +
+      `Supported server versions: >=${COMPATIBLE_SERVER_RANGE.min} <${COMPATIBLE_SERVER_RANGE.maxExclusive}\n\n` +
+      "Recommended actions:\n" +
+      "• Pin the npx server package to a compatible version\n" +
+      "• Or point server.serverPath at a compatible server build";
+
+    const selection = await vscode.window.showErrorMessage(
+      message,
+      { modal: false },
+      "Pin Compatible Version",
+      "Set Server Path",
+      "Show Logs"
+    );
+
+    if (selection === "Pin Compatible Version") {
+      await vscode.workspace
+        .getConfiguration("mcp-process")
+        .update(
+          "server.version",
+          COMPATIBLE_SERVER_SPEC,
+          vscode.ConfigurationTarget.Global
+        );
+      await vscode.commands.executeCommand("mcp-process.restartServer");
+    } else if (selection === "Set Server Path") {
+      await vscode.commands.executeCommand(
+        "workbench.action.openSettings",
+        "@ext:DigitalDefiance.mcp-acs-process server.serverPath"
+      );
+    } else if (selection === "Show Logs") {
+      this.outputChannel.show();
+    }
+  }
+
   /**
    * Handle generic server communication error
    *
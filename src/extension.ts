@@ -7,31 +7,141 @@ import {
   ServerOptions,
   TransportKind,
 } from "vscode-languageclient/node";
-import { MCPProcessClient } from "./mcpClient";
-import { ProcessTreeDataProvider } from "./processTreeProvider";
-import { SecurityTreeDataProvider } from "./securityTreeProvider";
+import {
+  MCPProcessClient,
+  ProcessInfo,
+  ProcessStartParams,
+  ProcessState,
+  SecurityConfig,
+} from "./mcpClient";
+import {
+  ProcessGroupTreeItem,
+  ProcessTreeDataProvider,
+  ProcessTreeItem,
+  RecentProcessTreeItem,
+  ServiceTreeItem,
+} from "./processTreeProvider";
+import { ProcessTerminal } from "./processTerminal";
+import { StatsDashboard } from "./statsDashboard";
+import { samplesToCsv } from "./statsSeries";
+import { ResourceHistorySampler } from "./resourceHistorySampler";
+import { ResourceAlertMonitor } from "./resourceAlertMonitor";
+import { RecentProcessTracker } from "./recentProcessTracker";
+import { CrashNotifier } from "./crashNotifier";
+import { ProcessStatusBar } from "./processStatusBar";
+import { ServiceSupervisor } from "./serviceSupervisor";
+import {
+  ServiceStateTreeItem,
+  ServicesTreeDataProvider,
+} from "./servicesTreeProvider";
+import {
+  RESTART_POLICIES,
+  RESTART_POLICY_LABELS,
+  RestartPolicy,
+  RestartSettings,
+} from "./serviceSupervision";
+import { relaunchParams } from "./recentProcesses";
+import {
+  RecoverableProcess,
+  RecoverableService,
+  RecoverySnapshot,
+  buildRecoverySnapshot,
+  confirmableRecoveries,
+  describeRecoverable,
+  isSnapshotEmpty,
+} from "./processRecovery";
+import { formatCommandLine, parseArguments } from "./commandLine";
+import {
+  BulkFailure,
+  formatCombinedOutput,
+  formatStatsComparison,
+  runBulk,
+  selectedProcesses,
+  summarizeBulk,
+} from "./bulkActions";
+import {
+  SIGNAL_LABELS,
+  TERMINATION_SIGNALS,
+  TerminationPolicy,
+  TerminationRequest,
+  describeTerminationPolicy,
+  isTerminationSignal,
+  resolveTerminationPolicy,
+  runTermination,
+} from "./processTermination";
+import {
+  ProcessFilter,
+  ProcessSortKey,
+  SORT_LABELS,
+  describeFilter,
+  isFilterActive,
+  sortsByUsage,
+} from "./processFilter";
+import {
+  ResourceRun,
+  formatRunComparison,
+  summarizeRun,
+} from "./resourceHistory";
+import {
+  LaunchProfileTreeDataProvider,
+  LaunchProfileTreeItem,
+} from "./launchProfileTreeProvider";
+import {
+  LAUNCH_PROFILES_FILE,
+  toStartParams as toProfileStartParams,
+} from "./launchProfiles";
+import {
+  StartProcessWizard,
+  StartProcessWizardState,
+  toStartParams,
+} from "./startProcessWizard";
+import { checkStartRequest } from "./preflight";
+import { SecurityTreeDataProvider, formatLimit } from "./securityTreeProvider";
 import { ProcessContextProvider } from "./processContextProvider";
-import { SettingsManager } from "./settingsManager";
+import { SettingsManager, ValidationError } from "./settingsManager";
 import { setPlatformContext, clearPlatformContext } from "./platformContext";
 import { ErrorHandler } from "./errorHandling";
+import {
+  IncompatibleServerError,
+  describeCapabilities,
+} from "./serverCompatibility";
+import {
+  ServerToolRegistry,
+  buildInputTemplate,
+  findInputProblems,
+} from "./toolRegistry";
 import {
   registerExtension,
   unregisterExtension,
   setOutputChannel,
 } from "@ai-capabilities-suite/vscode-shared-status-bar";
+import { ConnectionState } from "@ai-capabilities-suite/mcp-client-base";
 import type { MCPClientConfig } from "@ai-capabilities-suite/mcp-client-base";
 
 let mcpClient: MCPProcessClient | undefined;
 let outputChannel: vscode.LogOutputChannel;
 let processTreeProvider: ProcessTreeDataProvider;
+let processListView: vscode.TreeView<vscode.TreeItem> | undefined;
 let securityTreeProvider: SecurityTreeDataProvider;
 let processContextProvider: ProcessContextProvider;
+let launchProfileProvider: LaunchProfileTreeDataProvider;
+let resourceHistory: ResourceHistorySampler | undefined;
+let resourceAlerts: ResourceAlertMonitor | undefined;
+let recentProcesses: RecentProcessTracker | undefined;
+let crashNotifier: CrashNotifier | undefined;
+let serviceSupervisor: ServiceSupervisor | undefined;
+let toolRegistry: ServerToolRegistry;
 let settingsManager: SettingsManager | undefined;
 let errorHandler: ErrorHandler | undefined;
 let refreshInterval: NodeJS.Timeout | undefined;
+let processEventSubscriptions: vscode.Disposable[] = [];
+const attachedTerminals = new Map<number, vscode.Terminal>();
 let languageClient: LanguageClient | undefined;
 let pendingRestart = false;
+/** Processes and services to offer again once the server is back */
+let pendingRecovery: RecoverySnapshot | undefined;
 let statusBarItem: vscode.StatusBarItem | undefined;
+let processStatusBar: ProcessStatusBar | undefined;
 
 /**
  * Settings that require server restart when changed
@@ -40,6 +150,14 @@ const RESTART_REQUIRED_SETTINGS = [
   "server.serverPath",
   "server.configPath",
   "server.useConfigFile",
+  "server.transport",
+  "server.socketPath",
+  "server.endpoint",
+  "server.version",
+  "server.inheritEnvironment",
+  "server.environmentAllowlist",
+  "server.recordSessionPath",
+  "server.replaySessionPath",
   "timeout.initialization",
   "timeout.standardRequest",
   "reconnect.maxRetries",
@@ -118,8 +236,29 @@ const IMMEDIATE_SETTINGS = [
   "server.logLevel",
   "ui.refreshInterval",
   "ui.showResourceUsage",
+  "ui.showStatusBar",
   "ui.showSecurityWarnings",
   "ui.confirmDangerousOperations",
+  "ui.terminalCloseAction",
+  "history.enabled",
+  "history.sampleInterval",
+  "history.maxRunsPerCommand",
+  "alerts.enabled",
+  "alerts.thresholds",
+  "alerts.executableThresholds",
+  "alerts.debounceSeconds",
+  "recent.retentionMinutes",
+  "recent.maxEntries",
+  "notifications.crashes",
+  "notifications.crashRateLimitSeconds",
+  "notifications.ignoredCommands",
+  "termination.signal",
+  "termination.gracePeriodSeconds",
+  "termination.escalateToKill",
+  "services.restartPolicy",
+  "services.maxRestarts",
+  "services.backoffInitialSeconds",
+  "services.backoffMaxSeconds",
 ];
 
 /**
@@ -205,6 +344,40 @@ async function handleConfigurationChange(changes: any): Promise<void> {
     startAutoRefresh();
   }
 
+  if (
+    changes.affectsConfiguration("mcp-process.history") ||
+    changes.affectsConfiguration("mcp-process.alerts.enabled") ||
+    changes.affectsConfiguration("mcp-process.ui.showResourceUsage")
+  ) {
+    resourceHistory?.restart();
+  }
+
+  if (
+    changes.affectsConfiguration("mcp-process.alerts") ||
+    changes.affectsConfiguration("mcp-process.ui.showResourceUsage")
+  ) {
+    resourceAlerts?.applySettings();
+  }
+
+  if (
+    changes.affectsConfiguration("mcp-process.ui.showStatusBar") ||
+    changes.affectsConfiguration("mcp-process.ui.showResourceUsage")
+  ) {
+    processStatusBar?.render();
+    resourceHistory?.setDemand(
+      "statusBar",
+      processStatusBar?.needsUsage() ?? false
+    );
+  }
+
+  if (changes.affectsConfiguration("mcp-process.recent")) {
+    recentProcesses?.applySettings();
+  }
+
+  if (changes.affectsConfiguration("mcp-process.notifications")) {
+    crashNotifier?.applySettings();
+  }
+
   if (changes.affectsConfiguration("mcp-process.server.logLevel")) {
     const config = vscode.workspace.getConfiguration("mcp-process");
     const logLevel = config.get<string>("server.logLevel", "info");
@@ -263,6 +436,11 @@ async function restartServer(): Promise<void> {
     return;
   }
 
+  // Remember what was running so it can be relaunched on the new server
+  const recovery =
+    pendingRecovery ?? (mcpClient && takeRecoverySnapshot(mcpClient));
+  let client: MCPProcessClient | undefined;
+
   try {
     outputChannel.appendLine("Restarting MCP ACS Process server...");
 
@@ -276,18 +454,23 @@ async function restartServer(): Promise<void> {
     await new Promise((resolve) => setTimeout(resolve, 500));
 
     // Start new server with updated configuration
-    mcpClient = new MCPProcessClient(outputChannel, getTimeoutConfig());
+    client = new MCPProcessClient(outputChannel, getTimeoutConfig());
 
     // Generate and pass server configuration from VS Code settings
     const serverConfig = settingsManager.generateServerConfig();
-    mcpClient.setServerConfig(serverConfig);
+    client.setServerConfig(serverConfig);
 
-    await mcpClient.start();
+    await client.start();
+    mcpClient = client;
+    // Only forget the snapshot once there is a server to relaunch it on
+    pendingRecovery = undefined;
 
     // Update providers
     processTreeProvider.setMCPClient(mcpClient);
     securityTreeProvider.setMCPClient(mcpClient);
     processContextProvider.setMCPClient(mcpClient);
+    toolRegistry.setMCPClient(mcpClient);
+    watchProcessEvents(mcpClient);
 
     // Clear pending restart flag
     pendingRestart = false;
@@ -304,8 +487,17 @@ async function restartServer(): Promise<void> {
 
     // Refresh process list
     await refreshProcessList();
+
+    if (recovery) {
+      void offerRecovery(recovery);
+    }
   } catch (error: any) {
     outputChannel.appendLine(`Failed to restart MCP server: ${error}`);
+    if (!client || client !== mcpClient) {
+      // The new server never started; keep the snapshot for the next start
+      client?.stop();
+      pendingRecovery = recovery;
+    }
 
     // Use error handler for better error messages
     if (errorHandler) {
@@ -850,331 +1042,200 @@ export async function activate(context: vscode.ExtensionContext) {
 
   context.subscriptions.push(participant);
 
-  // Register language model tools
-  try {
-    const tools = [
-      {
-        name: "process_start",
-        tool: {
-          description: "Start a new process with security boundaries",
-          inputSchema: {
-            type: "object",
-            properties: {
-              executable: { type: "string", description: "Executable to run" },
-              args: {
-                type: "array",
-                items: { type: "string" },
-                description: "Arguments",
-              },
-            },
-            required: ["executable"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            await startProcess();
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart("Process started"),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_list",
-        tool: {
-          description: "List all running managed processes",
-          inputSchema: { type: "object", properties: {} },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            await viewProcesses();
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart("Processes listed"),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_terminate",
-        tool: {
-          description: "Terminate a running process",
-          inputSchema: {
-            type: "object",
-            properties: {
-              pid: { type: "number", description: "Process ID" },
-            },
-            required: ["pid"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            const pid = options.input.pid;
-            await terminateProcess({ pid });
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(`Process ${pid} terminated`),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_get_stats",
-        tool: {
-          description: "Get resource usage statistics for a process",
-          inputSchema: {
-            type: "object",
-            properties: {
-              pid: { type: "number", description: "Process ID" },
-            },
-            required: ["pid"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            const pid = options.input.pid;
-            await viewStats({ pid });
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(`Stats for process ${pid}`),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_get_output",
-        tool: {
-          description: "Get captured output from a process",
-          inputSchema: {
-            type: "object",
-            properties: {
-              pid: { type: "number", description: "Process ID" },
-              lines: { type: "number", description: "Number of lines" },
-            },
-            required: ["pid"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            const output = await mcpClient.getProcessOutput(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(JSON.stringify(output)),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_send_stdin",
-        tool: {
-          description: "Send input to process stdin",
-          inputSchema: {
-            type: "object",
-            properties: {
-              pid: { type: "number", description: "Process ID" },
-              data: { type: "string", description: "Data to send" },
-            },
-            required: ["pid", "data"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            await mcpClient.sendProcessInput(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart("Input sent"),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_get_status",
-        tool: {
-          description: "Get status of a process",
-          inputSchema: {
-            type: "object",
-            properties: {
-              pid: { type: "number", description: "Process ID" },
-            },
-            required: ["pid"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            const status = await mcpClient.getProcessStatus(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(JSON.stringify(status)),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_create_group",
-        tool: {
-          description: "Create a process group or pipeline",
-          inputSchema: {
-            type: "object",
-            properties: {
-              name: { type: "string", description: "Group name" },
-              pids: {
-                type: "array",
-                items: { type: "number" },
-                description: "Process IDs",
-              },
-            },
-            required: ["name"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            await mcpClient.createProcessGroup(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(
-                `Group ${options.input.name} created`
-              ),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_add_to_group",
-        tool: {
-          description: "Add process to existing group",
-          inputSchema: {
-            type: "object",
-            properties: {
-              groupName: { type: "string", description: "Group name" },
-              pid: { type: "number", description: "Process ID" },
-            },
-            required: ["groupName", "pid"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            await mcpClient.addToProcessGroup(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(`Process added to group`),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_terminate_group",
-        tool: {
-          description: "Terminate all processes in a group",
-          inputSchema: {
-            type: "object",
-            properties: {
-              groupName: { type: "string", description: "Group name" },
-              force: { type: "boolean", description: "Force termination" },
-            },
-            required: ["groupName"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            await mcpClient.terminateProcessGroup(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(`Group terminated`),
-            ]);
-          },
-        },
-      },
-      {
-        name: "process_start_service",
-        tool: {
-          description: "Start long-running service with auto-restart",
-          inputSchema: {
-            type: "object",
-            properties: {
-              name: { type: "string", description: "Service name" },
-              executable: { type: "string", description: "Executable" },
-              args: {
-                type: "array",
-                items: { type: "string" },
-                description: "Arguments",
-              },
-              autoRestart: { type: "boolean", description: "Auto-restart" },
-            },
-            required: ["name", "executable"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            await mcpClient.startService(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(
-                `Service ${options.input.name} started`
-              ),
-            ]);
-          },
+  // Register language model tools. Tools with a handler here are registered
+  // now; tools only the server provides follow its tools/list response.
+  toolRegistry = new ServerToolRegistry(outputChannel, {
+    process_start: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      const params: ProcessStartParams = {
+        executable: input.executable,
+        args: input.args ?? [],
+        cwd: input.cwd,
+        env: input.env,
+        timeout: input.timeout,
+        captureOutput: true,
+      };
+      const violations = await checkStartPreflight(params);
+      if (violations.length > 0) {
+        throw new Error(
+          `Start of ${params.executable} blocked: ${violations
+            .map((v) => v.message)
+            .join("; ")}`
+        );
+      }
+      const pid = await mcpClient.startProcess(params, token);
+      await refreshProcessList();
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Process started: PID ${pid}`),
+      ]);
+    },
+    process_list: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      const processes = await mcpClient.listProcesses(token);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          processes.length > 0
+            ? processes
+                .map(
+                  (p) =>
+                    `PID ${p.pid}: ${formatCommandLine(p.command, p.args)} (${
+                      p.state
+                    })`
+                )
+                .join("\n")
+            : "No managed processes"
+        ),
+      ]);
+    },
+    process_terminate: async (input, token) => {
+      const pid = input.pid;
+      const message = await terminateProcess({ pid }, token, {
+        signal: input.signal,
+        gracePeriodSeconds: input.gracePeriodSeconds,
+        force: input.force,
+      });
+      if (token.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          message ?? `Process ${pid} was not terminated`
+        ),
+      ]);
+    },
+    process_get_stats: async (input, token) => {
+      const pid = input.pid;
+      await viewStats({ pid }, token);
+      if (token.isCancellationRequested) {
+        throw new vscode.CancellationError();
+      }
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Stats for process ${pid}`),
+      ]);
+    },
+    process_get_output: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      const output = await mcpClient.getProcessOutput(input, token);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(JSON.stringify(output)),
+      ]);
+    },
+    process_send_stdin: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      await mcpClient.sendProcessInput(input, token);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart("Input sent"),
+      ]);
+    },
+    process_get_status: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      const status = await mcpClient.getProcessStatus(input, token);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(JSON.stringify(status)),
+      ]);
+    },
+    process_create_group: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      await mcpClient.createProcessGroup(input, token);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Group ${input.name} created`),
+      ]);
+    },
+    process_add_to_group: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      await mcpClient.addToProcessGroup(input, token);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Process added to group`),
+      ]);
+    },
+    process_terminate_group: async (input, token) => {
+      if (!mcpClient) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      const client = mcpClient;
+      const policy = resolveTerminationPolicy(
+        {
+          signal: input.signal,
+          gracePeriodSeconds: input.gracePeriodSeconds,
+          force: input.force,
         },
-      },
-      {
-        name: "process_stop_service",
-        tool: {
-          description: "Stop service and disable auto-restart",
-          inputSchema: {
-            type: "object",
-            properties: {
-              name: { type: "string", description: "Service name" },
-            },
-            required: ["name"],
-          },
-          invoke: async (
-            options: vscode.LanguageModelToolInvocationOptions<any>,
-            token: vscode.CancellationToken
-          ) => {
-            if (!mcpClient) {
-              throw new Error("MCP ACS Process server not running");
-            }
-            await mcpClient.stopService(options.input);
-            return new vscode.LanguageModelToolResult([
-              new vscode.LanguageModelTextPart(
-                `Service ${options.input.name} stopped`
-              ),
-            ]);
-          },
+        getTerminationPolicy(),
+        await isForcedTerminationAllowed(client)
+      );
+      const { message } = await withCancellableProgress(
+        `Terminating group ${input.groupName}...`,
+        (progressToken, progress) =>
+          terminateGroupMembers(
+            client,
+            input.groupName,
+            policy,
+            progress,
+            progressToken
+          ),
+        token
+      );
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(message),
+      ]);
+    },
+    process_start_service: async (input, token) => {
+      if (!mcpClient || !serviceSupervisor) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      const restart: Partial<RestartSettings> = {};
+      if (input.restartPolicy !== undefined) {
+        if (!RESTART_POLICIES.includes(input.restartPolicy)) {
+          throw new Error(
+            `Unknown restart policy "${
+              input.restartPolicy
+            }"; use one of ${RESTART_POLICIES.join(", ")}`
+          );
+        }
+        restart.policy = input.restartPolicy;
+      } else if (input.autoRestart !== undefined) {
+        restart.policy = input.autoRestart ? "always" : "never";
+      }
+      if (input.maxRestarts !== undefined) {
+        restart.maxRestarts = input.maxRestarts;
+      }
+      await serviceSupervisor.start(
+        {
+          name: input.name,
+          executable: input.executable,
+          args: input.args ?? [],
+          restart,
         },
-      },
-    ];
-
-    for (const { name, tool } of tools) {
-      context.subscriptions.push(vscode.lm.registerTool(name, tool));
-    }
-    outputChannel.appendLine(`Registered ${tools.length} language model tools`);
-  } catch (error) {
-    outputChannel.appendLine(
-      `Tool registration skipped (API not available): ${error}`
-    );
-  }
+        token
+      );
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Service ${input.name} started`),
+      ]);
+    },
+    process_stop_service: async (input, token) => {
+      if (!mcpClient || !serviceSupervisor) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      await serviceSupervisor.stop(input.name, token);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(`Service ${input.name} stopped`),
+      ]);
+    },
+  });
+  context.subscriptions.push(toolRegistry);
 
   // Register task provider
   const taskProvider = vscode.tasks.registerTaskProvider("mcp-process", {
@@ -1233,22 +1294,119 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 
   // Initialize providers
-  processTreeProvider = new ProcessTreeDataProvider();
+  processTreeProvider = new ProcessTreeDataProvider(outputChannel);
   securityTreeProvider = new SecurityTreeDataProvider();
   processContextProvider = new ProcessContextProvider();
+  launchProfileProvider = new LaunchProfileTreeDataProvider();
+  resourceHistory = new ResourceHistorySampler(
+    context.globalStorageUri,
+    outputChannel
+  );
+  await resourceHistory.load();
+  resourceAlerts = new ResourceAlertMonitor(outputChannel);
+  const alerts = resourceAlerts;
+  context.subscriptions.push(
+    resourceHistory,
+    resourceAlerts,
+    resourceHistory.onDidSample((sweep) => alerts.handleSweep(sweep)),
+    resourceAlerts.onDidChangeAlerts((active) =>
+      processTreeProvider.setAlerts(active)
+    )
+  );
+  recentProcesses = new RecentProcessTracker(context.workspaceState);
+  const recent = recentProcesses;
+  context.subscriptions.push(
+    recentProcesses,
+    processTreeProvider.onDidListProcesses((processes) =>
+      recent.observe(processes)
+    ),
+    resourceHistory.onDidSample((sweep) => recent.handleSweep(sweep)),
+    recentProcesses.onDidChange((entries) =>
+      processTreeProvider.setRecent(entries)
+    )
+  );
+  processTreeProvider.setRecent(recentProcesses.getEntries());
+  crashNotifier = new CrashNotifier(outputChannel);
+  const notifier = crashNotifier;
+  context.subscriptions.push(
+    recentProcesses.onDidEndProcess((entry) =>
+      notifier.handleProcessEnd(entry)
+    ),
+    // Recorded now, so the client can drop what it kept for this PID
+    recentProcesses.onDidEndProcess((entry) =>
+      mcpClient?.forgetLaunch(entry.pid)
+    )
+  );
+  serviceSupervisor = new ServiceSupervisor(outputChannel);
+  const supervisor = serviceSupervisor;
+  const servicesProvider = new ServicesTreeDataProvider(serviceSupervisor);
+  context.subscriptions.push(
+    serviceSupervisor,
+    servicesProvider,
+    vscode.window.registerTreeDataProvider(
+      "mcp-process-services",
+      servicesProvider
+    ),
+    recentProcesses.onDidEndProcess((entry) =>
+      supervisor.handleProcessEnd(entry)
+    ),
+    processTreeProvider.onDidListProcesses((processes) =>
+      supervisor.observe(processes)
+    ),
+    // Keeps uptimes current
+    processTreeProvider.onDidChangeTreeData(() => servicesProvider.refresh())
+  );
 
   // Register tree views
+  processListView = vscode.window.createTreeView("mcp-process-list", {
+    treeDataProvider: processTreeProvider,
+    canSelectMany: true,
+  });
+  processStatusBar = new ProcessStatusBar();
+  const summary = processStatusBar;
   context.subscriptions.push(
-    vscode.window.registerTreeDataProvider(
-      "mcp-process-list",
-      processTreeProvider
-    )
+    processListView,
+    processStatusBar,
+    processListView.onDidCollapseElement(({ element }) => {
+      if (element instanceof ProcessTreeItem) {
+        processTreeProvider.forgetDetails(element.pid);
+      }
+    }),
+    processTreeProvider.onDidChangeTreeData(() =>
+      summary.setProcesses(processTreeProvider.getProcesses())
+    ),
+    resourceHistory.onDidSample((sweep) => {
+      const usage = new Map(
+        sweep.processes.map(({ process, stats }) => [
+          process.pid,
+          { cpuPercent: stats.cpuPercent, memoryMB: stats.memoryMB },
+        ])
+      );
+      processTreeProvider.setResourceUsage(usage);
+      summary.setResourceUsage(usage);
+    })
+  );
+  resourceHistory.setDemand("statusBar", processStatusBar.needsUsage());
+  await setProcessFilter(
+    context.workspaceState,
+    context.workspaceState.get<ProcessFilter>(PROCESS_FILTER_KEY, {})
+  );
+  const securityView = vscode.window.createTreeView("mcp-process-security", {
+    treeDataProvider: securityTreeProvider,
+  });
+  context.subscriptions.push(
+    securityView,
+    // The server does not report its configuration; say what is shown instead
+    securityTreeProvider.onDidChangeTreeData(() => {
+      securityView.description = mcpClient?.getSecurityConfigSource();
+    })
   );
   context.subscriptions.push(
     vscode.window.registerTreeDataProvider(
-      "mcp-process-security",
-      securityTreeProvider
-    )
+      "mcp-process-profiles",
+      launchProfileProvider
+    ),
+    launchProfileProvider
   );
 
   // Initialize MCP client (skip in test mode unless LSP tests or E2E tests)
@@ -1299,16 +1457,27 @@ export async function activate(context: vscode.ExtensionContext) {
           processTreeProvider.setMCPClient(mcpClient);
           securityTreeProvider.setMCPClient(mcpClient);
           processContextProvider.setMCPClient(mcpClient);
+          toolRegistry.setMCPClient(mcpClient);
 
           progress.report({ message: "Server ready" });
           outputChannel.appendLine(
             "MCP ACS Process server started successfully"
           );
 
-          // Start auto-refresh
-          startAutoRefresh();
+          // Follow pushed process events, polling only as a fallback
+          watchProcessEvents(mcpClient);
         } catch (error: any) {
           outputChannel.appendLine(`Failed to start MCP server: ${error}`);
+
+          if (error instanceof IncompatibleServerError && errorHandler) {
+            mcpClient = undefined;
+            await errorHandler.server.handleVersionMismatch(
+              error,
+              context.extension.packageJSON.version
+            );
+            return;
+          }
+
           vscode.window
             .showErrorMessage(
               "Failed to start MCP ACS Process server. Check output for details.",
@@ -1341,137 +1510,324 @@ export async function activate(context: vscode.ExtensionContext) {
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("mcp-process.viewProcesses", async () => {
-      await viewProcesses();
+    vscode.commands.registerCommand(
+      "mcp-process.attachTerminal",
+      async (item: ProcessTreeItem) => {
+        await attachTerminal(item);
+      }
+    ),
+    vscode.window.onDidCloseTerminal((terminal) => {
+      for (const [pid, attached] of attachedTerminals) {
+        if (attached === terminal) {
+          attachedTerminals.delete(pid);
+        }
+      }
     })
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("mcp-process.viewStats", async (item) => {
-      await viewStats(item);
-    })
+    vscode.commands.registerCommand(
+      "mcp-process.terminateGroup",
+      async (item: ProcessGroupTreeItem) => {
+        await terminateGroup(item);
+      }
+    )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.refreshProcessList",
-      async () => {
-        await refreshProcessList();
+      "mcp-process.terminateSelected",
+      async (item?: ProcessTreeItem, selection?: vscode.TreeItem[]) => {
+        await terminateSelected(item, selection);
       }
     )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.showSecurityBoundaries",
-      async () => {
-        await showSecurityBoundaries();
+      "mcp-process.addSelectedToGroup",
+      async (item?: ProcessTreeItem, selection?: vscode.TreeItem[]) => {
+        await addSelectedToGroup(item, selection);
       }
     )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.configureAllowlist",
-      async () => {
-        await configureAllowlist();
+      "mcp-process.exportSelectedOutput",
+      async (item?: ProcessTreeItem, selection?: vscode.TreeItem[]) => {
+        await exportSelectedOutput(item, selection);
       }
     )
   );
 
   context.subscriptions.push(
-    vscode.commands.registerCommand("mcp-process.restartServer", async () => {
-      await restartServer();
-    })
+    vscode.commands.registerCommand(
+      "mcp-process.compareSelectedStats",
+      async (item?: ProcessTreeItem, selection?: vscode.TreeItem[]) => {
+        await compareSelectedStats(item, selection);
+      }
+    )
   );
 
-  // Configuration management commands
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.applyConfigurationPreset",
-      async () => {
-        await applyConfigurationPreset();
+      "mcp-process.stopService",
+      async (item: ServiceTreeItem | ServiceStateTreeItem) => {
+        await stopService(item);
       }
     )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.exportConfiguration",
-      async () => {
-        await exportConfiguration();
+      "mcp-process.startService",
+      async (item?: ServiceStateTreeItem) => {
+        await startService(item);
       }
     )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.importConfiguration",
-      async () => {
-        await importConfiguration();
+      "mcp-process.restartService",
+      async (item: Pick<ServiceStateTreeItem, "name">) => {
+        await restartService(item);
       }
     )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.validateConfiguration",
+      "mcp-process.launchProfile",
+      async (item?: LaunchProfileTreeItem) => {
+        await launchProfile(item);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.openLaunchProfiles",
       async () => {
-        await validateConfiguration();
+        await openLaunchProfiles();
       }
     )
   );
 
-  // Copilot integration commands
   context.subscriptions.push(
-    vscode.commands.registerCommand("mcp-process.getContext", async () => {
-      return await processContextProvider.getContext();
-    })
+    vscode.commands.registerCommand(
+      "mcp-process.exportResourceHistory",
+      async () => {
+        await exportResourceHistory();
+      }
+    )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.getContextString",
+      "mcp-process.compareResourceRuns",
       async () => {
-        const contextString = await processContextProvider.getContextString();
-        vscode.window.showInformationMessage(contextString, { modal: true });
+        await compareResourceRuns();
       }
     )
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.getAvailableTools",
+      "mcp-process.clearResourceHistory",
       async () => {
-        return processContextProvider.getAvailableTools();
+        await clearResourceHistory();
       }
     )
   );
 
-  // Diagnostic commands
   context.subscriptions.push(
     vscode.commands.registerCommand(
-      "mcp-process.reconnectToServer",
+      "mcp-process.showProcessSummary",
       async () => {
-        if (!mcpClient) {
-          vscode.window.showErrorMessage("MCP ACS Process server not running");
-          return;
-        }
+        await processStatusBar?.showQuickPick();
+      }
+    )
+  );
 
-        try {
-          outputChannel.appendLine("Reconnecting to MCP ACS Process server...");
-          const success = await mcpClient.reconnect();
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-process.filterProcesses", async () => {
+      await filterProcesses(context.workspaceState);
+    })
+  );
 
-          if (success) {
-            vscode.window.showInformationMessage(
-              "Reconnected to MCP ACS Process server"
-            );
-            outputChannel.appendLine("Reconnection successful");
-            await refreshProcessList();
-          } else {
-            vscode.window.showErrorMessage(
-              "Failed to reconnect to MCP ACS Process server"
-            );
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.clearProcessFilter",
+      async () => {
+        await setProcessFilter(context.workspaceState, {});
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.relaunchProcess",
+      async (item: Pick<RecentProcessTreeItem, "entry">) => {
+        await relaunchProcess(item);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.copyProcessCommand",
+      async (item: RecentProcessTreeItem) => {
+        await copyProcessCommand(item);
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-process.clearRecentProcesses", () => {
+      recentProcesses?.clear();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-process.viewProcesses", async () => {
+      await viewProcesses();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-process.viewStats", async (item) => {
+      await viewStats(item);
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.refreshProcessList",
+      async () => {
+        await refreshProcessList();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.showSecurityBoundaries",
+      async () => {
+        await showSecurityBoundaries();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.configureAllowlist",
+      async () => {
+        await configureAllowlist();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-process.restartServer", async () => {
+      await restartServer();
+    })
+  );
+
+  // Configuration management commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.applyConfigurationPreset",
+      async () => {
+        await applyConfigurationPreset();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.exportConfiguration",
+      async () => {
+        await exportConfiguration();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.importConfiguration",
+      async () => {
+        await importConfiguration();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.validateConfiguration",
+      async () => {
+        await validateConfiguration();
+      }
+    )
+  );
+
+  // Copilot integration commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-process.getContext", async () => {
+      return await processContextProvider.getContext();
+    })
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.getContextString",
+      async () => {
+        const contextString = await processContextProvider.getContextString();
+        vscode.window.showInformationMessage(contextString, { modal: true });
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.getAvailableTools",
+      async () => {
+        return processContextProvider.getAvailableTools();
+      }
+    )
+  );
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("mcp-process.runServerTool", async () => {
+      await runServerTool();
+    })
+  );
+
+  // Diagnostic commands
+  context.subscriptions.push(
+    vscode.commands.registerCommand(
+      "mcp-process.reconnectToServer",
+      async () => {
+        if (!mcpClient) {
+          vscode.window.showErrorMessage("MCP ACS Process server not running");
+          return;
+        }
+
+        try {
+          outputChannel.appendLine("Reconnecting to MCP ACS Process server...");
+          const success = await mcpClient.reconnect();
+
+          if (success) {
+            vscode.window.showInformationMessage(
+              "Reconnected to MCP ACS Process server"
+            );
+            outputChannel.appendLine("Reconnection successful");
+            await refreshProcessList();
+          } else {
+            vscode.window.showErrorMessage(
+              "Failed to reconnect to MCP ACS Process server"
+            );
             outputChannel.appendLine("Reconnection failed");
           }
         } catch (error: any) {
@@ -1504,6 +1860,34 @@ export async function activate(context: vscode.ExtensionContext) {
         outputChannel.appendLine("=".repeat(80));
         outputChannel.appendLine("");
         outputChannel.appendLine(`Extension: ${diagnostics.extensionName}`);
+        outputChannel.appendLine(
+          `Transport: ${mcpClient.getTransportDescription()}`
+        );
+        const replayPath = mcpClient.getReplayPath();
+        if (replayPath) {
+          outputChannel.appendLine(`Replaying Session: ${replayPath}`);
+        }
+        const recordingPath = mcpClient.getRecordingPath();
+        if (recordingPath) {
+          outputChannel.appendLine(`Recording Session: ${recordingPath}`);
+        }
+
+        const handshake = mcpClient.getServerHandshake();
+        if (handshake) {
+          outputChannel.appendLine(
+            `Server: ${handshake.serverName ?? "unknown"} ${
+              handshake.serverVersion ?? "(version not reported)"
+            }`
+          );
+          outputChannel.appendLine(
+            `Protocol Version: ${handshake.protocolVersion ?? "unknown"}`
+          );
+          outputChannel.appendLine(
+            `Capabilities: ${describeCapabilities(handshake.capabilities)}`
+          );
+        } else {
+          outputChannel.appendLine("Server: handshake not completed");
+        }
         outputChannel.appendLine(
           `Connection State: ${diagnostics.connectionState}`
         );
@@ -1517,6 +1901,10 @@ export async function activate(context: vscode.ExtensionContext) {
         outputChannel.appendLine(
           `Pending Requests: ${diagnostics.pendingRequestCount}`
         );
+        const queue = mcpClient.getRequestQueueStats();
+        outputChannel.appendLine(
+          `Request Queue: ${queue.running} running, ${queue.queuedUser} user / ${queue.queuedBackground} background queued, ${queue.deduplicated} deduplicated`
+        );
 
         if (diagnostics.pendingRequests.length > 0) {
           outputChannel.appendLine("");
@@ -1633,6 +2021,13 @@ export async function deactivate() {
   if (refreshInterval) {
     clearInterval(refreshInterval);
   }
+  for (const subscription of processEventSubscriptions) {
+    subscription.dispose();
+  }
+  if (resourceHistory) {
+    resourceHistory.stop();
+    await resourceHistory.save();
+  }
   if (mcpClient) {
     mcpClient.stop();
   }
@@ -1645,25 +2040,1859 @@ export async function deactivate() {
   if (languageClient) {
     await languageClient.stop();
   }
-  // Clear platform context keys
-  await clearPlatformContext();
-  outputChannel.dispose();
-}
-
-function startAutoRefresh() {
-  const config = vscode.workspace.getConfiguration("mcp-process");
-  const interval = config.get<number>("refreshInterval", 2000);
+  // Clear platform context keys
+  await clearPlatformContext();
+  outputChannel.dispose();
+}
+
+/**
+ * Update the process views from server-pushed events and switch between
+ * push updates and polling as the server's event support changes
+ */
+function watchProcessEvents(client: MCPProcessClient) {
+  for (const subscription of processEventSubscriptions) {
+    subscription.dispose();
+  }
+
+  processEventSubscriptions = [
+    client.onProcessEvent((event) => {
+      processTreeProvider.applyProcessEvent(event);
+      recentProcesses?.handleProcessEvent(event);
+      resourceAlerts?.handleProcessEvent(event);
+      processStatusBar?.setProcesses(processTreeProvider.getProcesses());
+    }),
+    client.onProcessEventSupportChanged((supported) => {
+      outputChannel.appendLine(
+        supported
+          ? "Server process events available - polling disabled"
+          : "Server process events unavailable - falling back to polling"
+      );
+      startAutoRefresh();
+    }),
+    client.onGroupsChanged(() => {
+      processTreeProvider.setGroups(
+        client.getProcessGroups(),
+        client.getServices()
+      );
+      serviceSupervisor?.adoptClientServices();
+    }),
+    client.onServerExit(({ code, signal }) => {
+      pendingRecovery = takeRecoverySnapshot(client);
+      if (pendingRecovery) {
+        outputChannel.appendLine(
+          `Server exited (code ${code}, signal ${signal}) - ${pendingRecovery.processes.length} process(es) and ${pendingRecovery.services.length} service(s) can be relaunched after a restart`
+        );
+      }
+    }),
+    client.onStateChange((status) => {
+      if (status.state === ConnectionState.CONNECTED && pendingRecovery) {
+        const recovery = pendingRecovery;
+        pendingRecovery = undefined;
+        void offerRecovery(recovery);
+      }
+    }),
+  ];
+
+  processTreeProvider.setGroups(
+    client.getProcessGroups(),
+    client.getServices()
+  );
+  resourceHistory?.setMCPClient(client);
+  recentProcesses?.setMCPClient(client);
+  crashNotifier?.setMCPClient(client);
+  serviceSupervisor?.setMCPClient(client);
+  processStatusBar?.setMCPClient(client);
+  startAutoRefresh();
+}
+
+function startAutoRefresh() {
+  const config = vscode.workspace.getConfiguration("mcp-process");
+  const interval = config.get<number>("ui.refreshInterval", 2000);
+
+  if (refreshInterval) {
+    clearInterval(refreshInterval);
+    refreshInterval = undefined;
+  }
+
+  // Pushed events keep the views current; polling is only the fallback
+  if (mcpClient?.supportsProcessEvents()) {
+    return;
+  }
+
+  refreshInterval = setInterval(async () => {
+    await processTreeProvider.refresh();
+  }, interval) as NodeJS.Timeout;
+}
+
+async function startProcess() {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  let state: StartProcessWizardState | undefined;
+  let params: ProcessStartParams;
+  for (;;) {
+    state = await new StartProcessWizard(
+      await getAllowedExecutables(),
+      vscode.workspace.workspaceFolders ?? [],
+      state
+    ).run();
+    if (!state) {
+      return;
+    }
+    params = toStartParams(state);
+
+    const violations = await checkStartPreflight(params);
+    if (violations.length === 0) {
+      break;
+    }
+
+    const choice = await showPreflightViolations(
+      params.executable,
+      violations,
+      "Edit"
+    );
+    if (choice !== "Edit") {
+      return;
+    }
+  }
+
+  try {
+    const result = await mcpClient.startProcess(params);
+
+    vscode.window.showInformationMessage(`Process started: ID ${result}`);
+
+    await refreshProcessList();
+  } catch (error: any) {
+    outputChannel.appendLine(
+      `Failed to start process: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to start process: ${error.message || error}`
+      );
+    }
+  }
+}
+
+/**
+ * Report the rules that would block a start request
+ *
+ * @param editAction - label of the button for changing the request
+ * @returns the button chosen; "Open Settings" is handled here
+ */
+async function showPreflightViolations(
+  executable: string,
+  violations: ValidationError[],
+  editAction?: string
+): Promise<string | undefined> {
+  outputChannel.appendLine(
+    `Start of ${executable} blocked by pre-flight checks:`
+  );
+  violations.forEach((violation) =>
+    outputChannel.appendLine(
+      `  mcp-process.${violation.setting}: ${violation.message}`
+    )
+  );
+
+  const choice = await vscode.window.showErrorMessage(
+    `The server would refuse to start ${executable}`,
+    {
+      modal: true,
+      detail: violations
+        .map(
+          (violation) =>
+            `mcp-process.${violation.setting}: ${violation.message}` +
+            (violation.suggestion ? `\n  ${violation.suggestion}` : "")
+        )
+        .join("\n"),
+    },
+    ...(editAction ? [editAction, "Open Settings"] : ["Open Settings"])
+  );
+  if (choice === "Open Settings") {
+    await vscode.commands.executeCommand(
+      "workbench.action.openSettings",
+      `mcp-process.${violations[0].setting}`
+    );
+  }
+  return choice;
+}
+
+/**
+ * Launch a profile from the Launch Profiles view, or pick one when run from
+ * the Command Palette
+ */
+async function launchProfile(item?: LaunchProfileTreeItem) {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  if (!item) {
+    const profiles = await launchProfileProvider.getProfiles();
+    if (profiles.length === 0) {
+      const choice = await vscode.window.showInformationMessage(
+        `No launch profiles found in ${LAUNCH_PROFILES_FILE}`,
+        "Create Launch Profiles"
+      );
+      if (choice) {
+        await openLaunchProfiles();
+      }
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      profiles.map((profileItem) => ({
+        label: profileItem.profile.name,
+        description: profileItem.description as string,
+        profileItem,
+      })),
+      { placeHolder: "Select a launch profile" }
+    );
+    if (!picked) {
+      return;
+    }
+    item = picked.profileItem;
+  }
+
+  const { profile, folder } = item;
+  const params = toProfileStartParams(profile, folder.uri.fsPath);
+
+  const violations = await checkStartPreflight(params);
+  if (violations.length > 0) {
+    const choice = await showPreflightViolations(
+      params.executable,
+      violations,
+      "Edit Profile"
+    );
+    if (choice === "Edit Profile") {
+      await openLaunchProfiles(folder);
+    }
+    return;
+  }
+
+  try {
+    if (profile.service) {
+      // Never start a service profile as a plain process instead
+      if (!serviceSupervisor) {
+        throw new Error("services are not available");
+      }
+      await serviceSupervisor.start({
+        name: profile.service,
+        executable: params.executable,
+        args: params.args ?? [],
+      });
+      vscode.window.showInformationMessage(
+        `Service started: ${profile.service}`
+      );
+    } else {
+      const pid = await mcpClient.startProcess(params);
+      if (profile.group) {
+        await joinProcessGroup(profile.group, parseInt(pid, 10));
+      }
+      vscode.window.showInformationMessage(
+        `Launched ${profile.name}: ID ${pid}`
+      );
+    }
+
+    await refreshProcessList();
+  } catch (error: any) {
+    outputChannel.appendLine(
+      `Failed to launch ${profile.name}: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to launch ${profile.name}: ${error.message || error}`
+      );
+    }
+  }
+}
+
+/**
+ * Open a workspace folder's launch profiles, creating the file with an
+ * example profile when it does not exist yet
+ */
+async function openLaunchProfiles(folder?: vscode.WorkspaceFolder) {
+  if (!folder) {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    if (folders.length === 0) {
+      vscode.window.showErrorMessage("Open a folder to create launch profiles");
+      return;
+    }
+    folder =
+      folders.length === 1
+        ? folders[0]
+        : await vscode.window.showWorkspaceFolderPick({
+            placeHolder: "Select the folder for the launch profiles",
+          });
+    if (!folder) {
+      return;
+    }
+  }
+
+  const uri = vscode.Uri.joinPath(folder.uri, LAUNCH_PROFILES_FILE);
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    const example = {
+      profiles: [
+        {
+          name: "Dev Server",
+          executable: "npm",
+          args: ["run", "dev"],
+          env: { NODE_ENV: "development" },
+        },
+      ],
+    };
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(`${JSON.stringify(example, null, 2)}\n`, "utf8")
+    );
+  }
+
+  await vscode.window.showTextDocument(uri);
+}
+
+/**
+ * Allowlisted executables to suggest in the Start Process wizard
+ */
+async function getAllowedExecutables(): Promise<string[]> {
+  try {
+    return (await mcpClient?.getSecurityConfig())?.allowedExecutables ?? [];
+  } catch {
+    return vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<string[]>("executable.allowedExecutables", []);
+  }
+}
+
+/**
+ * Check a start request against the expected security configuration,
+ * returning the rules that would block it
+ */
+async function checkStartPreflight(
+  params: ProcessStartParams
+): Promise<ValidationError[]> {
+  if (!mcpClient) {
+    return [];
+  }
+
+  let config: Partial<SecurityConfig>;
+  try {
+    config = await mcpClient.getSecurityConfig();
+  } catch {
+    config = mcpClient.getConfig();
+  }
+
+  let runningProcesses: number | undefined;
+  try {
+    const processes = await mcpClient.listProcesses();
+    runningProcesses = processes.filter((p) => p.state === "running").length;
+  } catch {
+    // The server enforces the limit itself
+  }
+
+  let setuid: boolean | undefined;
+  if (path.isAbsolute(params.executable)) {
+    try {
+      const stats = await fs.promises.stat(params.executable);
+      setuid = (stats.mode & 0o6000) !== 0;
+    } catch {
+      // Missing executables are reported by the server
+    }
+  }
+
+  return checkStartRequest(params, config, { runningProcesses, setuid });
+}
+
+/**
+ * Run a server call behind a cancellable progress notification. Cancelling
+ * the notification, or the caller's token, cancels the server request.
+ */
+async function withCancellableProgress<T>(
+  title: string,
+  task: (
+    token: vscode.CancellationToken,
+    progress: vscode.Progress<{ message?: string }>
+  ) => Promise<T>,
+  callerToken?: vscode.CancellationToken
+): Promise<T> {
+  return vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title,
+      cancellable: true,
+    },
+    async (progress, progressToken) => {
+      if (!callerToken) {
+        return task(progressToken, progress);
+      }
+
+      const source = new vscode.CancellationTokenSource();
+      const subscriptions = [
+        progressToken.onCancellationRequested(() => source.cancel()),
+        callerToken.onCancellationRequested(() => source.cancel()),
+      ];
+      if (callerToken.isCancellationRequested) {
+        source.cancel();
+      }
+
+      try {
+        return await task(source.token, progress);
+      } finally {
+        subscriptions.forEach((subscription) => subscription.dispose());
+        source.dispose();
+      }
+    }
+  );
+}
+
+/**
+ * Terminate a process with a termination policy, picked by the user or
+ * given by a language model tool. Returns a summary of what happened.
+ */
+async function terminateProcess(
+  item: any,
+  token?: vscode.CancellationToken,
+  request?: TerminationRequest
+): Promise<string | undefined> {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const pid = item.pid;
+  if (!pid) {
+    return;
+  }
+
+  const client = mcpClient;
+  const allowForced = await isForcedTerminationAllowed(client);
+  const policy = request
+    ? resolveTerminationPolicy(request, getTerminationPolicy(), allowForced)
+    : await pickTerminationPolicy(allowForced);
+  if (!policy) {
+    return;
+  }
+
+  recentProcesses?.noteTerminationRequest(pid);
+
+  try {
+    const { outcome, result } = await withCancellableProgress(
+      `Terminating process ${pid} (${describeTerminationPolicy(policy)})...`,
+      (progressToken, progress) =>
+        terminateWithPolicy(client, pid, policy, progress, progressToken),
+      token
+    );
+    recentProcesses?.noteTermination(pid, result);
+
+    let message: string;
+    switch (outcome) {
+      case "exited":
+        message = `Process ${pid} exited after ${policy.signal}`;
+        vscode.window.showInformationMessage(message);
+        break;
+      case "killed":
+        message = `Process ${pid} killed with SIGKILL`;
+        vscode.window.showInformationMessage(message);
+        break;
+      case "survived":
+        message = `Process ${pid} is still running ${policy.gracePeriodSeconds}s after ${policy.signal}`;
+        vscode.window.showWarningMessage(
+          allowForced
+            ? message
+            : `${message}. Forced termination is disabled by mcp-process.security.allowForcedTermination.`
+        );
+        break;
+    }
+
+    await refreshProcessList();
+    return message;
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      outputChannel.appendLine(`Termination of process ${pid} cancelled`);
+      // A caller that passed a token must see the cancellation, not a result
+      if (token) {
+        throw error;
+      }
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to terminate process: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to terminate process: ${error.message || error}`
+      );
+    }
+  }
+}
+
+/**
+ * The termination policy from `mcp-process.termination.*`
+ */
+function getTerminationPolicy(): TerminationPolicy {
+  const config = vscode.workspace.getConfiguration("mcp-process");
+  const signal = config.get<string>("termination.signal", "SIGTERM");
+  return {
+    signal: isTerminationSignal(signal) ? signal : "SIGTERM",
+    gracePeriodSeconds: config.get<number>("termination.gracePeriodSeconds", 5),
+    escalate: config.get<boolean>("termination.escalateToKill", true),
+  };
+}
+
+/**
+ * Whether the server's expected security configuration permits SIGKILL
+ */
+async function isForcedTerminationAllowed(
+  client: MCPProcessClient
+): Promise<boolean> {
+  try {
+    return (await client.getSecurityConfig()).allowForcedTermination ?? false;
+  } catch {
+    return client.getConfig().allowForcedTermination ?? false;
+  }
+}
+
+/**
+ * Ask which signal to send, listing the configured one first. SIGKILL is
+ * offered only when forced termination is allowed.
+ */
+async function pickTerminationPolicy(
+  allowForced: boolean
+): Promise<TerminationPolicy | undefined> {
+  const defaults = getTerminationPolicy();
+  const signals = [
+    defaults.signal,
+    ...TERMINATION_SIGNALS.filter((signal) => signal !== defaults.signal),
+  ];
+
+  const items = signals.map((signal) => {
+    const policy = resolveTerminationPolicy({ signal }, defaults, allowForced);
+    return {
+      label: signal,
+      description: isTerminationSignal(signal) ? SIGNAL_LABELS[signal] : "",
+      detail: describeTerminationPolicy(policy),
+      policy,
+    };
+  });
+  if (allowForced) {
+    items.push({
+      label: "SIGKILL",
+      description: "Kill immediately; cannot be caught",
+      detail: "SIGKILL",
+      policy: { signal: "SIGKILL", gracePeriodSeconds: 0, escalate: false },
+    });
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Select the signal to send",
+  });
+  return picked?.policy;
+}
+
+/**
+ * Run a termination policy against one process, counting down the grace
+ * period in the progress notification
+ */
+function terminateWithPolicy(
+  client: MCPProcessClient,
+  pid: number,
+  policy: TerminationPolicy,
+  progress: vscode.Progress<{ message?: string }>,
+  token: vscode.CancellationToken
+) {
+  return runTermination(
+    {
+      sendSignal: (signal) => client.terminateProcess({ pid, signal }, token),
+      kill: () => client.terminateProcess({ pid, force: true }, token),
+      isRunning: async () => {
+        try {
+          const info = await client.getProcessStatus({ pid }, token);
+          return info.state === "running";
+        } catch (error) {
+          if (error instanceof vscode.CancellationError) {
+            throw error;
+          }
+          // The server no longer knows the process
+          return false;
+        }
+      },
+    },
+    policy,
+    {
+      onCountdown: (left) =>
+        progress.report({
+          message: policy.escalate
+            ? `SIGKILL in ${left}s`
+            : `waiting ${left}s for exit`,
+        }),
+      sleep: (ms) => cancellableDelay(ms, token),
+    }
+  );
+}
+
+function cancellableDelay(
+  ms: number,
+  token: vscode.CancellationToken
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      subscription.dispose();
+      resolve();
+    }, ms);
+    const subscription = token.onCancellationRequested(() => {
+      clearTimeout(timer);
+      subscription.dispose();
+      reject(new vscode.CancellationError());
+    });
+  });
+}
+
+/**
+ * PIDs of a group's running members, including those the process list
+ * filter hides and those the server reports only through `group`
+ */
+function getRunningGroupMembers(groupName: string): number[] {
+  return processTreeProvider
+    .getGroupMembers(groupName)
+    .filter((p) => p.state === "running")
+    .map((p) => p.pid);
+}
+
+/**
+ * Terminate a group's running members in parallel with one policy. The
+ * group is released on the server once all of them have ended; members
+ * that could not be terminated are reported without stopping the rest.
+ */
+async function terminateGroupMembers(
+  client: MCPProcessClient,
+  groupName: string,
+  policy: TerminationPolicy,
+  progress: vscode.Progress<{ message?: string }>,
+  token: vscode.CancellationToken
+): Promise<{ message: string; survivors: number[]; failed: number }> {
+  const pids = getRunningGroupMembers(groupName);
+  pids.forEach((pid) => recentProcesses?.noteTerminationRequest(pid));
+  const settled = await Promise.allSettled(
+    pids.map(async (pid) => {
+      const { outcome, result } = await terminateWithPolicy(
+        client,
+        pid,
+        policy,
+        progress,
+        token
+      );
+      recentProcesses?.noteTermination(pid, result);
+      return { pid, outcome };
+    })
+  );
+  if (token.isCancellationRequested) {
+    throw new vscode.CancellationError();
+  }
+
+  const outcomes = settled.flatMap((s) =>
+    s.status === "fulfilled" ? [s.value] : []
+  );
+  const failures = settled.flatMap((s, i) =>
+    s.status === "rejected"
+      ? [`${pids[i]}: ${s.reason?.message ?? s.reason}`]
+      : []
+  );
+  failures.forEach((failure) =>
+    outputChannel.appendLine(
+      `Failed to terminate process in group ${groupName}: ${failure}`
+    )
+  );
+  const failedNote =
+    failures.length > 0
+      ? `; ${failures.length} could not be terminated, see the output`
+      : "";
+
+  const survivors = outcomes
+    .filter(({ outcome }) => outcome === "survived")
+    .map(({ pid }) => pid);
+  if (survivors.length > 0) {
+    return {
+      message: `${
+        survivors.length
+      } process(es) in group ${groupName} still running after ${
+        policy.signal
+      }: ${survivors.join(", ")}${failedNote}`,
+      survivors,
+      failed: failures.length,
+    };
+  }
+
+  await client.terminateProcessGroup({ groupName }, token);
+  const killed = outcomes.filter(({ outcome }) => outcome === "killed").length;
+  return {
+    message:
+      (killed > 0
+        ? `Process group ${groupName} terminated, ${killed} process(es) killed with SIGKILL`
+        : `Process group ${groupName} terminated with ${policy.signal}`) +
+      failedNote,
+    survivors,
+    failed: failures.length,
+  };
+}
+
+/**
+ * Processes a bulk command applies to: the tree selection it was invoked
+ * with, or the view's current selection when run from the palette
+ */
+function getSelectedProcesses(
+  item: ProcessTreeItem | undefined,
+  selection: readonly vscode.TreeItem[] | undefined
+): ProcessInfo[] {
+  const processes = selectedProcesses(
+    item,
+    (selection ?? processListView?.selection) as
+      | ReadonlyArray<Partial<ProcessTreeItem>>
+      | undefined
+  );
+  if (processes.length === 0) {
+    vscode.window.showInformationMessage(
+      "Select one or more processes in the process list first"
+    );
+  }
+  return processes;
+}
+
+/**
+ * Show one summary for a bulk action, listing every failure in the output
+ */
+function reportBulkResult(summary: string, failures: BulkFailure[]) {
+  if (failures.length === 0) {
+    vscode.window.showInformationMessage(summary);
+    return;
+  }
+  for (const failure of failures) {
+    outputChannel.appendLine(`PID ${failure.pid}: ${failure.message}`);
+  }
+  void vscode.window
+    .showWarningMessage(summary, "Show Output")
+    .then((action) => {
+      if (action === "Show Output") {
+        outputChannel.show();
+      }
+    });
+}
+
+async function terminateSelected(
+  item?: ProcessTreeItem,
+  selection?: readonly vscode.TreeItem[]
+) {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const processes = getSelectedProcesses(item, selection);
+  if (processes.length === 0) {
+    return;
+  }
+
+  const client = mcpClient;
+  const allowForced = await isForcedTerminationAllowed(client);
+  const defaults = resolveTerminationPolicy(
+    {},
+    getTerminationPolicy(),
+    allowForced
+  );
+  const action = await vscode.window.showWarningMessage(
+    `Terminate ${
+      processes.length
+    } selected process(es) (${describeTerminationPolicy(defaults)})?`,
+    {
+      modal: true,
+      detail: processes.map((p) => `PID ${p.pid}: ${p.command}`).join("\n"),
+    },
+    "Terminate",
+    "Choose Signal..."
+  );
+  if (!action) {
+    return;
+  }
+  const policy =
+    action === "Terminate"
+      ? defaults
+      : await pickTerminationPolicy(allowForced);
+  if (!policy) {
+    return;
+  }
+
+  const pids = processes.map((p) => p.pid);
+  pids.forEach((pid) => recentProcesses?.noteTerminationRequest(pid));
+
+  try {
+    const { failures } = await withCancellableProgress(
+      `Terminating ${pids.length} process(es) (${describeTerminationPolicy(
+        policy
+      )})...`,
+      async (progressToken, progress) => {
+        const result = await runBulk(
+          pids,
+          async (pid) => {
+            const { outcome, result } = await terminateWithPolicy(
+              client,
+              pid,
+              policy,
+              progress,
+              progressToken
+            );
+            recentProcesses?.noteTermination(pid, result);
+            if (outcome === "survived") {
+              throw new Error(
+                `still running ${policy.gracePeriodSeconds}s after ${policy.signal}`
+              );
+            }
+          },
+          (done, total) =>
+            progress.report({ message: `${done} of ${total} ended` })
+        );
+        if (progressToken.isCancellationRequested) {
+          throw new vscode.CancellationError();
+        }
+        return result;
+      }
+    );
+
+    reportBulkResult(
+      summarizeBulk("Terminated", pids.length, failures),
+      failures
+    );
+    await refreshProcessList();
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      outputChannel.appendLine("Termination of selected processes cancelled");
+      await refreshProcessList();
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to terminate processes: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to terminate processes: ${error.message || error}`
+      );
+    }
+  }
+}
+
+async function addSelectedToGroup(
+  item?: ProcessTreeItem,
+  selection?: readonly vscode.TreeItem[]
+) {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const processes = getSelectedProcesses(item, selection);
+  if (processes.length === 0) {
+    return;
+  }
+
+  const client = mcpClient;
+  const groups = client.getProcessGroups();
+  const picked = await vscode.window.showQuickPick(
+    [
+      ...groups.map((group) => ({
+        label: group.name,
+        description: `${group.pids.length} process(es)`,
+        create: false,
+      })),
+      { label: "$(add) New Group...", description: "", create: true },
+    ],
+    { placeHolder: `Add ${processes.length} process(es) to a group` }
+  );
+  if (!picked) {
+    return;
+  }
+
+  let groupName: string | undefined = picked.label;
+  if (picked.create) {
+    groupName = await vscode.window.showInputBox({
+      prompt: "Name of the new process group",
+      validateInput: (value) =>
+        !value.trim()
+          ? "Enter a group name"
+          : groups.some((group) => group.name === value.trim())
+          ? `Group ${value.trim()} already exists`
+          : undefined,
+    });
+    if (!groupName) {
+      return;
+    }
+    groupName = groupName.trim();
+  }
+
+  const name = groupName;
+  const pids = processes.map((p) => p.pid);
+  try {
+    const { failures } = await withCancellableProgress(
+      `Adding ${pids.length} process(es) to group ${name}...`,
+      async (progressToken, progress) => {
+        if (picked.create) {
+          await client.createProcessGroup({ name }, progressToken);
+        }
+        return runBulk(
+          pids,
+          (pid) =>
+            client.addToProcessGroup({ groupName: name, pid }, progressToken),
+          (done, total) =>
+            progress.report({ message: `${done} of ${total} added` })
+        );
+      }
+    );
+
+    reportBulkResult(
+      summarizeBulk(`Added to group ${name}:`, pids.length, failures),
+      failures
+    );
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to create process group: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to create process group: ${error.message || error}`
+      );
+    }
+  }
+}
+
+async function exportSelectedOutput(
+  item?: ProcessTreeItem,
+  selection?: readonly vscode.TreeItem[]
+) {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP ACS Process server not running");
+    return;
+  }
+
+  const processes = getSelectedProcesses(item, selection);
+  if (processes.length === 0) {
+    return;
+  }
+
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const fileName =
+    processes.length === 1
+      ? `${path.basename(processes[0].command)}-${processes[0].pid}-output.log`
+      : "processes-output.log";
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: defaultFolder
+      ? vscode.Uri.joinPath(defaultFolder, fileName)
+      : undefined,
+    filters: { "Log files": ["log", "txt"] },
+    saveLabel: "Export Output",
+  });
+  if (!uri) {
+    return;
+  }
+
+  const client = mcpClient;
+  try {
+    const { succeeded, failures } = await withCancellableProgress(
+      `Exporting output of ${processes.length} process(es)...`,
+      (progressToken, progress) =>
+        runBulk(
+          processes.map((p) => p.pid),
+          async (pid) =>
+            (
+              await client.getProcessOutput({ pid }, progressToken)
+            ).output,
+          (done, total) =>
+            progress.report({ message: `${done} of ${total} read` })
+        )
+    );
+    if (succeeded.length > 0) {
+      const outputs = new Map(succeeded.map((s) => [s.pid, s.value]));
+      const content = formatCombinedOutput(
+        processes.flatMap((process) => {
+          const output = outputs.get(process.pid);
+          return output === undefined ? [] : [{ process, output }];
+        })
+      );
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+    }
+
+    reportBulkResult(
+      `${summarizeBulk("Exported output of", processes.length, failures)}${
+        succeeded.length > 0 ? ` to ${uri.fsPath}` : ""
+      }`,
+      failures
+    );
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `Failed to export process output: ${error.message || error}`
+    );
+  }
+}
+
+/**
+ * Open current statistics of the selected processes side by side
+ */
+async function compareSelectedStats(
+  item?: ProcessTreeItem,
+  selection?: readonly vscode.TreeItem[]
+) {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP ACS Process server not running");
+    return;
+  }
+
+  const processes = getSelectedProcesses(item, selection);
+  if (processes.length === 0) {
+    return;
+  }
+
+  const client = mcpClient;
+  try {
+    const { succeeded, failures } = await withCancellableProgress(
+      `Loading statistics for ${processes.length} process(es)...`,
+      (progressToken, progress) =>
+        runBulk(
+          processes.map((p) => p.pid),
+          (pid) => client.getProcessStats({ pid }, progressToken),
+          (done, total) =>
+            progress.report({ message: `${done} of ${total} loaded` })
+        )
+    );
+
+    if (succeeded.length > 0) {
+      const stats = new Map(succeeded.map((s) => [s.pid, s.value]));
+      const document = await vscode.workspace.openTextDocument({
+        language: "markdown",
+        content: formatStatsComparison(
+          processes.flatMap((process) => {
+            const entry = stats.get(process.pid);
+            return entry ? [{ process, stats: entry }] : [];
+          })
+        ),
+      });
+      await vscode.window.showTextDocument(document);
+    }
+    if (failures.length > 0) {
+      reportBulkResult(
+        summarizeBulk("Loaded statistics for", processes.length, failures),
+        failures
+      );
+    }
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      return;
+    }
+    vscode.window.showErrorMessage(
+      `Failed to load process statistics: ${error.message || error}`
+    );
+  }
+}
+
+async function attachTerminal(item: ProcessTreeItem) {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const processInfo = item?.processInfo;
+  if (!processInfo) {
+    return;
+  }
+
+  // One terminal per process
+  const existing = attachedTerminals.get(processInfo.pid);
+  if (existing) {
+    existing.show();
+    return;
+  }
+
+  const terminal = vscode.window.createTerminal({
+    name: `PID ${processInfo.pid}: ${processInfo.command}`,
+    // No request: the configured termination policy applies without asking
+    pty: new ProcessTerminal(mcpClient, processInfo, (pid) =>
+      terminateProcess({ pid }, undefined, {})
+    ),
+    iconPath: new vscode.ThemeIcon("terminal"),
+  });
+  attachedTerminals.set(processInfo.pid, terminal);
+  terminal.show();
+}
+
+async function terminateGroup(item: ProcessGroupTreeItem) {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const groupName = item?.groupName;
+  if (!groupName) {
+    return;
+  }
+
+  const client = mcpClient;
+  const allowForced = await isForcedTerminationAllowed(client);
+  const defaults = resolveTerminationPolicy(
+    {},
+    getTerminationPolicy(),
+    allowForced
+  );
+  const action = await vscode.window.showWarningMessage(
+    `Terminate all ${
+      getRunningGroupMembers(groupName).length
+    } running process(es) in group "${groupName}" (${describeTerminationPolicy(
+      defaults
+    )})?`,
+    { modal: true },
+    "Terminate",
+    "Choose Signal..."
+  );
+  if (!action) {
+    return;
+  }
+
+  const policy =
+    action === "Terminate"
+      ? defaults
+      : await pickTerminationPolicy(allowForced);
+  if (!policy) {
+    return;
+  }
+
+  try {
+    const { message, survivors, failed } = await withCancellableProgress(
+      `Terminating group ${groupName} (${describeTerminationPolicy(
+        policy
+      )})...`,
+      (progressToken, progress) =>
+        terminateGroupMembers(
+          client,
+          groupName,
+          policy,
+          progress,
+          progressToken
+        )
+    );
+    if (survivors.length > 0 || failed > 0) {
+      vscode.window.showWarningMessage(message);
+    } else {
+      vscode.window.showInformationMessage(message);
+    }
+
+    await refreshProcessList();
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      outputChannel.appendLine(`Termination of group ${groupName} cancelled`);
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to terminate process group: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to terminate process group: ${error.message || error}`
+      );
+    }
+  }
+}
+
+async function stopService(item: ServiceTreeItem | ServiceStateTreeItem) {
+  if (!mcpClient || !serviceSupervisor) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const name =
+    item instanceof ServiceStateTreeItem ? item.name : item?.service?.name;
+  if (!name) {
+    return;
+  }
+
+  const confirmed = await vscode.window.showWarningMessage(
+    `Stop service "${name}"?`,
+    { modal: true },
+    "Stop"
+  );
+  if (confirmed !== "Stop") {
+    return;
+  }
+
+  const supervisor = serviceSupervisor;
+  const pids =
+    item instanceof ServiceStateTreeItem
+      ? item.state.pid !== undefined
+        ? [item.state.pid]
+        : []
+      : item.processes.map((p) => p.pid);
+  pids.forEach((pid) => recentProcesses?.noteTerminationRequest(pid));
+
+  try {
+    await withCancellableProgress(
+      `Stopping service ${name}...`,
+      (progressToken) => supervisor.stop(name, progressToken)
+    );
+
+    vscode.window.showInformationMessage(`Service ${name} stopped`);
+
+    await refreshProcessList();
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      outputChannel.appendLine(`Stopping service ${name} cancelled`);
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to stop service: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to stop service: ${error.message || error}`
+      );
+    }
+  }
+}
+
+/**
+ * Start a stopped service again, or a new one from a name, command line
+ * and restart policy
+ */
+async function startService(item?: ServiceStateTreeItem) {
+  if (!mcpClient || !serviceSupervisor) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const supervisor = serviceSupervisor;
+  let definition: {
+    name: string;
+    executable: string;
+    args: string[];
+    restart?: Partial<RestartSettings>;
+  };
+  if (item) {
+    definition = item.state.definition;
+  } else {
+    const name = await vscode.window.showInputBox({
+      prompt: "Service name",
+      placeHolder: "e.g. api",
+      validateInput: (value) =>
+        !value.trim()
+          ? "Enter a service name"
+          : supervisor.getService(value.trim())?.status === "running"
+          ? `Service ${value.trim()} is already running`
+          : undefined,
+    });
+    if (!name) {
+      return;
+    }
+
+    const commandLine = await vscode.window.showInputBox({
+      prompt: "Command line",
+      placeHolder: "e.g. node server.js --port 3000",
+      validateInput: (value) => {
+        try {
+          return parseArguments(value).length > 0
+            ? undefined
+            : "Enter the command to run";
+        } catch (error: any) {
+          return error.message;
+        }
+      },
+    });
+    if (!commandLine) {
+      return;
+    }
+
+    const defaults = supervisor.getDefaultRestartSettings();
+    const policy = await vscode.window.showQuickPick(
+      [
+        defaults.policy,
+        ...RESTART_POLICIES.filter((p) => p !== defaults.policy),
+      ].map((p) => ({
+        label: p,
+        description: p === defaults.policy ? "default" : "",
+        detail: RESTART_POLICY_LABELS[p],
+        policy: p,
+      })),
+      { placeHolder: "Restart policy" }
+    );
+    if (!policy) {
+      return;
+    }
+
+    const [executable, ...args] = parseArguments(commandLine);
+    definition = {
+      name: name.trim(),
+      executable,
+      args,
+      restart: { policy: policy.policy as RestartPolicy },
+    };
+  }
+
+  const violations = await checkStartPreflight({
+    executable: definition.executable,
+    args: definition.args,
+  });
+  if (violations.length > 0) {
+    await showPreflightViolations(definition.executable, violations);
+    return;
+  }
+
+  try {
+    await withCancellableProgress(
+      `Starting service ${definition.name}...`,
+      (progressToken) => supervisor.start(definition, progressToken)
+    );
+    vscode.window.showInformationMessage(`Service started: ${definition.name}`);
+    await refreshProcessList();
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to start service: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to start service: ${error.message || error}`
+      );
+    }
+  }
+}
+
+async function restartService(item: Pick<ServiceStateTreeItem, "name">) {
+  if (!mcpClient || !serviceSupervisor) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  const name = item?.name;
+  if (!name) {
+    return;
+  }
+
+  const supervisor = serviceSupervisor;
+  const pid = supervisor.getService(name)?.pid;
+  if (pid !== undefined) {
+    recentProcesses?.noteTerminationRequest(pid);
+  }
+
+  try {
+    await withCancellableProgress(
+      `Restarting service ${name}...`,
+      (progressToken) => supervisor.restart(name, progressToken)
+    );
+    vscode.window.showInformationMessage(`Service ${name} restarted`);
+    await refreshProcessList();
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to restart service: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to restart service: ${error.message || error}`
+      );
+    }
+  }
+}
+
+async function viewProcesses() {
+  if (!mcpClient) {
+    if (errorHandler) {
+      await errorHandler.server.handleServerNotRunning(
+        new Error("MCP ACS Process server not running")
+      );
+    } else {
+      vscode.window.showErrorMessage("MCP ACS Process server not running");
+    }
+    return;
+  }
+
+  try {
+    const processes = await mcpClient.listProcesses();
+
+    if (processes.length === 0) {
+      vscode.window.showInformationMessage("No processes running");
+      return;
+    }
+
+    const items = processes.map((p) => ({
+      label: `PID ${p.pid}: ${p.command}`,
+      description: `${p.state} | Uptime: ${Math.floor(p.uptime / 1000)}s`,
+      detail: p.args.join(" "),
+      pid: p.pid,
+    }));
+
+    const selected = await vscode.window.showQuickPick(items, {
+      placeHolder: "Select a process to view details",
+    });
+
+    if (selected) {
+      await viewStats({ pid: selected.pid });
+    }
+  } catch (error: any) {
+    outputChannel.appendLine(
+      `Failed to list processes: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to list processes: ${error.message || error}`
+      );
+    }
+  }
+}
+
+async function viewStats(item: any, token?: vscode.CancellationToken) {
+  if (!mcpClient) {
+    vscode.window.showErrorMessage("MCP ACS Process server not running");
+    return;
+  }
+
+  const pid = item.pid;
+  if (!pid) {
+    return;
+  }
+
+  const client = mcpClient;
+
+  try {
+    const stats = await withCancellableProgress(
+      `Loading statistics for process ${pid}...`,
+      (progressToken) =>
+        client.getProcessStats(
+          {
+            pid,
+            includeHistory: true,
+          },
+          progressToken
+        ),
+      token
+    );
+
+    // Charts are drawn against the process's own limits when it has any
+    let limits = item.processInfo?.resourceLimits;
+    if (!limits) {
+      try {
+        limits = (await client.getProcessStatus({ pid }, token)).resourceLimits;
+      } catch {
+        // Fall back to the defaults below
+      }
+    }
+
+    StatsDashboard.show(
+      client,
+      pid,
+      stats,
+      limits ?? client.getConfig().defaultResourceLimits
+    );
+  } catch (error: any) {
+    if (error instanceof vscode.CancellationError) {
+      if (token) {
+        throw error;
+      }
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to get process stats: ${error.message || error}`
+    );
+
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to get process stats: ${error.message || error}`
+      );
+    }
+  }
+}
+
+/**
+ * Pick a command with recorded resource history
+ *
+ * @param minRuns - only offer commands with at least this many runs
+ */
+async function pickHistoryCommand(
+  minRuns: number
+): Promise<string | undefined> {
+  if (!resourceHistory) {
+    return undefined;
+  }
+  const history = resourceHistory.history;
+  const commands = history
+    .getCommands()
+    .filter((command) => history.getRuns(command).length >= minRuns);
+  if (commands.length === 0) {
+    vscode.window.showInformationMessage(
+      minRuns > 1
+        ? "No command has been run more than once with resource history"
+        : "No resource history recorded yet"
+    );
+    return undefined;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    commands.map((command) => ({
+      label: command,
+      description: `${history.getRuns(command).length} runs`,
+    })),
+    { placeHolder: "Select a command" }
+  );
+  return picked?.label;
+}
+
+/**
+ * Pick one run of a command, newest first
+ */
+async function pickHistoryRun(
+  command: string,
+  placeHolder: string,
+  exclude?: ResourceRun
+): Promise<ResourceRun | undefined> {
+  const runs = (resourceHistory?.history.getRuns(command) ?? []).filter(
+    (run) => run !== exclude
+  );
+  const picked = await vscode.window.showQuickPick(
+    runs.map((run) => {
+      const summary = summarizeRun(run);
+      return {
+        label: new Date(run.startTime).toLocaleString(),
+        description: `PID ${run.pid}${run.endTime ? "" : " (running)"}`,
+        detail: `${(summary.durationMs / 1000).toFixed(
+          1
+        )} s · peak ${summary.peakMemoryMB.toFixed(
+          1
+        )} MB · peak CPU ${summary.peakCpuPercent.toFixed(1)}%`,
+        run,
+      };
+    }),
+    { placeHolder }
+  );
+  return picked?.run;
+}
+
+/**
+ * Export the samples of one recorded run to CSV or JSON
+ */
+async function exportResourceHistory() {
+  const command = await pickHistoryCommand(1);
+  if (!command) {
+    return;
+  }
+  const run = await pickHistoryRun(command, "Select the run to export");
+  if (!run) {
+    return;
+  }
+  const format = await vscode.window.showQuickPick(["CSV", "JSON"], {
+    placeHolder: "Export format",
+  });
+  if (!format) {
+    return;
+  }
+
+  const extension = format.toLowerCase();
+  const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+  const fileName = `${path.basename(run.executable)}-${
+    run.pid
+  }-history.${extension}`;
+  const uri = await vscode.window.showSaveDialog({
+    defaultUri: defaultFolder
+      ? vscode.Uri.joinPath(defaultFolder, fileName)
+      : undefined,
+    filters: { [`${format} files`]: [extension] },
+    saveLabel: "Export Resource History",
+  });
+  if (!uri) {
+    return;
+  }
+
+  const content =
+    format === "CSV"
+      ? samplesToCsv(run.samples)
+      : `${JSON.stringify({ command, ...run }, null, 2)}\n`;
+  try {
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+    vscode.window.showInformationMessage(
+      `Exported ${run.samples.length} samples to ${uri.fsPath}`
+    );
+  } catch (error: any) {
+    vscode.window.showErrorMessage(
+      `Failed to export resource history: ${error.message || error}`
+    );
+  }
+}
+
+/**
+ * Compare two recorded runs of the same command side by side
+ */
+async function compareResourceRuns() {
+  const command = await pickHistoryCommand(2);
+  if (!command) {
+    return;
+  }
+  const baseline = await pickHistoryRun(command, "Select the baseline run");
+  if (!baseline) {
+    return;
+  }
+  const candidate = await pickHistoryRun(
+    command,
+    "Select the run to compare against the baseline",
+    baseline
+  );
+  if (!candidate) {
+    return;
+  }
+
+  const document = await vscode.workspace.openTextDocument({
+    language: "markdown",
+    content: formatRunComparison(command, baseline, candidate),
+  });
+  await vscode.window.showTextDocument(document);
+}
+
+async function clearResourceHistory() {
+  const choice = await vscode.window.showWarningMessage(
+    "Delete all recorded resource history?",
+    { modal: true },
+    "Delete"
+  );
+  if (choice === "Delete") {
+    await resourceHistory?.clear();
+  }
+}
+
+const PROCESS_FILTER_KEY = "mcp-process.processFilter";
+
+const PROCESS_STATES: ProcessState[] = [
+  "running",
+  "stopped",
+  "crashed",
+  "exited",
+  "completed",
+];
+
+/**
+ * Apply a process list filter, show it in the view description and keep it
+ * for the workspace
+ */
+async function setProcessFilter(
+  state: vscode.Memento,
+  filter: ProcessFilter
+): Promise<void> {
+  processTreeProvider.setFilter(filter);
+  resourceHistory?.setDemand("processSort", sortsByUsage(filter));
+  if (processListView) {
+    processListView.description = describeFilter(filter) || undefined;
+  }
+  await vscode.commands.executeCommand(
+    "setContext",
+    "mcp-process.processFilterActive",
+    isFilterActive(filter)
+  );
+  await state.update(PROCESS_FILTER_KEY, filter);
+}
+
+/**
+ * Change the search text, state filter or sort order of the process list
+ */
+async function filterProcesses(state: vscode.Memento) {
+  const filter = processTreeProvider.getFilter();
+  const choice = await vscode.window.showQuickPick(
+    [
+      {
+        label: "$(search) Search",
+        description: filter.text ?? "command and arguments",
+        action: "text",
+      },
+      {
+        label: "$(filter) Filter by State",
+        description: filter.states?.join(", ") ?? "all states",
+        action: "states",
+      },
+      {
+        label: "$(list-ordered) Sort",
+        description: filter.sortBy
+          ? `by ${SORT_LABELS[filter.sortBy]}`
+          : "server order",
+        action: "sort",
+      },
+      ...(isFilterActive(filter)
+        ? [{ label: "$(clear-all) Clear Filter", action: "clear" }]
+        : []),
+    ],
+    { placeHolder: describeFilter(filter) || "Filter the process list" }
+  );
+  if (!choice) {
+    return;
+  }
 
-  if (refreshInterval) {
-    clearInterval(refreshInterval);
+  switch (choice.action) {
+    case "text": {
+      const text = await vscode.window.showInputBox({
+        prompt: "Show processes whose command or arguments contain",
+        placeHolder: "Leave empty to show all",
+        value: filter.text ?? "",
+      });
+      if (text !== undefined) {
+        await setProcessFilter(state, {
+          ...filter,
+          text: text.trim() || undefined,
+        });
+      }
+      break;
+    }
+    case "states": {
+      const picked = await vscode.window.showQuickPick(
+        PROCESS_STATES.map((label) => ({
+          label,
+          picked: filter.states?.includes(label) ?? false,
+        })),
+        { canPickMany: true, placeHolder: "Show processes in these states" }
+      );
+      if (picked) {
+        const states = picked.map((item) => item.label);
+        await setProcessFilter(state, {
+          ...filter,
+          states: states.length > 0 ? states : undefined,
+        });
+      }
+      break;
+    }
+    case "sort": {
+      const picked = await vscode.window.showQuickPick(
+        [
+          { label: "Server order", sortBy: undefined },
+          ...(Object.keys(SORT_LABELS) as ProcessSortKey[]).map((sortBy) => ({
+            label: `By ${SORT_LABELS[sortBy]}`,
+            description: sortBy === "pid" ? "lowest first" : "highest first",
+            sortBy,
+          })),
+        ],
+        { placeHolder: "Sort the process list" }
+      );
+      if (picked) {
+        await setProcessFilter(state, { ...filter, sortBy: picked.sortBy });
+      }
+      break;
+    }
+    case "clear":
+      await setProcessFilter(state, {});
+      break;
   }
-
-  refreshInterval = setInterval(async () => {
-    await processTreeProvider.refresh();
-  }, interval) as NodeJS.Timeout;
 }
 
-async function startProcess() {
+/**
+ * Start an ended process again with the parameters it last ran with
+ */
+async function relaunchProcess(item: Pick<RecentProcessTreeItem, "entry">) {
   if (!mcpClient) {
     if (errorHandler) {
       await errorHandler.server.handleServerNotRunning(
@@ -1675,120 +3904,221 @@ async function startProcess() {
     return;
   }
 
-  // Get executable from user
-  const executable = await vscode.window.showInputBox({
-    prompt: "Enter executable name or path",
-    placeHolder: "e.g., node, python3, npm",
-    validateInput: (value) => {
-      if (!value || value.trim().length === 0) {
-        return "Executable cannot be empty";
-      }
-      return null;
-    },
-  });
+  // Environment values are not kept across window reloads
+  const { entry } = item;
+  const env = recentProcesses?.getEnv(entry);
+  if (entry.envNames?.length && !env) {
+    const choice = await vscode.window.showWarningMessage(
+      `Process ${entry.pid} was started with ${entry.envNames.join(
+        ", "
+      )} set, but their values are no longer known. Relaunch without them?`,
+      { modal: true },
+      "Relaunch"
+    );
+    if (choice !== "Relaunch") {
+      return;
+    }
+  }
 
-  if (!executable) {
+  const params = relaunchParams(entry, env);
+  const violations = await checkStartPreflight(params);
+  if (violations.length > 0) {
+    await showPreflightViolations(params.executable, violations);
     return;
   }
 
-  // Get arguments
-  const argsInput = await vscode.window.showInputBox({
-    prompt: "Enter command-line arguments (space-separated)",
-    placeHolder: "e.g., --version, script.js arg1 arg2",
-  });
-
-  const args = argsInput
-    ? argsInput.split(" ").filter((a) => a.length > 0)
-    : [];
-
-  // Get working directory
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  const cwd = workspaceFolders ? workspaceFolders[0].uri.fsPath : undefined;
-
   try {
-    const result = await mcpClient.startProcess({
-      executable,
-      args,
-      cwd,
-      captureOutput: true,
-    });
-
-    vscode.window.showInformationMessage(`Process started: ID ${result}`);
-
+    const pid = await mcpClient.startProcess(params);
+    vscode.window.showInformationMessage(`Process relaunched: ID ${pid}`);
     await refreshProcessList();
   } catch (error: any) {
     outputChannel.appendLine(
-      `Failed to start process: ${error.message || error}`
+      `Failed to relaunch process: ${error.message || error}`
     );
 
     if (errorHandler) {
       await errorHandler.server.handleServerError(error);
     } else {
       vscode.window.showErrorMessage(
-        `Failed to start process: ${error.message || error}`
+        `Failed to relaunch process: ${error.message || error}`
       );
     }
   }
 }
 
-async function terminateProcess(item: any) {
-  if (!mcpClient) {
-    if (errorHandler) {
-      await errorHandler.server.handleServerNotRunning(
-        new Error("MCP ACS Process server not running")
-      );
-    } else {
-      vscode.window.showErrorMessage("MCP ACS Process server not running");
+/**
+ * Snapshot the client's running processes and services, or undefined when
+ * there is nothing to recover
+ */
+function takeRecoverySnapshot(
+  client: MCPProcessClient
+): RecoverySnapshot | undefined {
+  const snapshot = buildRecoverySnapshot(
+    processTreeProvider.getProcesses(),
+    client.getServices().map((service) => ({
+      ...service,
+      autoRestart:
+        serviceSupervisor?.restartsAutomatically(service.name) ??
+        service.autoRestart,
+    })),
+    client.getProcessGroups(),
+    (pid) => client.getLaunchParams(pid)
+  );
+  return isSnapshotEmpty(snapshot) ? undefined : snapshot;
+}
+
+/**
+ * Bring back what ran before the server restarted: services marked
+ * autoRestart are started straight away, the rest once the user picks
+ * Relaunch All or chooses them individually
+ */
+async function offerRecovery(snapshot: RecoverySnapshot) {
+  const failures: string[] = [];
+  let relaunched = 0;
+
+  const automatic = snapshot.services.filter((s) => s.autoRestart);
+  for (const service of automatic) {
+    if (await relaunchRecoverable(service, failures)) {
+      relaunched++;
     }
-    return;
   }
 
-  const pid = item.pid;
-  if (!pid) {
-    return;
-  }
+  const confirmable = confirmableRecoveries(snapshot);
+  if (confirmable.length > 0) {
+    const choice = await vscode.window.showWarningMessage(
+      `${confirmable.length} managed process(es) stopped when the MCP ACS Process server restarted.`,
+      "Relaunch All",
+      "Choose...",
+      "Dismiss"
+    );
 
-  const action = await vscode.window.showQuickPick(
-    ["Graceful (SIGTERM)", "Forced (SIGKILL)"],
-    {
-      placeHolder: "Select termination method",
+    let chosen: Array<RecoverableProcess | RecoverableService> = [];
+    if (choice === "Relaunch All") {
+      chosen = confirmable;
+    } else if (choice === "Choose...") {
+      const picked = await vscode.window.showQuickPick(
+        confirmable.map((item) => ({
+          label: describeRecoverable(item),
+          description:
+            "params" in item
+              ? `was PID ${item.pid}${
+                  item.group ? `, group ${item.group}` : ""
+                }`
+              : `service ${item.name}`,
+          picked: true,
+          item,
+        })),
+        { canPickMany: true, placeHolder: "Select processes to relaunch" }
+      );
+      chosen = picked?.map((p) => p.item) ?? [];
     }
-  );
 
-  if (!action) {
-    return;
+    for (const item of chosen) {
+      if (await relaunchRecoverable(item, failures)) {
+        relaunched++;
+      }
+    }
   }
 
-  const force = action.includes("Forced");
-
-  try {
-    await mcpClient.terminateProcess({
-      pid,
-      force,
-      timeout: 5000,
-    });
-
+  if (relaunched > 0) {
+    await refreshProcessList();
+  }
+  if (failures.length > 0) {
+    for (const failure of failures) {
+      outputChannel.appendLine(`Failed to relaunch ${failure}`);
+    }
+    const action = await vscode.window.showErrorMessage(
+      `Relaunched ${relaunched}, failed to relaunch ${failures.length}. See the output for details.`,
+      "Show Output"
+    );
+    if (action === "Show Output") {
+      outputChannel.show();
+    }
+  } else if (relaunched > 0) {
     vscode.window.showInformationMessage(
-      `Process ${pid} terminated ${force ? "forcefully" : "gracefully"}`
+      `Relaunched ${relaunched} process(es) after the server restart`
     );
+  }
+}
 
-    await refreshProcessList();
-  } catch (error: any) {
-    outputChannel.appendLine(
-      `Failed to terminate process: ${error.message || error}`
-    );
+/**
+ * Start a recovered service or process on the current server, recording
+ * why it could not be started in failures
+ */
+async function relaunchRecoverable(
+  item: RecoverableProcess | RecoverableService,
+  failures: string[]
+): Promise<boolean> {
+  const description = describeRecoverable(item);
+  if (!mcpClient) {
+    failures.push(`${description}: MCP ACS Process server not running`);
+    return false;
+  }
 
-    if (errorHandler) {
-      await errorHandler.server.handleServerError(error);
-    } else {
-      vscode.window.showErrorMessage(
-        `Failed to terminate process: ${error.message || error}`
+  try {
+    if (!("params" in item)) {
+      if (!serviceSupervisor) {
+        return false;
+      }
+      await serviceSupervisor.start({
+        name: item.name,
+        executable: item.executable,
+        args: item.args,
+      });
+      return true;
+    }
+
+    const violations = await checkStartPreflight(item.params);
+    if (violations.length > 0) {
+      failures.push(
+        `${description}: ${violations.map((v) => v.message).join("; ")}`
       );
+      return false;
     }
+
+    const pid = parseInt(await mcpClient.startProcess(item.params), 10);
+    if (item.group) {
+      await joinProcessGroup(item.group, pid);
+    }
+    return true;
+  } catch (error: any) {
+    failures.push(`${description}: ${error.message || error}`);
+    return false;
   }
 }
 
-async function viewProcesses() {
+/**
+ * Add a process to a group, creating the group when it does not exist
+ */
+async function joinProcessGroup(groupName: string, pid: number) {
+  if (!mcpClient) {
+    return;
+  }
+  const exists = mcpClient
+    .getProcessGroups()
+    .some((group) => group.name === groupName);
+  if (exists) {
+    await mcpClient.addToProcessGroup({ groupName, pid });
+  } else {
+    await mcpClient.createProcessGroup({ name: groupName, pids: [pid] });
+  }
+}
+
+async function copyProcessCommand(item: RecentProcessTreeItem) {
+  const command = formatCommandLine(item.entry.executable, item.entry.args);
+  await vscode.env.clipboard.writeText(command);
+  vscode.window.showInformationMessage(`Copied to clipboard: ${command}`);
+}
+
+async function refreshProcessList() {
+  await processTreeProvider.refresh();
+}
+
+/**
+ * Run any tool advertised by the server, including tools added in newer
+ * server versions that have no dedicated command yet
+ */
+async function runServerTool() {
   if (!mcpClient) {
     if (errorHandler) {
       await errorHandler.server.handleServerNotRunning(
@@ -1800,69 +4130,79 @@ async function viewProcesses() {
     return;
   }
 
-  try {
-    const processes = await mcpClient.listProcesses();
-
-    if (processes.length === 0) {
-      vscode.window.showInformationMessage("No processes running");
-      return;
-    }
-
-    const items = processes.map((p) => ({
-      label: `PID ${p.pid}: ${p.command}`,
-      description: `${p.state} | Uptime: ${Math.floor(p.uptime / 1000)}s`,
-      detail: p.args.join(" "),
-      pid: p.pid,
-    }));
-
-    const selected = await vscode.window.showQuickPick(items, {
-      placeHolder: "Select a process to view details",
-    });
-
-    if (selected) {
-      await viewStats({ pid: selected.pid });
-    }
-  } catch (error: any) {
-    vscode.window.showErrorMessage(
-      `Failed to list processes: ${error.message || error}`
+  const tools = toolRegistry.getTools();
+  if (tools.length === 0) {
+    vscode.window.showInformationMessage(
+      "The MCP ACS Process server has not advertised any tools"
     );
+    return;
   }
-}
 
-async function viewStats(item: any) {
-  if (!mcpClient) {
-    vscode.window.showErrorMessage("MCP ACS Process server not running");
+  const selected = await vscode.window.showQuickPick(
+    tools.map((tool) => ({
+      label: tool.name,
+      detail: tool.description,
+      tool,
+    })),
+    { placeHolder: "Select a server tool to run", matchOnDetail: true }
+  );
+
+  if (!selected) {
     return;
   }
 
-  const pid = item.pid;
-  if (!pid) {
+  const argsInput = await vscode.window.showInputBox({
+    prompt: `Arguments for ${selected.tool.name} (JSON)`,
+    value: JSON.stringify(buildInputTemplate(selected.tool)),
+    validateInput: (value) => {
+      try {
+        const problems = findInputProblems(
+          selected.tool.inputSchema,
+          JSON.parse(value)
+        );
+        return problems.length > 0 ? problems.join("; ") : null;
+      } catch {
+        return "Arguments must be valid JSON";
+      }
+    },
+  });
+
+  if (argsInput === undefined) {
     return;
   }
 
-  try {
-    const stats = await mcpClient.getProcessStats({
-      pid,
-      includeHistory: false,
-    });
+  const client = mcpClient;
+  const input: Record<string, unknown> = JSON.parse(argsInput);
 
-    const panel = vscode.window.createWebviewPanel(
-      "processStats",
-      `Process ${pid} Statistics`,
-      vscode.ViewColumn.One,
-      {}
+  try {
+    const result = await withCancellableProgress(
+      `Running ${selected.tool.name}...`,
+      (token) => client.callServerTool(selected.tool.name, input, token)
     );
 
-    panel.webview.html = getStatsHTML(pid, stats);
+    outputChannel.appendLine(`Result of ${selected.tool.name}:`);
+    outputChannel.appendLine(
+      typeof result === "string" ? result : JSON.stringify(result, null, 2)
+    );
+    outputChannel.show(true);
   } catch (error: any) {
-    vscode.window.showErrorMessage(
-      `Failed to get process stats: ${error.message || error}`
+    if (error instanceof vscode.CancellationError) {
+      outputChannel.appendLine(`${selected.tool.name} cancelled`);
+      return;
+    }
+
+    outputChannel.appendLine(
+      `Failed to run ${selected.tool.name}: ${error.message || error}`
     );
-  }
-}
 
-async function refreshProcessList() {
-  await processTreeProvider.refresh();
+    if (errorHandler) {
+      await errorHandler.server.handleServerError(error);
+    } else {
+      vscode.window.showErrorMessage(
+        `Failed to run ${selected.tool.name}: ${error.message || error}`
+      );
+    }
+  }
 }
 
 async function showSecurityBoundaries() {
@@ -1871,7 +4211,21 @@ async function showSecurityBoundaries() {
     return;
   }
 
-  const config = mcpClient.getConfig();
+  let config: SecurityConfig;
+  try {
+    config = await mcpClient.getSecurityConfig();
+  } catch (error: any) {
+    outputChannel.appendLine(
+      `Failed to load security configuration: ${error.message || error}`
+    );
+    vscode.window.showErrorMessage(
+      `Failed to load security configuration: ${error.message || error}`
+    );
+    return;
+  }
+
+  // Keep the sidebar in sync with what the panel shows
+  securityTreeProvider.refresh();
 
   const panel = vscode.window.createWebviewPanel(
     "securityBoundaries",
@@ -1880,7 +4234,10 @@ async function showSecurityBoundaries() {
     {}
   );
 
-  panel.webview.html = getSecurityHTML(config);
+  panel.webview.html = getSecurityHTML(
+    config,
+    mcpClient.getSecurityConfigSource()
+  );
 }
 
 async function configureAllowlist() {
@@ -1915,113 +4272,7 @@ async function configureAllowlist() {
   }
 }
 
-function getStatsHTML(pid: number, stats: any): string {
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <style>
-        body {
-          font-family: var(--vscode-font-family);
-          padding: 20px;
-          color: var(--vscode-foreground);
-          background-color: var(--vscode-editor-background);
-        }
-        h1 {
-          color: var(--vscode-textLink-foreground);
-          border-bottom: 1px solid var(--vscode-panel-border);
-          padding-bottom: 10px;
-        }
-        .stat-grid {
-          display: grid;
-          grid-template-columns: repeat(2, 1fr);
-          gap: 20px;
-          margin-top: 20px;
-        }
-        .stat-card {
-          background: var(--vscode-editor-inactiveSelectionBackground);
-          padding: 15px;
-          border-radius: 5px;
-          border: 1px solid var(--vscode-panel-border);
-        }
-        .stat-label {
-          font-size: 12px;
-          color: var(--vscode-descriptionForeground);
-          text-transform: uppercase;
-          margin-bottom: 5px;
-        }
-        .stat-value {
-          font-size: 24px;
-          font-weight: bold;
-          color: var(--vscode-textLink-foreground);
-        }
-        .stat-unit {
-          font-size: 14px;
-          color: var(--vscode-descriptionForeground);
-          margin-left: 5px;
-        }
-      </style>
-    </head>
-    <body>
-      <h1>📊 Process ${pid} Statistics</h1>
-      
-      <div class="stat-grid">
-        <div class="stat-card">
-          <div class="stat-label">State</div>
-          <div class="stat-value">${stats.state}</div>
-        </div>
-        
-        <div class="stat-card">
-          <div class="stat-label">Uptime</div>
-          <div class="stat-value">
-            ${Math.floor(stats.uptime / 1000)}
-            <span class="stat-unit">seconds</span>
-          </div>
-        </div>
-        
-        <div class="stat-card">
-          <div class="stat-label">CPU Usage</div>
-          <div class="stat-value">
-            ${stats.stats.cpuPercent.toFixed(2)}
-            <span class="stat-unit">%</span>
-          </div>
-        </div>
-        
-        <div class="stat-card">
-          <div class="stat-label">Memory Usage</div>
-          <div class="stat-value">
-            ${stats.stats.memoryMB.toFixed(2)}
-            <span class="stat-unit">MB</span>
-          </div>
-        </div>
-        
-        <div class="stat-card">
-          <div class="stat-label">Thread Count</div>
-          <div class="stat-value">${stats.stats.threadCount}</div>
-        </div>
-        
-        <div class="stat-card">
-          <div class="stat-label">I/O Read</div>
-          <div class="stat-value">
-            ${(stats.stats.ioRead / 1024 / 1024).toFixed(2)}
-            <span class="stat-unit">MB</span>
-          </div>
-        </div>
-        
-        <div class="stat-card">
-          <div class="stat-label">I/O Write</div>
-          <div class="stat-value">
-            ${(stats.stats.ioWrite / 1024 / 1024).toFixed(2)}
-            <span class="stat-unit">MB</span>
-          </div>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-}
-
-function getSecurityHTML(config: any): string {
+function getSecurityHTML(config: SecurityConfig, source?: string): string {
   const allowedExecs = config.allowedExecutables || [];
   const blockedExecs = [
     "sudo",
@@ -2043,6 +4294,7 @@ function getSecurityHTML(config: any): string {
     "reboot",
     "shutdown",
     "halt",
+    ...(config.additionalBlockedExecutables || []),
   ];
 
   return `
@@ -2103,13 +4355,18 @@ function getSecurityHTML(config: any): string {
     </head>
     <body>
       <h1>🛡️ Security Boundaries</h1>
+      <p><em>${escapeHtml(
+        source ?? "Expected configuration"
+      )}. The server does not report the configuration it enforces.</em></p>
       
       <div class="section">
         <h2 class="allowed">✅ Allowed Executables</h2>
         <p>Only these executables can be launched by AI agents:</p>
         <div class="list">
           ${allowedExecs
-            .map((exec: string) => `<div class="item">${exec}</div>`)
+            .map(
+              (exec: string) => `<div class="item">${escapeHtml(exec)}</div>`
+            )
             .join("")}
         </div>
         ${
@@ -2124,7 +4381,9 @@ function getSecurityHTML(config: any): string {
         <p>These executables are always blocked for security:</p>
         <div class="list">
           ${blockedExecs
-            .map((exec: string) => `<div class="item">${exec}</div>`)
+            .map(
+              (exec: string) => `<div class="item">${escapeHtml(exec)}</div>`
+            )
             .join("")}
         </div>
       </div>
@@ -2133,27 +4392,33 @@ function getSecurityHTML(config: any): string {
         <h2>⚙️ Resource Limits</h2>
         <div class="limit">
           <span>Max CPU Usage:</span>
-          <strong>${config.defaultResourceLimits?.maxCpuPercent || 80}%</strong>
+          <strong>${escapeHtml(
+            formatLimit(config.defaultResourceLimits?.maxCpuPercent, "%")
+          )}</strong>
         </div>
         <div class="limit">
           <span>Max Memory:</span>
-          <strong>${
-            config.defaultResourceLimits?.maxMemoryMB || 1024
-          } MB</strong>
+          <strong>${escapeHtml(
+            formatLimit(config.defaultResourceLimits?.maxMemoryMB, " MB")
+          )}</strong>
         </div>
         <div class="limit">
           <span>Max CPU Time:</span>
-          <strong>${
-            config.defaultResourceLimits?.maxCpuTime || 300
-          } seconds</strong>
+          <strong>${escapeHtml(
+            formatLimit(config.defaultResourceLimits?.maxCpuTime, " seconds")
+          )}</strong>
         </div>
         <div class="limit">
           <span>Max Concurrent Processes:</span>
-          <strong>${config.maxConcurrentProcesses || 10}</strong>
+          <strong>${escapeHtml(
+            formatLimit(config.maxConcurrentProcesses, "")
+          )}</strong>
         </div>
         <div class="limit">
           <span>Max Process Lifetime:</span>
-          <strong>${config.maxProcessLifetime || 3600} seconds</strong>
+          <strong>${escapeHtml(
+            formatLimit(config.maxProcessLifetime, " seconds")
+          )}</strong>
         </div>
       </div>
       
@@ -2177,6 +4442,21 @@ function getSecurityHTML(config: any): string {
   `;
 }
 
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape text for interpolation into webview HTML
+ */
+function escapeHtml(value: unknown): string {
+  return String(value).replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
+
 async function startLanguageServer(context: vscode.ExtensionContext) {
   try {
     const serverModule = context.asAbsolutePath(
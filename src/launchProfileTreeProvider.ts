@@ -0,0 +1,157 @@
+import * as vscode from "vscode";
+import {
+  LAUNCH_PROFILES_FILE,
+  LaunchProfile,
+  parseLaunchProfiles,
+} from "./launchProfiles";
+
+/**
+ * LaunchProfileTreeDataProvider - Launch profiles of every workspace folder
+ *
+ * Reads `.vscode/mcp-process.json` from each folder and reloads whenever one
+ * of those files changes. Problems in a file are listed under it instead of
+ * hiding the valid profiles.
+ */
+export class LaunchProfileTreeDataProvider
+  implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    vscode.TreeItem | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private profiles: LaunchProfileTreeItem[] = [];
+  private problems: LaunchProfileProblemTreeItem[] = [];
+  private loading: Promise<void> | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor() {
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      `**/${LAUNCH_PROFILES_FILE}`
+    );
+    this.disposables.push(
+      watcher,
+      watcher.onDidCreate(() => this.refresh()),
+      watcher.onDidChange(() => this.refresh()),
+      watcher.onDidDelete(() => this.refresh()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh())
+    );
+  }
+
+  dispose(): void {
+    this.disposables.forEach((disposable) => disposable.dispose());
+  }
+
+  refresh(): void {
+    this.loading = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  async getChildren(element?: vscode.TreeItem): Promise<vscode.TreeItem[]> {
+    if (element) {
+      return [];
+    }
+    await this.load();
+    return [...this.profiles, ...this.problems];
+  }
+
+  /**
+   * All valid profiles, for the quick pick
+   */
+  async getProfiles(): Promise<LaunchProfileTreeItem[]> {
+    await this.load();
+    return this.profiles;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readProfiles();
+    }
+    return this.loading;
+  }
+
+  private async readProfiles(): Promise<void> {
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const profiles: LaunchProfileTreeItem[] = [];
+    const problems: LaunchProfileProblemTreeItem[] = [];
+
+    for (const folder of folders) {
+      const uri = vscode.Uri.joinPath(folder.uri, LAUNCH_PROFILES_FILE);
+      let content: string;
+      try {
+        content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString(
+          "utf8"
+        );
+      } catch {
+        // No profiles in this folder
+        continue;
+      }
+
+      const result = parseLaunchProfiles(content);
+      for (const profile of result.profiles) {
+        profiles.push(
+          new LaunchProfileTreeItem(profile, folder, folders.length > 1)
+        );
+      }
+      for (const error of result.errors) {
+        problems.push(new LaunchProfileProblemTreeItem(error, uri));
+      }
+    }
+
+    this.profiles = profiles;
+    this.problems = problems;
+  }
+}
+
+export class LaunchProfileTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly profile: LaunchProfile,
+    public readonly folder: vscode.WorkspaceFolder,
+    showFolder: boolean
+  ) {
+    super(profile.name, vscode.TreeItemCollapsibleState.None);
+
+    const commandLine = [profile.executable, ...(profile.args ?? [])].join(" ");
+    const target = profile.service
+      ? ` (service ${profile.service})`
+      : profile.group
+      ? ` (group ${profile.group})`
+      : "";
+    this.description = showFolder
+      ? `${commandLine} · ${folder.name}`
+      : commandLine;
+    this.tooltip = `${commandLine}${target}\n${
+      profile.cwd ? `Working directory: ${profile.cwd}\n` : ""
+    }Click to launch`;
+    this.iconPath = new vscode.ThemeIcon(
+      profile.service ? "server-process" : "rocket"
+    );
+    this.contextValue = "launchProfile";
+    this.command = {
+      command: "mcp-process.launchProfile",
+      title: "Launch Profile",
+      arguments: [this],
+    };
+  }
+}
+
+export class LaunchProfileProblemTreeItem extends vscode.TreeItem {
+  constructor(message: string, fileUri: vscode.Uri) {
+    super(message, vscode.TreeItemCollapsibleState.None);
+    this.tooltip = `${fileUri.fsPath}\n${message}`;
+    this.iconPath = new vscode.ThemeIcon(
+      "warning",
+      new vscode.ThemeColor("problemsWarningIcon.foreground")
+    );
+    this.contextValue = "launchProfileProblem";
+    this.command = {
+      command: "vscode.open",
+      title: "Open Launch Profiles",
+      arguments: [fileUri],
+    };
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Launch Profiles
+ *
+ * Named start configurations kept in `.vscode/mcp-process.json`, so
+ * frequently used dev servers and watchers can be launched in one click.
+ * The file is validated in the editor by the contributed JSON schema; the
+ * checks here keep a hand-edited file from producing a malformed request.
+ */
+
+import * as path from "path";
+import type { ProcessStartParams, ResourceLimits } from "./mcpClient";
+
+/**
+ * Profiles file, relative to a workspace folder
+ */
+export const LAUNCH_PROFILES_FILE = ".vscode/mcp-process.json";
+
+export interface LaunchProfile {
+  name: string;
+  executable: string;
+  args?: string[];
+  /** Relative paths are resolved against the workspace folder */
+  cwd?: string;
+  env?: Record<string, string>;
+  resourceLimits?: ResourceLimits;
+  /** Timeout in milliseconds */
+  timeout?: number;
+  captureOutput?: boolean;
+  /** Process group the started process joins */
+  group?: string;
+  /** Start as a named service instead of a plain process */
+  service?: string;
+}
+
+export interface LaunchProfilesParseResult {
+  profiles: LaunchProfile[];
+  /** Problems with individual profiles, or with the file as a whole */
+  errors: string[];
+}
+
+/**
+ * Parse the content of a profiles file. Invalid profiles are skipped and
+ * reported, so one typo does not hide the rest.
+ */
+export function parseLaunchProfiles(
+  content: string
+): LaunchProfilesParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error: any) {
+    return { profiles: [], errors: [`Invalid JSON: ${error.message}`] };
+  }
+  if (!isRecord(data) || !Array.isArray(data.profiles)) {
+    return { profiles: [], errors: ['Expected a "profiles" array'] };
+  }
+
+  const profiles: LaunchProfile[] = [];
+  const errors: string[] = Object.keys(data)
+    .filter((key) => key !== "profiles" && key !== "$schema")
+    .map((key) => `Unknown setting "${key}"`);
+  const names = new Set<string>();
+
+  data.profiles.forEach((entry: unknown, index: number) => {
+    const result = validateProfile(entry);
+    const label =
+      isRecord(entry) && typeof entry.name === "string"
+        ? `"${entry.name}"`
+        : `${index + 1}`;
+    if (typeof result === "string") {
+      errors.push(`Profile ${label}: ${result}`);
+    } else if (names.has(result.name)) {
+      errors.push(`Profile ${label}: duplicate name`);
+    } else {
+      names.add(result.name);
+      profiles.push(result);
+    }
+  });
+
+  return { profiles, errors };
+}
+
+/**
+ * Upper bound of each resource limit, matching the profiles schema
+ */
+const RESOURCE_LIMIT_MAXIMUMS: Record<string, number> = {
+  maxCpuPercent: 100,
+  maxMemoryMB: Infinity,
+  maxFileDescriptors: Infinity,
+  maxCpuTime: Infinity,
+  maxProcesses: Infinity,
+};
+
+/**
+ * Settings a profile may have, matching the profiles schema
+ */
+const PROFILE_KEYS = [
+  "name",
+  "executable",
+  "args",
+  "cwd",
+  "env",
+  "resourceLimits",
+  "timeout",
+  "captureOutput",
+  "group",
+  "service",
+];
+
+/**
+ * Start settings process_start_service does not accept
+ */
+const NON_SERVICE_KEYS = ["cwd", "env", "resourceLimits", "timeout"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    isRecord(value) && Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+function isNonBlankString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+/**
+ * The profile an entry describes, or why it is invalid. Mirrors the rules
+ * of schemas/mcp-process.schema.json.
+ */
+function validateProfile(entry: unknown): LaunchProfile | string {
+  if (!isRecord(entry)) {
+    return "must be an object";
+  }
+  const unknownKey = Object.keys(entry).find(
+    (key) => !PROFILE_KEYS.includes(key)
+  );
+  if (unknownKey) {
+    return `unknown setting "${unknownKey}"`;
+  }
+
+  const {
+    name,
+    executable,
+    args,
+    cwd,
+    env,
+    resourceLimits: limits,
+    timeout,
+    captureOutput,
+    group,
+    service,
+  } = entry;
+  if (!isNonBlankString(name)) {
+    return '"name" must be a non-empty string';
+  }
+  if (!isNonBlankString(executable)) {
+    return '"executable" must be a non-empty string';
+  }
+  if (args !== undefined && !isStringArray(args)) {
+    return '"args" must be an array of strings';
+  }
+  if (cwd !== undefined && typeof cwd !== "string") {
+    return '"cwd" must be a string';
+  }
+  if (env !== undefined && !isStringRecord(env)) {
+    return '"env" must map names to string values';
+  }
+  if (limits !== undefined) {
+    if (!isRecord(limits)) {
+      return '"resourceLimits" must be an object';
+    }
+    for (const [key, value] of Object.entries(limits)) {
+      const maximum = RESOURCE_LIMIT_MAXIMUMS[key];
+      if (maximum === undefined) {
+        return `unknown resource limit "${key}"`;
+      }
+      if (typeof value !== "number" || value <= 0) {
+        return `resource limit "${key}" must be a positive number`;
+      }
+      if (value > maximum) {
+        return `resource limit "${key}" must be at most ${maximum}`;
+      }
+    }
+  }
+  if (timeout !== undefined && (typeof timeout !== "number" || timeout <= 0)) {
+    return '"timeout" must be a positive number of milliseconds';
+  }
+  if (captureOutput !== undefined && typeof captureOutput !== "boolean") {
+    return '"captureOutput" must be a boolean';
+  }
+  if (group !== undefined && !isNonBlankString(group)) {
+    return '"group" must be a non-empty string';
+  }
+  if (service !== undefined && !isNonBlankString(service)) {
+    return '"service" must be a non-empty string';
+  }
+  if (group !== undefined && service !== undefined) {
+    return '"group" and "service" cannot both be set';
+  }
+  if (service !== undefined) {
+    const key = NON_SERVICE_KEYS.find((k) => entry[k] !== undefined);
+    if (key) {
+      return `"${key}" cannot be set for a service`;
+    }
+  }
+
+  return {
+    name,
+    executable,
+    ...(args !== undefined ? { args } : {}),
+    ...(cwd !== undefined ? { cwd } : {}),
+    ...(env !== undefined ? { env } : {}),
+    ...(limits !== undefined
+      ? { resourceLimits: limits as ResourceLimits }
+      : {}),
+    ...(timeout !== undefined ? { timeout } : {}),
+    ...(captureOutput !== undefined ? { captureOutput } : {}),
+    ...(group !== undefined ? { group } : {}),
+    ...(service !== undefined ? { service } : {}),
+  };
+}
+
+/**
+ * Replace `${workspaceFolder}` in a profile value
+ */
+function substitute(value: string, folder: string): string {
+  return value.replace(/\$\{workspaceFolder\}/g, folder);
+}
+
+/**
+ * Build start parameters for a profile in a workspace folder
+ */
+export function toStartParams(
+  profile: LaunchProfile,
+  folder: string
+): ProcessStartParams {
+  const params: ProcessStartParams = {
+    executable: substitute(profile.executable, folder),
+    args: (profile.args ?? []).map((arg) => substitute(arg, folder)),
+    cwd: path.resolve(folder, substitute(profile.cwd ?? ".", folder)),
+    captureOutput: profile.captureOutput ?? true,
+  };
+  if (profile.env) {
+    params.env = Object.fromEntries(
+      Object.entries(profile.env).map(([name, value]) => [
+        name,
+        substitute(value, folder),
+      ])
+    );
+  }
+  if (profile.resourceLimits) {
+    params.resourceLimits = { ...profile.resourceLimits };
+  }
+  if (profile.timeout !== undefined) {
+    params.timeout = profile.timeout;
+  }
+  return params;
+}
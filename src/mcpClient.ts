@@ -1,11 +1,59 @@
 import * as vscode from "vscode";
 import * as path from "path";
+import * as fs from "fs";
 import {
   BaseMCPClient,
   LogOutputChannel,
   ConnectionStatus,
   MCPClientConfig,
 } from "@ai-capabilities-suite/mcp-client-base";
+import {
+  parseIdResult,
+  parseInitializeResult,
+  parseProcessInfo,
+  parseProcessList,
+  parseProcessEvent,
+  parseProcessOutput,
+  parseProcessStats,
+  parseServiceStartResult,
+  parseStartResult,
+  parseTerminateResult,
+  parseToolCallResult,
+  parseToolList,
+} from "./responseSchemas";
+import {
+  AttachTarget,
+  BRIDGE_EXIT_UNAVAILABLE,
+  describeAttachTarget,
+  reconnectDelay,
+  resolveAttachTarget,
+} from "./serverTransport";
+import {
+  DEFAULT_ENVIRONMENT_ALLOWLIST,
+  copyEnvironment,
+  filterEnvironment,
+  removePrivateConfigFile,
+  sweepStaleConfigFiles,
+  writePrivateConfigFile,
+} from "./serverEnvironment";
+import {
+  IncompatibleServerError,
+  checkServerCompatibility,
+} from "./serverCompatibility";
+import { SessionRecord, serializeRecord } from "./sessionRecording";
+import {
+  RequestPriority,
+  RequestQueueStats,
+  RequestScheduler,
+} from "./requestScheduler";
+
+export interface ResourceLimits {
+  maxCpuPercent?: number;
+  maxMemoryMB?: number;
+  maxCpuTime?: number;
+  maxFileDescriptors?: number;
+  maxProcesses?: number;
+}
 
 export interface ProcessStartParams {
   executable: string;
@@ -15,19 +63,15 @@ export interface ProcessStartParams {
   env?: Record<string, string>;
   timeout?: number;
   captureOutput?: boolean;
-  resourceLimits?: {
-    maxCpuPercent?: number;
-    maxMemoryMB?: number;
-    maxCpuTime?: number;
-    maxFileDescriptors?: number;
-    maxProcesses?: number;
-  };
+  resourceLimits?: ResourceLimits;
 }
 
 export interface ProcessTerminateParams {
   pid: number;
   force?: boolean;
   timeout?: number;
+  /** Signal sent instead of SIGTERM; ignored with `force` */
+  signal?: string;
 }
 
 export interface ProcessStatsParams {
@@ -35,54 +79,129 @@ export interface ProcessStatsParams {
   includeHistory?: boolean;
 }
 
+export type ProcessState =
+  | "running"
+  | "stopped"
+  | "crashed"
+  | "exited"
+  | "completed";
+
+/**
+ * Canonical process record, normalized from every server response shape
+ */
 export interface ProcessInfo {
   id: string;
-  pid?: number;
+  pid: number;
   executable: string;
-  command?: string;
+  command: string;
   args: string[];
-  status: "running" | "stopped" | "crashed" | "exited" | "completed";
-  state?: "running" | "stopped" | "crashed";
+  state: ProcessState;
+  /** Same value as `state`, kept for older consumers */
+  status: ProcessState;
   uptime: number;
   startTime: string;
   output?: string;
-  resourceLimits?: {
-    maxCpuPercent?: number;
-    maxMemoryMB?: number;
-    maxCpuTime?: number;
-    maxFileDescriptors?: number;
-    maxProcesses?: number;
-  };
+  resourceLimits?: ResourceLimits;
+  cwd?: string;
+  /** Process group the server reports the process in */
+  group?: string;
+  /** Service the server reports the process belongs to */
+  service?: string;
+}
+
+/**
+ * A process group created through this client
+ */
+export interface ProcessGroup {
+  name: string;
+  groupId: string;
+  pids: number[];
 }
 
+/**
+ * A service started through this client
+ */
+export interface ManagedService {
+  name: string;
+  serviceId: string;
+  executable: string;
+  args: string[];
+  /** Pid of the service's process, when the server reported it */
+  pid?: number;
+  /** Relaunched without asking after a server restart */
+  autoRestart?: boolean;
+}
+
+export interface ProcessStatsSample {
+  timestamp: number;
+  cpuPercent: number;
+  memoryMB: number;
+  threadCount: number;
+  ioRead: number;
+  ioWrite: number;
+}
+
+/**
+ * Canonical resource statistics, always flat regardless of server version
+ */
 export interface ProcessStats {
-  state?: string;
+  state?: ProcessState;
   uptime?: number;
   cpuPercent: number;
   memoryMB: number;
-  threadCount?: number;
-  ioRead?: number;
-  ioWrite?: number;
-  stats?: {
-    cpuPercent: number;
-    memoryMB: number;
-    threadCount: number;
-    ioRead: number;
-    ioWrite: number;
-  };
+  threadCount: number;
+  ioRead: number;
+  ioWrite: number;
+  history?: ProcessStatsSample[];
+}
+
+export type ProcessEventType = "started" | "output" | "exited" | "crashed";
+
+/**
+ * Lifecycle or output event pushed by the server as a JSON-RPC notification
+ */
+export interface ProcessEvent {
+  type: ProcessEventType;
+  pid: number;
+  timestamp: number;
+  /** Full record, when the server includes one */
+  process?: ProcessInfo;
+  exitCode?: number;
+  signal?: string;
+  stream?: "stdout" | "stderr";
+  data?: string;
+}
+
+/**
+ * Notification method prefix for process events, e.g. `notifications/process/exited`
+ */
+export const PROCESS_EVENT_METHOD_PREFIX = "notifications/process/";
+
+/**
+ * Server identity and capabilities from the initialize handshake
+ */
+export interface ServerHandshake {
+  serverName?: string;
+  serverVersion?: string;
+  protocolVersion?: string;
+  capabilities: Record<string, unknown>;
+}
+
+/**
+ * A tool advertised by the server in its tools/list response
+ */
+export interface ServerTool {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
 }
 
 export interface SecurityConfig {
   allowedExecutables: string[];
   blockSetuidExecutables: boolean;
   blockShellInterpreters: boolean;
-  defaultResourceLimits?: {
-    maxCpuPercent?: number;
-    maxMemoryMB?: number;
-    maxCpuTime?: number;
-    maxFileDescriptors?: number;
-    maxProcesses?: number;
-  };
+  additionalBlockedExecutables?: string[];
+  defaultResourceLimits?: ResourceLimits;
   maxConcurrentProcesses?: number;
   maxProcessLifetime?: number;
   allowProcessTermination?: boolean;
@@ -94,9 +213,102 @@ export interface SecurityConfig {
   requireConfirmation?: boolean;
 }
 
+/**
+ * Values the server is documented to fall back to for settings missing from
+ * its configuration. The client assumes these; the server does not report them.
+ */
+const SERVER_DEFAULT_SECURITY_CONFIG: SecurityConfig = {
+  allowedExecutables: [],
+  blockSetuidExecutables: true,
+  blockShellInterpreters: false,
+  maxConcurrentProcesses: 10,
+  maxProcessLifetime: 3600,
+  allowProcessTermination: true,
+  allowGroupTermination: true,
+  // Not covered by the server's documentation; keeps what the extension has
+  // always assumed
+  allowForcedTermination: true,
+  allowStdinInput: true,
+  allowOutputCapture: true,
+  enableAuditLog: true,
+  requireConfirmation: false,
+};
+
+/**
+ * Tools that only read state; identical concurrent calls share one request
+ */
+const READ_ONLY_TOOLS = new Set([
+  "process_list",
+  "process_get_status",
+  "process_get_stats",
+  "process_get_output",
+]);
+
+/**
+ * Temp config files older than this are left over from crashed sessions
+ */
+const STALE_CONFIG_MAX_AGE_MS = 10 * 60 * 1000;
+
 export class MCPProcessClient extends BaseMCPClient {
   private serverConfig?: SecurityConfig;
+  private effectiveConfig?: SecurityConfig;
+  private effectiveConfigSource?: string;
   private tempConfigPath?: string;
+  private serverTools: ServerTool[] = [];
+  private attachTarget?: AttachTarget;
+  private stopping = false;
+  private reattachAttempts = 0;
+  private reattachTimer?: NodeJS.Timeout;
+  private serverHandshake?: ServerHandshake;
+  private replayPath?: string;
+  private recording?: { path: string; stream: fs.WriteStream };
+  private readonly scheduler = new RequestScheduler();
+  private readonly processGroups = new Map<string, ProcessGroup>();
+  private readonly services = new Map<string, ManagedService>();
+  private readonly launches = new Map<number, ProcessStartParams>();
+  private readonly groupsChangedEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * Fired when process groups or services are created, changed or removed
+   */
+  readonly onGroupsChanged = this.groupsChangedEmitter.event;
+  private readonly toolsChangedEmitter = new vscode.EventEmitter<
+    ServerTool[]
+  >();
+
+  /**
+   * Fired whenever the list of tools advertised by the server is reloaded
+   */
+  readonly onToolsChanged = this.toolsChangedEmitter.event;
+
+  private processEventsSupported = false;
+  private readonly processEventEmitter =
+    new vscode.EventEmitter<ProcessEvent>();
+  private readonly processEventSupportEmitter =
+    new vscode.EventEmitter<boolean>();
+
+  /**
+   * Fired for every process event the server pushes
+   */
+  readonly onProcessEvent = this.processEventEmitter.event;
+
+  /**
+   * Fired when the server starts or stops delivering process events, so
+   * callers can switch between push updates and polling
+   */
+  readonly onProcessEventSupportChanged = this.processEventSupportEmitter.event;
+
+  private readonly serverExitEmitter = new vscode.EventEmitter<{
+    code: number | null;
+    signal: string | null;
+  }>();
+
+  /**
+   * Fired when a server this client started exits unexpectedly, before its
+   * processes, groups and services are forgotten. Not fired for a shared
+   * server, whose processes outlive the connection.
+   */
+  readonly onServerExit = this.serverExitEmitter.event;
 
   constructor(
     outputChannel: LogOutputChannel,
@@ -106,7 +318,7 @@ export class MCPProcessClient extends BaseMCPClient {
   }
 
   /**
-   * Set the server configuration to be passed via IPC
+   * Set the server configuration, passed to the server in a private config file
    * @param config The SecurityConfig to pass to the server
    */
   public setServerConfig(config: SecurityConfig): void {
@@ -117,14 +329,213 @@ export class MCPProcessClient extends BaseMCPClient {
     return this.start();
   }
 
+  override async start(): Promise<void> {
+    this.stopping = false;
+    this.serverHandshake = undefined;
+    // A shared server keeps its groups and services while the connection is
+    // down, so only forget them when this start spawns a fresh server
+    if (!this.isReattaching()) {
+      this.clearGroups();
+      this.launches.clear();
+    }
+
+    const recordPath = vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<string>("server.recordSessionPath", "")
+      .trim();
+    if (recordPath && this.recording?.path !== recordPath) {
+      this.startRecording(recordPath);
+    }
+
+    await super.start();
+
+    // Refuse to work with a server outside the compatible range
+    const problem = this.serverHandshake
+      ? checkServerCompatibility(this.serverHandshake)
+      : undefined;
+    if (problem) {
+      this.stop();
+      throw new IncompatibleServerError(problem, this.serverHandshake);
+    }
+  }
+
+  override async sendRequest(method: string, params: unknown): Promise<any> {
+    const startedAt = Date.now();
+    let result: any;
+    try {
+      result = await super.sendRequest(method, params);
+    } catch (error: any) {
+      this.record({
+        type: "request",
+        time: startedAt,
+        method,
+        params,
+        durationMs: Date.now() - startedAt,
+        error: { message: error?.message ?? String(error), code: error?.code },
+      });
+      throw error;
+    }
+    this.record({
+      type: "request",
+      time: startedAt,
+      method,
+      params,
+      durationMs: Date.now() - startedAt,
+      result,
+    });
+
+    if (method === "initialize") {
+      try {
+        this.serverHandshake = parseInitializeResult(result);
+      } catch (error) {
+        this.log("warn", `Could not read server info: ${error}`);
+      }
+    }
+    return result;
+  }
+
+  override async sendNotification(
+    method: string,
+    params: unknown
+  ): Promise<void> {
+    this.record({
+      type: "notification",
+      time: Date.now(),
+      from: "client",
+      method,
+      params,
+    });
+    return super.sendNotification(method, params);
+  }
+
+  // ========== Session Recording ==========
+
+  /**
+   * Append every request, response and notification to a JSONL file until
+   * stopRecording is called. Recordings can contain process output and
+   * configuration, so the file is only readable by the current user.
+   */
+  startRecording(filePath: string): void {
+    this.stopRecording();
+    const stream = fs.createWriteStream(filePath, { flags: "a", mode: 0o600 });
+    stream.on("error", (error) => {
+      this.log("error", `Session recording failed: ${error.message}`);
+      if (this.recording?.stream === stream) {
+        this.recording = undefined;
+      }
+    });
+    this.recording = { path: filePath, stream };
+    this.log("info", `Recording session to ${filePath}`);
+  }
+
+  stopRecording(): void {
+    if (this.recording) {
+      this.recording.stream.end();
+      this.log("info", `Stopped recording session to ${this.recording.path}`);
+      this.recording = undefined;
+    }
+  }
+
+  /**
+   * Path of the active session recording, if any
+   */
+  getRecordingPath(): string | undefined {
+    return this.recording?.path;
+  }
+
+  /**
+   * Path of the recording the replay server is answering from, if any
+   */
+  getReplayPath(): string | undefined {
+    return this.replayPath;
+  }
+
+  private record(record: SessionRecord): void {
+    this.recording?.stream.write(serializeRecord(record));
+  }
+
+  /**
+   * Requests running and waiting in the scheduler, for diagnostics
+   */
+  getRequestQueueStats(): RequestQueueStats {
+    return this.scheduler.getStats();
+  }
+
+  /**
+   * Server identity, protocol version and capabilities reported in the
+   * initialize handshake (undefined until connected)
+   */
+  getServerHandshake(): ServerHandshake | undefined {
+    return this.serverHandshake;
+  }
+
+  /**
+   * Whether the client attaches to an already-running server rather than
+   * owning a private one
+   */
+  isAttached(): boolean {
+    return this.attachTarget !== undefined;
+  }
+
+  /**
+   * Describe how the client reaches the server, e.g. "socket /tmp/mcp.sock"
+   */
+  getTransportDescription(): string {
+    return describeAttachTarget(this.attachTarget);
+  }
+
   async disconnect(): Promise<void> {
     this.stop();
   }
 
   // ========== Abstract Method Implementations ==========
 
+  /**
+   * Whether the next start connects again to the shared server this client
+   * was last attached to
+   */
+  private isReattaching(): boolean {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    if (
+      !this.attachTarget ||
+      process.env.MCP_PROCESS_REPLAY_SESSION ||
+      config.get<string>("server.replaySessionPath", "").trim()
+    ) {
+      return false;
+    }
+    const target = resolveAttachTarget(
+      config.get<string>("server.transport", "stdio"),
+      config.get<string>("server.socketPath", ""),
+      config.get<string>("server.endpoint", "")
+    );
+    return (
+      target !== undefined &&
+      describeAttachTarget(target) === describeAttachTarget(this.attachTarget)
+    );
+  }
+
   protected getServerCommand(): { command: string; args: string[] } {
     const config = vscode.workspace.getConfiguration("mcp-process");
+
+    // A recorded session stands in for the server when replaying
+    this.replayPath =
+      process.env.MCP_PROCESS_REPLAY_SESSION ||
+      config.get<string>("server.replaySessionPath", "").trim() ||
+      undefined;
+    if (this.replayPath) {
+      this.attachTarget = undefined;
+      return this.getReplayCommand(this.replayPath);
+    }
+
+    this.attachTarget = resolveAttachTarget(
+      config.get<string>("server.transport", "stdio"),
+      config.get<string>("server.socketPath", ""),
+      config.get<string>("server.endpoint", "")
+    );
+    if (this.attachTarget) {
+      return this.getBridgeCommand(this.attachTarget);
+    }
+
     const serverPath = config.get<string>("server.serverPath");
     const configPath = config.get<string>("server.configPath");
     const useConfigFile = config.get<boolean>("server.useConfigFile", false);
@@ -171,65 +582,182 @@ export class MCPProcessClient extends BaseMCPClient {
           (process.platform === "linux" && process.env.WSLENV !== undefined);
         serverCommand =
           process.platform === "win32" && !isWsl ? "npx.cmd" : "npx";
-        args = ["-y", "@ai-capabilities-suite/mcp-process"];
+        const version = config.get<string>("server.version", "").trim();
+        args = [
+          "-y",
+          version
+            ? `@ai-capabilities-suite/mcp-process@${version}`
+            : "@ai-capabilities-suite/mcp-process",
+        ];
       }
     }
 
     // Handle configuration file argument
     if (useConfigFile && configPath && configPath.length > 0) {
       args.push("--config", configPath);
+    } else if (this.serverConfig) {
+      // Pass the generated configuration in a file only this user can read,
+      // rather than an environment variable every child process inherits
+      args.push("--config", this.writeTempConfig(this.serverConfig));
     }
 
     return { command: serverCommand, args };
   }
 
+  /**
+   * Command for the bundled transport bridge, which relays stdio to a server
+   * that is already running. The bridge runs on the extension host's Node.
+   */
+  private getBridgeCommand(target: AttachTarget): {
+    command: string;
+    args: string[];
+  } {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const bridgeScript = path.join(__dirname, "transportBridge.js");
+
+    this.log(
+      "info",
+      `Attaching to running server via ${describeAttachTarget(target)}`
+    );
+
+    return {
+      command: process.execPath,
+      args: [
+        bridgeScript,
+        "--transport",
+        target.transport,
+        "--address",
+        target.address,
+        "--attempts",
+        String(config.get<number>("reconnect.maxRetries", 3)),
+        "--delay",
+        String(config.get<number>("reconnect.retryDelay", 2000)),
+      ],
+    };
+  }
+
+  /**
+   * Command for the bundled replay server, which answers requests from a
+   * recorded session. Like the bridge, it runs on the extension host's Node.
+   */
+  private getReplayCommand(recordingPath: string): {
+    command: string;
+    args: string[];
+  } {
+    this.log("info", `Replaying recorded session from ${recordingPath}`);
+    return {
+      command: process.execPath,
+      args: [path.join(__dirname, "replayServer.js"), recordingPath],
+    };
+  }
+
   protected getServerEnv(): Record<string, string> {
     const config = vscode.workspace.getConfiguration("mcp-process");
-    const configPath = config.get<string>("server.configPath");
-    const useConfigFile = config.get<boolean>("server.useConfigFile", false);
+    const inheritEnvironment = config.get<boolean>(
+      "server.inheritEnvironment",
+      true
+    );
 
-    const env: Record<string, string> = {};
+    let env: Record<string, string>;
+    if (inheritEnvironment) {
+      env = copyEnvironment(process.env);
+    } else {
+      env = filterEnvironment(
+        process.env,
+        config.get<string[]>(
+          "server.environmentAllowlist",
+          DEFAULT_ENVIRONMENT_ALLOWLIST
+        )
+      );
+      this.log(
+        "info",
+        `Passing allowlisted environment to server: ${Object.keys(env).join(
+          ", "
+        )}`
+      );
+    }
 
-    // Copy process.env, filtering out undefined values
-    for (const [key, value] of Object.entries(process.env)) {
-      if (value !== undefined) {
-        env[key] = value;
-      }
+    if (this.replayPath) {
+      env["ELECTRON_RUN_AS_NODE"] = "1";
+      return env;
     }
 
-    // Handle configuration - only pass via env if NOT using config file
-    if (!useConfigFile || !configPath || configPath.length === 0) {
-      if (this.serverConfig) {
-        // Pass configuration via environment variable
-        env["MCP_PROCESS_CONFIG"] = JSON.stringify(this.serverConfig);
-        this.log(
-          "info",
-          "Passing configuration via MCP_PROCESS_CONFIG environment variable"
-        );
-      }
+    if (this.attachTarget) {
+      // Run the bridge script with the extension host's Node runtime. A
+      // shared server was started with its own configuration, so none is
+      // passed along.
+      env["ELECTRON_RUN_AS_NODE"] = "1";
+      this.log(
+        "info",
+        "Attached to a shared server - its own security configuration applies"
+      );
+      return env;
     }
 
     return env;
   }
 
   protected async onServerReady(): Promise<void> {
+    this.reattachAttempts = 0;
+
+    // The server reads its configuration at startup, so the temp file is no
+    // longer needed - removing it now also covers a later crash of VS Code
+    this.cleanupTempConfig();
+
+    if (this.serverHandshake) {
+      const { serverName, serverVersion, protocolVersion } =
+        this.serverHandshake;
+      this.log(
+        "info",
+        `Connected to ${serverName ?? "unknown server"} ${
+          serverVersion ?? "(version not reported)"
+        }, protocol ${protocolVersion ?? "unknown"}`
+      );
+
+      const problem = checkServerCompatibility(this.serverHandshake);
+      if (problem) {
+        // start() stops the client and reports the incompatibility
+        this.log("error", `Incompatible server: ${problem}`);
+        return;
+      }
+    }
+
     // Send initialized notification
     await this.sendNotification("initialized", {});
 
-    // Load configuration - list available tools
+    // Load the tools the server advertises - the UI is driven from this list
     try {
-      const tools = await this.sendRequest("tools/list", {});
-      this.log("info", `Server tools loaded: ${JSON.stringify(tools)}`);
+      const tools = await this.refreshTools();
+      this.log(
+        "info",
+        `Server tools loaded: ${tools.map((t) => t.name).join(", ")}`
+      );
     } catch (error) {
       this.log("warn", `Failed to list tools: ${error}`);
     }
+
+    // Load the configuration the server is expected to enforce so the UI
+    // can show it
+    try {
+      await this.getSecurityConfig();
+    } catch (error) {
+      this.log("warn", `Failed to load expected security config: ${error}`);
+    }
   }
 
   // Override stop to add cleanup
   override stop(): void {
+    this.stopping = true;
+    if (this.reattachTimer) {
+      clearTimeout(this.reattachTimer);
+      this.reattachTimer = undefined;
+    }
     this.cleanupTempConfig();
+    this.setProcessEventsSupported(false);
+    this.launches.clear();
     // Call parent stop
     super.stop();
+    this.stopRecording();
   }
 
   // Override handleServerExit to ensure cleanup on crash
@@ -237,9 +765,61 @@ export class MCPProcessClient extends BaseMCPClient {
     code: number | null,
     signal: string | null
   ): void {
+    if (!this.stopping && !this.attachTarget) {
+      this.serverExitEmitter.fire({ code, signal });
+      // The exit listeners have snapshotted what ran; its PIDs are now free
+      this.launches.clear();
+    }
     this.cleanupTempConfig();
+    this.setProcessEventsSupported(false);
     // Call parent handler
     super.handleServerExit(code, signal);
+
+    // A shared server outlives this client, so a dropped connection is
+    // re-established instead of reported as a crash
+    if (this.attachTarget && !this.stopping) {
+      if (code === BRIDGE_EXIT_UNAVAILABLE) {
+        this.log(
+          "error",
+          `No server reachable at ${describeAttachTarget(this.attachTarget)}`
+        );
+      }
+      this.scheduleReattach();
+    }
+  }
+
+  private scheduleReattach(): void {
+    if (this.reattachTimer) {
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const maxRetries = config.get<number>("reconnect.maxRetries", 3);
+    const retryDelay = config.get<number>("reconnect.retryDelay", 2000);
+
+    if (this.reattachAttempts >= maxRetries) {
+      this.log(
+        "error",
+        `Giving up on ${describeAttachTarget(
+          this.attachTarget
+        )} after ${maxRetries} reattach attempts`
+      );
+      return;
+    }
+
+    const delay = reconnectDelay(retryDelay, this.reattachAttempts);
+    this.reattachAttempts++;
+    this.log(
+      "warn",
+      `Connection to shared server lost - reattaching in ${delay}ms (attempt ${this.reattachAttempts}/${maxRetries})`
+    );
+
+    this.reattachTimer = setTimeout(() => {
+      this.reattachTimer = undefined;
+      this.start().catch((error) => {
+        this.log("warn", `Reattach failed: ${error}`);
+      });
+    }, delay);
   }
 
   // Override handleServerError to match old behavior of clearing pending requests
@@ -250,18 +830,36 @@ export class MCPProcessClient extends BaseMCPClient {
     super.handleServerError(error);
   }
 
+  // Write the generated config for the server to read via --config
+  private writeTempConfig(config: SecurityConfig): string {
+    this.cleanupTempConfig();
+
+    try {
+      const removed = sweepStaleConfigFiles(STALE_CONFIG_MAX_AGE_MS);
+      if (removed > 0) {
+        this.log("info", `Removed ${removed} stale temporary config file(s)`);
+      }
+    } catch (error) {
+      this.log("warn", `Failed to sweep stale config files: ${error}`);
+    }
+
+    this.tempConfigPath = writePrivateConfigFile(config);
+    this.log(
+      "info",
+      `Passing configuration via private config file: ${this.tempConfigPath}`
+    );
+    return this.tempConfigPath;
+  }
+
   // Helper method to clean up temp config file
   private cleanupTempConfig(): void {
     if (this.tempConfigPath) {
       try {
-        const fs = require("fs");
-        if (fs.existsSync(this.tempConfigPath)) {
-          fs.unlinkSync(this.tempConfigPath);
-          this.log(
-            "info",
-            `Cleaned up temporary config file: ${this.tempConfigPath}`
-          );
-        }
+        removePrivateConfigFile(this.tempConfigPath);
+        this.log(
+          "info",
+          `Cleaned up temporary config file: ${this.tempConfigPath}`
+        );
       } catch (error) {
         this.log("warn", `Failed to clean up temp config: ${error}`);
       }
@@ -269,9 +867,110 @@ export class MCPProcessClient extends BaseMCPClient {
     }
   }
 
+  // ========== Tool Discovery ==========
+
+  /**
+   * Reload the tool list from the server and notify listeners
+   */
+  async refreshTools(): Promise<ServerTool[]> {
+    const result = await this.sendRequest("tools/list", {});
+    this.serverTools = parseToolList(result, "tools/list");
+    this.toolsChangedEmitter.fire(this.serverTools);
+    return this.serverTools;
+  }
+
+  /**
+   * Get the tools advertised by the server (empty until the server is ready)
+   */
+  getServerTools(): ServerTool[] {
+    return this.serverTools;
+  }
+
+  /**
+   * Check whether the server advertises a tool
+   */
+  hasTool(name: string): boolean {
+    return this.serverTools.some((tool) => tool.name === name);
+  }
+
+  /**
+   * Call any advertised tool by name, for tools without a typed wrapper
+   */
+  async callServerTool(
+    name: string,
+    args: unknown,
+    token?: vscode.CancellationToken
+  ): Promise<unknown> {
+    if (!this.hasTool(name)) {
+      throw new Error(`Tool ${name} is not provided by the server`);
+    }
+    return this.callTool(name, args, token);
+  }
+
+  // ========== Process Events ==========
+
+  /**
+   * Whether the server is delivering process events. Servers are not asked
+   * for them; this turns true with the first event a server pushes and false
+   * when the connection ends. While false, callers should fall back to
+   * polling listProcesses().
+   */
+  supportsProcessEvents(): boolean {
+    return this.processEventsSupported;
+  }
+
+  private setProcessEventsSupported(supported: boolean): void {
+    if (this.processEventsSupported === supported) {
+      return;
+    }
+    this.processEventsSupported = supported;
+    this.processEventSupportEmitter.fire(supported);
+  }
+
+  /**
+   * Handle a server-initiated JSON-RPC notification. The base client
+   * dispatches every message without an id here; the replay integration
+   * suite checks that pushed process events arrive.
+   */
+  protected handleNotification(method: string, params: unknown): void {
+    this.record({
+      type: "notification",
+      time: Date.now(),
+      from: "server",
+      method,
+      params,
+    });
+
+    if (method === "notifications/tools/list_changed") {
+      this.refreshTools().catch((error) => {
+        this.log("warn", `Failed to reload tools: ${error}`);
+      });
+      return;
+    }
+
+    if (!method.startsWith(PROCESS_EVENT_METHOD_PREFIX)) {
+      return;
+    }
+
+    try {
+      const event = parseProcessEvent(method, params);
+      if (!event) {
+        this.log("debug", `Ignoring unknown process notification: ${method}`);
+        return;
+      }
+      this.setProcessEventsSupported(true);
+      this.processEventEmitter.fire(event);
+    } catch (error) {
+      this.log("warn", `Dropped malformed process notification: ${error}`);
+    }
+  }
+
   // ========== Process-Specific Methods ==========
 
-  async startProcess(params: ProcessStartParams): Promise<string> {
+  async startProcess(
+    params: ProcessStartParams,
+    token?: vscode.CancellationToken
+  ): Promise<string> {
     // Normalize params - MCP server expects 'cwd' not 'workingDirectory'
     const normalizedParams = {
       ...params,
@@ -279,153 +978,337 @@ export class MCPProcessClient extends BaseMCPClient {
     };
     delete normalizedParams.workingDirectory;
 
-    const result = (await this.callTool(
+    const result = await this.callTool(
       "process_start",
-      normalizedParams
-    )) as any;
-    // MCP server returns { pid: number }
-    const pid = result.pid?.toString() || result.id || result.processId;
-    return pid;
+      normalizedParams,
+      token
+    );
+    const pid = parseStartResult(result, "process_start");
+    this.launches.set(pid, normalizedParams);
+    return pid.toString();
+  }
+
+  /**
+   * Parameters a process was started with through this client, including
+   * the environment, which the server does not report back
+   */
+  getLaunchParams(pid: number): ProcessStartParams | undefined {
+    return this.launches.get(pid);
+  }
+
+  /**
+   * Drop the start parameters of a process that has ended, so a later
+   * process reusing its PID does not inherit them
+   */
+  forgetLaunch(pid: number): void {
+    this.launches.delete(pid);
   }
 
   async terminateProcess(
-    processIdOrParams: string | ProcessTerminateParams
+    processIdOrParams: string | ProcessTerminateParams,
+    token?: vscode.CancellationToken
   ): Promise<{ exitCode?: number; terminationReason?: string }> {
     const params =
       typeof processIdOrParams === "string"
         ? { pid: parseInt(processIdOrParams, 10) }
         : processIdOrParams;
-    return (await this.callTool("process_terminate", params)) as any;
+    const result = await this.callTool("process_terminate", params, token);
+    return parseTerminateResult(result, "process_terminate");
   }
 
   async getProcessStats(
-    processIdOrParams: string | ProcessStatsParams
+    processIdOrParams: string | ProcessStatsParams,
+    token?: vscode.CancellationToken,
+    priority: RequestPriority = "user"
   ): Promise<ProcessStats> {
     const params =
       typeof processIdOrParams === "string"
         ? { pid: parseInt(processIdOrParams, 10) }
         : processIdOrParams;
-    return (await this.callTool("process_get_stats", params)) as any;
+    const result = await this.callTool(
+      "process_get_stats",
+      params,
+      token,
+      priority
+    );
+    return parseProcessStats(result, "process_get_stats");
   }
 
-  async getProcessInfo(processId: string): Promise<ProcessInfo> {
+  async getProcessInfo(
+    processId: string,
+    token?: vscode.CancellationToken,
+    priority: RequestPriority = "user"
+  ): Promise<ProcessInfo> {
     // Convert string PID to number - MCP server expects number
-    const result = await this.callTool("process_get_status", {
-      pid: parseInt(processId, 10),
-    });
-    return result as any;
+    const result = await this.callTool(
+      "process_get_status",
+      { pid: parseInt(processId, 10) },
+      token,
+      priority
+    );
+    return parseProcessInfo(result, "process_get_status");
   }
 
-  async listProcesses(): Promise<ProcessInfo[]> {
-    const result = (await this.callTool("process_list", {})) as any;
-    return result.processes || result || [];
+  /**
+   * List managed processes. Tree refreshes and polling pass `background` so
+   * they queue behind user actions.
+   */
+  async listProcesses(
+    token?: vscode.CancellationToken,
+    priority: RequestPriority = "user"
+  ): Promise<ProcessInfo[]> {
+    const result = await this.callTool("process_list", {}, token, priority);
+    return parseProcessList(result, "process_list");
   }
 
+  /**
+   * Get the security configuration the server is expected to enforce.
+   *
+   * The server does not report the configuration it runs with, so this is
+   * worked out on the client: the external config file when the server reads
+   * one (`server.useConfigFile`), otherwise the config generated from VS Code
+   * settings and passed via setServerConfig(). Missing values are filled in
+   * with the server's documented defaults. getSecurityConfigSource() says
+   * where it came from.
+   */
   async getSecurityConfig(): Promise<SecurityConfig> {
-    // The MCP server doesn't expose a security_get_config tool
-    // We need to read the config from the file or return defaults
-    // For now, return a reasonable default based on common configuration
-    return {
-      allowedExecutables: ["node", "echo", "sleep", "cat", "ls"],
-      blockSetuidExecutables: true,
-      blockShellInterpreters: false,
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const configPath = config.get<string>("server.configPath");
+    const useConfigFile = config.get<boolean>("server.useConfigFile", false);
+
+    let source: Partial<SecurityConfig> | undefined;
+    let description: string;
+
+    if (useConfigFile && configPath && configPath.length > 0) {
+      const content = await fs.promises.readFile(configPath, "utf8");
+      source = JSON.parse(content);
+      description = `Expected from ${path.basename(configPath)}`;
+    } else {
+      source = this.serverConfig;
+      description = "Expected from VS Code settings";
+    }
+
+    if (!source) {
+      throw new Error("Server configuration not available");
+    }
+    if (this.attachTarget) {
+      description += " - a shared server may enforce its own";
+    }
+    this.effectiveConfigSource = description;
+
+    this.effectiveConfig = {
+      ...SERVER_DEFAULT_SECURITY_CONFIG,
+      ...source,
       defaultResourceLimits: {
-        maxCpuPercent: 80,
-        maxMemoryMB: 512,
-        maxCpuTime: 60,
-        maxFileDescriptors: 100,
-        maxProcesses: 5,
+        ...SERVER_DEFAULT_SECURITY_CONFIG.defaultResourceLimits,
+        ...source.defaultResourceLimits,
       },
-      maxConcurrentProcesses: 5,
-      maxProcessLifetime: 300,
-      allowProcessTermination: true,
-      allowGroupTermination: true,
-      allowForcedTermination: true,
-      allowStdinInput: true,
-      allowOutputCapture: true,
-      enableAuditLog: false,
-      requireConfirmation: false,
     };
+
+    return this.effectiveConfig;
   }
 
-  async getProcessOutput(params: {
-    pid: number;
-    lines?: number;
-  }): Promise<{ output: string }> {
-    const result = await this.callTool("process_get_output", params);
-    return result as any;
+  async getProcessOutput(
+    params: {
+      pid: number;
+      lines?: number;
+    },
+    token?: vscode.CancellationToken,
+    priority: RequestPriority = "user"
+  ): Promise<{ output: string }> {
+    const result = await this.callTool(
+      "process_get_output",
+      params,
+      token,
+      priority
+    );
+    return parseProcessOutput(result, "process_get_output");
   }
 
-  async sendProcessInput(params: { pid: number; data: string }): Promise<void> {
-    await this.callTool("process_send_stdin", params);
+  async sendProcessInput(
+    params: { pid: number; data: string },
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    await this.callTool("process_send_stdin", params, token);
   }
 
-  async getProcessStatus(params: { pid: number }): Promise<ProcessInfo> {
-    const result = await this.callTool("process_get_status", params);
-    return result as any;
+  async getProcessStatus(
+    params: { pid: number },
+    token?: vscode.CancellationToken,
+    priority: RequestPriority = "user"
+  ): Promise<ProcessInfo> {
+    const result = await this.callTool(
+      "process_get_status",
+      params,
+      token,
+      priority
+    );
+    return parseProcessInfo(result, "process_get_status");
   }
 
-  async createProcessGroup(params: {
-    name: string;
-    pids?: number[];
-  }): Promise<{ groupId: string }> {
-    const result = await this.callTool("process_create_group", params);
-    return result as any;
+  async createProcessGroup(
+    params: {
+      name: string;
+      pids?: number[];
+    },
+    token?: vscode.CancellationToken
+  ): Promise<{ groupId: string }> {
+    const result = await this.callTool("process_create_group", params, token);
+    const parsed = parseIdResult(
+      result,
+      "process_create_group",
+      "groupId",
+      "name"
+    );
+    this.processGroups.set(params.name, {
+      name: params.name,
+      groupId: parsed.groupId,
+      pids: [...(params.pids ?? [])],
+    });
+    this.groupsChangedEmitter.fire();
+    return parsed;
+  }
+
+  async addToProcessGroup(
+    params: {
+      groupName: string;
+      pid: number;
+    },
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    await this.callTool("process_add_to_group", params, token);
+
+    // Groups created elsewhere are tracked from the first addition
+    const group = this.processGroups.get(params.groupName) ?? {
+      name: params.groupName,
+      groupId: params.groupName,
+      pids: [],
+    };
+    if (!group.pids.includes(params.pid)) {
+      group.pids.push(params.pid);
+    }
+    this.processGroups.set(params.groupName, group);
+    this.groupsChangedEmitter.fire();
+  }
+
+  async terminateProcessGroup(
+    params: {
+      groupName: string;
+      force?: boolean;
+    },
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    await this.callTool("process_terminate_group", params, token);
+    if (this.processGroups.delete(params.groupName)) {
+      this.groupsChangedEmitter.fire();
+    }
   }
 
-  async addToProcessGroup(params: {
-    groupName: string;
-    pid: number;
-  }): Promise<void> {
-    await this.callTool("process_add_to_group", params);
+  /**
+   * Process groups created or extended through this client since it started
+   */
+  getProcessGroups(): ProcessGroup[] {
+    return [...this.processGroups.values()];
+  }
+
+  /**
+   * Services started through this client and not yet stopped
+   */
+  getServices(): ManagedService[] {
+    return [...this.services.values()];
+  }
+
+  private clearGroups(): void {
+    if (this.processGroups.size > 0 || this.services.size > 0) {
+      this.processGroups.clear();
+      this.services.clear();
+      this.groupsChangedEmitter.fire();
+    }
   }
 
-  async terminateProcessGroup(params: {
-    groupName: string;
-    force?: boolean;
-  }): Promise<void> {
-    await this.callTool("process_terminate_group", params);
+  async startService(
+    params: {
+      name: string;
+      executable: string;
+      args?: string[];
+      autoRestart?: boolean;
+    },
+    token?: vscode.CancellationToken
+  ): Promise<{ serviceId: string }> {
+    const result = await this.callTool("process_start_service", params, token);
+    const { serviceId, pid } = parseServiceStartResult(
+      result,
+      "process_start_service"
+    );
+    this.services.set(params.name, {
+      name: params.name,
+      serviceId,
+      executable: params.executable,
+      args: params.args ?? [],
+      pid,
+      autoRestart: params.autoRestart,
+    });
+    this.groupsChangedEmitter.fire();
+    return { serviceId };
   }
 
-  async startService(params: {
-    name: string;
-    executable: string;
-    args?: string[];
-    autoRestart?: boolean;
-  }): Promise<{ serviceId: string }> {
-    const result = await this.callTool("process_start_service", params);
-    return result as any;
+  async stopService(
+    params: { name: string },
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    await this.callTool("process_stop_service", params, token);
+    if (this.services.delete(params.name)) {
+      this.groupsChangedEmitter.fire();
+    }
   }
 
-  async stopService(params: { name: string }): Promise<void> {
-    await this.callTool("process_stop_service", params);
+  /**
+   * Get the last loaded expected security configuration
+   * Note: Returns an empty object until getSecurityConfig() has completed,
+   * which happens automatically once the server is ready.
+   */
+  getConfig(): Partial<SecurityConfig> {
+    return this.effectiveConfig || {};
   }
 
   /**
-   * Get configuration (for backward compatibility)
-   * Note: This returns an empty object as the old implementation did.
-   * The actual server configuration is managed via setServerConfig().
+   * Where the last loaded security configuration came from, e.g. "Expected
+   * from VS Code settings", for labelling views that show it
    */
-  getConfig(): any {
-    return {};
+  getSecurityConfigSource(): string | undefined {
+    return this.effectiveConfigSource;
   }
 
   // Override callTool to handle MCP-specific response format
   protected override async callTool(
     name: string,
-    args: unknown
+    args: unknown,
+    token?: vscode.CancellationToken,
+    priority: RequestPriority = "user"
   ): Promise<unknown> {
-    const result = (await this.sendRequest("tools/call", {
-      name,
-      arguments: args,
-    })) as any;
+    // Callers with a token are not shared, since cancelling one caller must
+    // not cancel the request for another
+    const dedupKey =
+      !token && READ_ONLY_TOOLS.has(name)
+        ? `${name}:${JSON.stringify(args ?? {})}`
+        : undefined;
+
+    const result: unknown = await this.scheduler.schedule(
+      () =>
+        this.sendCancellableRequest(
+          "tools/call",
+          { name, arguments: args },
+          token
+        ),
+      { priority, dedupKey, cancellation: token }
+    );
 
-    if (result.isError) {
-      throw new Error(result.content[0]?.text || "Tool call failed");
+    const { isError, text: content } = parseToolCallResult(result, name);
+    if (isError) {
+      throw new Error(content || "Tool call failed");
     }
 
     // Parse result content
-    const content = result.content[0]?.text;
     if (content) {
       try {
         return JSON.parse(content);
@@ -436,4 +1319,43 @@ export class MCPProcessClient extends BaseMCPClient {
 
     return result;
   }
+
+  /**
+   * Send a request that is abandoned when the token is cancelled, so the
+   * caller gets a CancellationError instead of waiting for the response.
+   * The base client assigns request IDs and does not expose them, so the
+   * server is not sent notifications/cancelled: naming the wrong ID would
+   * cancel another caller's request. The server finishes the work and its
+   * response is dropped.
+   */
+  private async sendCancellableRequest(
+    method: string,
+    params: unknown,
+    token?: vscode.CancellationToken
+  ): Promise<unknown> {
+    if (!token) {
+      return this.sendRequest(method, params);
+    }
+    if (token.isCancellationRequested) {
+      throw new vscode.CancellationError();
+    }
+
+    const request = this.sendRequest(method, params);
+    // A response that arrives after cancellation is dropped
+    request.catch(() => undefined);
+
+    let subscription: vscode.Disposable | undefined;
+    const cancelled = new Promise<never>((_, reject) => {
+      subscription = token.onCancellationRequested(() => {
+        this.log("info", `Stopped waiting for cancelled ${method}`);
+        reject(new vscode.CancellationError());
+      });
+    });
+
+    try {
+      return await Promise.race([request, cancelled]);
+    } finally {
+      subscription?.dispose();
+    }
+  }
 }
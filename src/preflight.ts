@@ -0,0 +1,326 @@
+/**
+ * Pre-flight Checks
+ *
+ * Checks a start request against the local security configuration before
+ * it is sent, so a launch the server would refuse is reported with the
+ * exact setting that blocks it. The server still enforces its own policy;
+ * these checks only mirror it.
+ */
+
+import * as path from "path";
+import type { ProcessStartParams } from "./mcpClient";
+import type { SecurityConfig, ValidationError } from "./settingsManager";
+
+/**
+ * Interpreters refused when executable.blockShellInterpreters is on
+ */
+export const SHELL_INTERPRETERS = [
+  "sh",
+  "bash",
+  "zsh",
+  "fish",
+  "ksh",
+  "csh",
+  "tcsh",
+  "dash",
+  "cmd",
+  "powershell",
+  "pwsh",
+];
+
+/**
+ * Facts about the launch that are not part of the request itself
+ */
+export interface PreflightContext {
+  /** Processes currently running, when known */
+  runningProcesses?: number;
+  /** Whether the executable has the setuid or setgid bit, when known */
+  setuid?: boolean;
+}
+
+/**
+ * Check a start request against the security configuration
+ *
+ * @returns one error per rule that would block the launch
+ */
+export function checkStartRequest(
+  params: ProcessStartParams,
+  config: Partial<SecurityConfig>,
+  context: PreflightContext = {}
+): ValidationError[] {
+  return [
+    ...checkExecutable(params.executable, config, context),
+    ...checkArguments(params.args ?? [], config),
+    ...checkEnvironment(params.env ?? {}, config),
+    ...checkWorkingDirectory(params.cwd, config),
+    ...checkResourceLimits(params.resourceLimits ?? {}, config),
+    ...checkProcessLimits(params, config, context),
+  ];
+}
+
+/**
+ * Whether an executable matches an allowlist or blocklist entry. Entries
+ * with a path separator match the full path, others the executable's name;
+ * `*` matches any run of characters.
+ */
+export function matchesExecutable(executable: string, entry: string): boolean {
+  const target = /[\\/]/.test(entry) ? executable : executableName(executable);
+  if (!entry.includes("*")) {
+    return target === entry;
+  }
+  const pattern = entry
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`).test(target);
+}
+
+function executableName(executable: string): string {
+  return path.basename(executable.replace(/\\/g, "/"));
+}
+
+function checkExecutable(
+  executable: string,
+  config: Partial<SecurityConfig>,
+  context: PreflightContext
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const allowed = config.allowedExecutables ?? [];
+
+  // An empty allowlist permits every executable
+  if (
+    allowed.length > 0 &&
+    !allowed.some((entry) => matchesExecutable(executable, entry))
+  ) {
+    errors.push({
+      setting: "executable.allowedExecutables",
+      message: `"${executable}" is not in the allowed executables`,
+      suggestion: `Add "${executable}" to mcp-process.executable.allowedExecutables`,
+    });
+  }
+
+  const name = executableName(executable)
+    .toLowerCase()
+    .replace(/\.exe$/, "");
+  if (config.blockShellInterpreters && SHELL_INTERPRETERS.includes(name)) {
+    errors.push({
+      setting: "executable.blockShellInterpreters",
+      message: `"${executable}" is a shell interpreter`,
+      suggestion: "Run the program directly instead of through a shell",
+    });
+  }
+
+  const blocked = (config.additionalBlockedExecutables ?? []).find((entry) =>
+    matchesExecutable(executable, entry)
+  );
+  if (blocked) {
+    errors.push({
+      setting: "executable.additionalBlockedExecutables",
+      message: `"${executable}" matches the blocked entry "${blocked}"`,
+    });
+  }
+
+  if (config.blockSetuidExecutables && context.setuid) {
+    errors.push({
+      setting: "executable.blockSetuidExecutables",
+      message: `"${executable}" has the setuid or setgid bit set`,
+    });
+  }
+
+  return errors;
+}
+
+function checkArguments(
+  args: string[],
+  config: Partial<SecurityConfig>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (
+    config.maxArgumentCount !== undefined &&
+    args.length > config.maxArgumentCount
+  ) {
+    errors.push({
+      setting: "executable.maxArgumentCount",
+      message: `${args.length} arguments given, at most ${config.maxArgumentCount} allowed`,
+    });
+  }
+
+  if (config.maxArgumentLength !== undefined) {
+    const index = args.findIndex(
+      (arg) => arg.length > config.maxArgumentLength!
+    );
+    if (index >= 0) {
+      errors.push({
+        setting: "executable.maxArgumentLength",
+        message: `Argument ${index + 1} is ${
+          args[index].length
+        } characters, at most ${config.maxArgumentLength} allowed`,
+      });
+    }
+  }
+
+  for (const source of config.blockedArgumentPatterns ?? []) {
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source);
+    } catch {
+      // Invalid patterns are reported by settings validation
+      continue;
+    }
+    const index = args.findIndex((arg) => pattern.test(arg));
+    if (index >= 0) {
+      errors.push({
+        setting: "executable.blockedArgumentPatterns",
+        message: `Argument ${index + 1} ("${
+          args[index]
+        }") matches the blocked pattern /${source}/`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+function checkEnvironment(
+  env: Record<string, string>,
+  config: Partial<SecurityConfig>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const names = Object.keys(env);
+
+  const blocked = names.filter((name) =>
+    (config.additionalBlockedEnvVars ?? []).includes(name)
+  );
+  if (blocked.length > 0) {
+    errors.push({
+      setting: "security.additionalBlockedEnvVars",
+      message: `Blocked environment variables: ${blocked.join(", ")}`,
+    });
+  }
+
+  const allowed = config.allowedEnvVars ?? [];
+  const notAllowed = names.filter(
+    (name) => allowed.length > 0 && !allowed.includes(name)
+  );
+  if (notAllowed.length > 0) {
+    errors.push({
+      setting: "security.allowedEnvVars",
+      message: `Environment variables not in the allowlist: ${notAllowed.join(
+        ", "
+      )}`,
+    });
+  }
+
+  if (
+    config.maxEnvVarCount !== undefined &&
+    names.length > config.maxEnvVarCount
+  ) {
+    errors.push({
+      setting: "security.maxEnvVarCount",
+      message: `${names.length} environment variables given, at most ${config.maxEnvVarCount} allowed`,
+    });
+  }
+
+  return errors;
+}
+
+function isWithin(directory: string, parent: string): boolean {
+  const relative = path.relative(path.resolve(parent), path.resolve(directory));
+  return (
+    relative === "" ||
+    (!relative.startsWith("..") && !path.isAbsolute(relative))
+  );
+}
+
+function checkWorkingDirectory(
+  cwd: string | undefined,
+  config: Partial<SecurityConfig>
+): ValidationError[] {
+  if (!cwd) {
+    return [];
+  }
+  const errors: ValidationError[] = [];
+
+  const allowed = config.allowedWorkingDirectories ?? [];
+  if (allowed.length > 0 && !allowed.some((dir) => isWithin(cwd, dir))) {
+    errors.push({
+      setting: "security.allowedWorkingDirectories",
+      message: `"${cwd}" is outside the allowed working directories`,
+    });
+  }
+
+  const blocked = (config.blockedWorkingDirectories ?? []).find((dir) =>
+    isWithin(cwd, dir)
+  );
+  if (blocked) {
+    errors.push({
+      setting: "security.blockedWorkingDirectories",
+      message: `"${cwd}" is inside the blocked directory "${blocked}"`,
+    });
+  }
+
+  return errors;
+}
+
+function checkResourceLimits(
+  limits: NonNullable<ProcessStartParams["resourceLimits"]>,
+  config: Partial<SecurityConfig>
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const maximum = config.maximumResourceLimits ?? {};
+
+  if (
+    limits.maxCpuPercent !== undefined &&
+    maximum.maxCpuPercent !== undefined &&
+    limits.maxCpuPercent > maximum.maxCpuPercent
+  ) {
+    errors.push({
+      setting: "resources.maximumMaxCpuPercent",
+      message: `CPU limit ${limits.maxCpuPercent}% exceeds the maximum of ${maximum.maxCpuPercent}%`,
+    });
+  }
+
+  if (
+    limits.maxMemoryMB !== undefined &&
+    maximum.maxMemoryMB !== undefined &&
+    limits.maxMemoryMB > maximum.maxMemoryMB
+  ) {
+    errors.push({
+      setting: "resources.maximumMaxMemoryMB",
+      message: `Memory limit ${limits.maxMemoryMB} MB exceeds the maximum of ${maximum.maxMemoryMB} MB`,
+    });
+  }
+
+  return errors;
+}
+
+function checkProcessLimits(
+  params: ProcessStartParams,
+  config: Partial<SecurityConfig>,
+  context: PreflightContext
+): ValidationError[] {
+  const errors: ValidationError[] = [];
+
+  if (
+    context.runningProcesses !== undefined &&
+    config.maxConcurrentProcesses !== undefined &&
+    context.runningProcesses >= config.maxConcurrentProcesses
+  ) {
+    errors.push({
+      setting: "process.maxConcurrentProcesses",
+      message: `${context.runningProcesses} processes are already running, the limit is ${config.maxConcurrentProcesses}`,
+      suggestion: "Terminate a running process first",
+    });
+  }
+
+  if (params.captureOutput && config.allowOutputCapture === false) {
+    errors.push({
+      setting: "io.allowOutputCapture",
+      message: "Output capture is turned off",
+      suggestion: "Start without capturing output",
+    });
+  }
+
+  return errors;
+}
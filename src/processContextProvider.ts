@@ -17,7 +17,10 @@ export class ProcessContextProvider {
     }
 
     try {
-      const processes = await this.mcpClient.listProcesses();
+      const processes = await this.mcpClient.listProcesses(
+        undefined,
+        "background"
+      );
       const config = this.mcpClient.getConfig();
 
       return {
@@ -31,7 +34,7 @@ export class ProcessContextProvider {
         })),
         securityBoundaries: {
           allowedExecutables: config.allowedExecutables || [],
-          maxConcurrentProcesses: config.maxConcurrentProcesses || 10,
+          maxConcurrentProcesses: config.maxConcurrentProcesses,
         },
       };
     } catch (error) {
@@ -61,19 +64,15 @@ export class ProcessContextProvider {
   }
 
   getAvailableTools(): any[] {
-    return [
-      {
-        name: "process_start",
-        description: "Launch a new process with security validation",
-      },
-      {
-        name: "process_terminate",
-        description: "Terminate a running process",
-      },
-      {
-        name: "process_get_stats",
-        description: "Get resource usage statistics",
-      },
-    ];
+    if (!this.mcpClient) {
+      return [];
+    }
+
+    // Reflect exactly what the connected server advertises
+    return this.mcpClient.getServerTools().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: tool.inputSchema,
+    }));
   }
 }
@@ -0,0 +1,118 @@
+/**
+ * Process Filter
+ *
+ * Text search, state filter and sort order for the process list. Text
+ * matches the command, executable and arguments case-insensitively. CPU and
+ * memory sorting uses the latest sampled usage; processes without a sample
+ * sort after those with one.
+ */
+
+import type { ProcessInfo, ProcessState } from "./mcpClient";
+
+export type ProcessSortKey = "pid" | "uptime" | "cpu" | "memory";
+
+export interface ProcessFilter {
+  text?: string;
+  /** Shown states; all when empty or unset */
+  states?: ProcessState[];
+  sortBy?: ProcessSortKey;
+}
+
+export interface ProcessUsage {
+  cpuPercent: number;
+  memoryMB: number;
+}
+
+export const SORT_LABELS: Record<ProcessSortKey, string> = {
+  pid: "PID",
+  uptime: "uptime",
+  cpu: "CPU",
+  memory: "memory",
+};
+
+export function isFilterActive(filter: ProcessFilter): boolean {
+  return !!filter.text || (filter.states?.length ?? 0) > 0 || !!filter.sortBy;
+}
+
+/**
+ * Whether sorting needs sampled resource usage
+ */
+export function sortsByUsage(filter: ProcessFilter): boolean {
+  return filter.sortBy === "cpu" || filter.sortBy === "memory";
+}
+
+export function matchesFilter(
+  process: ProcessInfo,
+  filter: ProcessFilter
+): boolean {
+  if (filter.states?.length && !filter.states.includes(process.state)) {
+    return false;
+  }
+  const text = filter.text?.trim().toLowerCase();
+  if (!text) {
+    return true;
+  }
+  return [process.command, process.executable, ...process.args].some((value) =>
+    value?.toLowerCase().includes(text)
+  );
+}
+
+/**
+ * Processes that match the filter, in its sort order. Sorting by PID is
+ * ascending; uptime, CPU and memory put the largest first.
+ */
+export function applyProcessFilter(
+  processes: ProcessInfo[],
+  filter: ProcessFilter,
+  usage: Map<number, ProcessUsage> = new Map()
+): ProcessInfo[] {
+  const matching = processes.filter((p) => matchesFilter(p, filter));
+  const sortBy = filter.sortBy;
+  if (!sortBy) {
+    return matching;
+  }
+
+  const value = (p: ProcessInfo): number | undefined => {
+    switch (sortBy) {
+      case "pid":
+        return -p.pid;
+      case "uptime":
+        return p.uptime;
+      case "cpu":
+        return usage.get(p.pid)?.cpuPercent;
+      case "memory":
+        return usage.get(p.pid)?.memoryMB;
+    }
+  };
+  return matching
+    .map((process, index) => ({ process, index, value: value(process) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) {
+        return a.value === b.value
+          ? a.index - b.index
+          : a.value === undefined
+          ? 1
+          : -1;
+      }
+      return b.value - a.value || a.index - b.index;
+    })
+    .map(({ process }) => process);
+}
+
+/**
+ * Short summary for the view description, e.g.
+ * `"api" · running · by memory`
+ */
+export function describeFilter(filter: ProcessFilter): string {
+  const parts: string[] = [];
+  if (filter.text) {
+    parts.push(`"${filter.text}"`);
+  }
+  if (filter.states?.length) {
+    parts.push(filter.states.join(", "));
+  }
+  if (filter.sortBy) {
+    parts.push(`by ${SORT_LABELS[filter.sortBy]}`);
+  }
+  return parts.join(" · ");
+}
@@ -0,0 +1,101 @@
+/**
+ * Process Recovery
+ *
+ * Snapshots of the processes and services a server was running, taken
+ * before a restart or when the server exits unexpectedly, so they can be
+ * started again on the next server. Processes keep the parameters they
+ * were launched with where this extension started them, and their process
+ * group.
+ */
+
+import type {
+  ManagedService,
+  ProcessGroup,
+  ProcessInfo,
+  ProcessStartParams,
+} from "./mcpClient";
+import { formatCommandLine } from "./commandLine";
+
+export interface RecoverableProcess {
+  /** Pid on the server that went away */
+  pid: number;
+  params: ProcessStartParams;
+  group?: string;
+}
+
+export interface RecoverableService {
+  name: string;
+  executable: string;
+  args: string[];
+  autoRestart: boolean;
+}
+
+export interface RecoverySnapshot {
+  processes: RecoverableProcess[];
+  services: RecoverableService[];
+}
+
+/**
+ * Snapshot running processes and services. A service's own process is not
+ * listed separately; restarting the service brings it back.
+ */
+export function buildRecoverySnapshot(
+  processes: ProcessInfo[],
+  services: ManagedService[],
+  groups: ProcessGroup[],
+  launchParams: (pid: number) => ProcessStartParams | undefined
+): RecoverySnapshot {
+  const serviceNames = new Set(services.map((s) => s.name));
+  const servicePids = new Set(services.map((s) => s.pid));
+
+  return {
+    processes: processes
+      .filter(
+        (p) =>
+          p.state === "running" &&
+          !servicePids.has(p.pid) &&
+          !(p.service && serviceNames.has(p.service))
+      )
+      .map((p) => ({
+        pid: p.pid,
+        params: launchParams(p.pid) ?? {
+          executable: p.executable || p.command,
+          args: p.args,
+          ...(p.cwd ? { cwd: p.cwd } : {}),
+          ...(p.resourceLimits ? { resourceLimits: p.resourceLimits } : {}),
+        },
+        group: p.group ?? groups.find((g) => g.pids.includes(p.pid))?.name,
+      })),
+    services: services.map((s) => ({
+      name: s.name,
+      executable: s.executable,
+      args: s.args,
+      autoRestart: s.autoRestart ?? false,
+    })),
+  };
+}
+
+export function isSnapshotEmpty(snapshot: RecoverySnapshot): boolean {
+  return snapshot.processes.length === 0 && snapshot.services.length === 0;
+}
+
+/**
+ * Services and processes that are only relaunched when the user confirms,
+ * i.e. all but the services marked `autoRestart`
+ */
+export function confirmableRecoveries(
+  snapshot: RecoverySnapshot
+): Array<RecoverableProcess | RecoverableService> {
+  return [
+    ...snapshot.services.filter((s) => !s.autoRestart),
+    ...snapshot.processes,
+  ];
+}
+
+export function describeRecoverable(
+  item: RecoverableProcess | RecoverableService
+): string {
+  return "params" in item
+    ? formatCommandLine(item.params.executable, item.params.args ?? [])
+    : formatCommandLine(item.executable, item.args);
+}
@@ -0,0 +1,204 @@
+import * as vscode from "vscode";
+import { MCPProcessClient, ProcessInfo } from "./mcpClient";
+import { ProcessUsage } from "./processFilter";
+import { formatMemory, summarizeProcesses } from "./processSummary";
+import {
+  ConnectionState,
+  ConnectionStatus,
+} from "@ai-capabilities-suite/mcp-client-base";
+
+const VIEW_STATS_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("graph"),
+  tooltip: "View Statistics",
+};
+
+const TERMINATE_BUTTON: vscode.QuickInputButton = {
+  iconPath: new vscode.ThemeIcon("stop"),
+  tooltip: "Terminate",
+};
+
+interface ProcessQuickPickItem extends vscode.QuickPickItem {
+  pid: number;
+}
+
+/**
+ * ProcessStatusBar - Status bar summary of managed processes
+ *
+ * Shows the number of running processes with their combined CPU and memory
+ * while connected, and the connection state otherwise. The tooltip lists
+ * the top consumers; clicking opens a quick pick of processes with View
+ * Statistics and Terminate buttons. Usage figures come from the resource
+ * sampler and are left out while `ui.showResourceUsage` is off.
+ */
+export class ProcessStatusBar implements vscode.Disposable {
+  private readonly item: vscode.StatusBarItem;
+  private status: ConnectionStatus | undefined;
+  private stateChangeDisposable: { dispose: () => void } | undefined;
+  private processes: ProcessInfo[] = [];
+  private usage = new Map<number, ProcessUsage>();
+
+  constructor() {
+    this.item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+      99
+    );
+    this.item.command = "mcp-process.showProcessSummary";
+    this.render();
+  }
+
+  setMCPClient(client: MCPProcessClient): void {
+    this.stateChangeDisposable?.dispose();
+    this.stateChangeDisposable = client.onStateChange((status) => {
+      this.status = status;
+      this.render();
+    });
+    this.status = client.getConnectionStatus();
+    this.render();
+  }
+
+  setProcesses(processes: ProcessInfo[]): void {
+    this.processes = processes;
+    this.render();
+  }
+
+  setResourceUsage(usage: Map<number, ProcessUsage>): void {
+    this.usage = usage;
+    this.render();
+  }
+
+  /**
+   * Whether the item is shown and needs sampled usage
+   */
+  needsUsage(): boolean {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    return (
+      config.get<boolean>("ui.showStatusBar", true) &&
+      config.get<boolean>("ui.showResourceUsage", true)
+    );
+  }
+
+  /**
+   * Redraw the item, e.g. after `ui.showStatusBar` or
+   * `ui.showResourceUsage` changed
+   */
+  render(): void {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    if (!config.get<boolean>("ui.showStatusBar", true)) {
+      this.item.hide();
+      return;
+    }
+
+    this.item.backgroundColor = undefined;
+    switch (this.status?.state) {
+      case ConnectionState.CONNECTED:
+        this.renderProcesses(config.get<boolean>("ui.showResourceUsage", true));
+        break;
+      case ConnectionState.CONNECTING:
+      case ConnectionState.TIMEOUT_RETRYING:
+        this.item.text = "$(sync~spin) MCP Process: Connecting";
+        this.item.tooltip = this.status.message;
+        break;
+      case ConnectionState.ERROR:
+        this.item.text = "$(error) MCP Process: Error";
+        this.item.tooltip =
+          this.status.lastError?.message ?? this.status.message;
+        this.item.backgroundColor = new vscode.ThemeColor(
+          "statusBarItem.errorBackground"
+        );
+        break;
+      default:
+        this.item.text = "$(debug-disconnect) MCP Process: Not Running";
+        this.item.tooltip = "The MCP ACS Process server is not running";
+        break;
+    }
+    this.item.show();
+  }
+
+  dispose(): void {
+    this.stateChangeDisposable?.dispose();
+    this.item.dispose();
+  }
+
+  /**
+   * Pick a running process to view or terminate
+   */
+  async showQuickPick(): Promise<void> {
+    const running = this.processes.filter((p) => p.state === "running");
+    if (running.length === 0) {
+      vscode.window.showInformationMessage("No managed processes are running");
+      return;
+    }
+
+    const quickPick = vscode.window.createQuickPick<ProcessQuickPickItem>();
+    quickPick.placeholder = "Select a process to view its statistics";
+    quickPick.matchOnDescription = true;
+    quickPick.items = running.map((p) => {
+      const usage = this.usage.get(p.pid);
+      return {
+        label: `PID ${p.pid}: ${p.command}`,
+        description: p.args.join(" "),
+        detail: usage
+          ? `${usage.cpuPercent.toFixed(1)}% CPU, ${formatMemory(
+              usage.memoryMB
+            )}`
+          : undefined,
+        buttons: [VIEW_STATS_BUTTON, TERMINATE_BUTTON],
+        pid: p.pid,
+      };
+    });
+
+    const run = (command: string, pid: number) => {
+      quickPick.hide();
+      void vscode.commands.executeCommand(command, { pid });
+    };
+    quickPick.onDidTriggerItemButton(({ item, button }) =>
+      run(
+        button === TERMINATE_BUTTON
+          ? "mcp-process.terminateProcess"
+          : "mcp-process.viewStats",
+        item.pid
+      )
+    );
+    quickPick.onDidAccept(() => {
+      const [selected] = quickPick.selectedItems;
+      if (selected) {
+        run("mcp-process.viewStats", selected.pid);
+      }
+    });
+    quickPick.onDidHide(() => quickPick.dispose());
+    quickPick.show();
+  }
+
+  private renderProcesses(showUsage: boolean): void {
+    const summary = summarizeProcesses(this.processes, this.usage);
+    const usage =
+      showUsage && summary.sampled
+        ? ` $(pulse) ${summary.cpuPercent.toFixed(0)}% ${formatMemory(
+            summary.memoryMB
+          )}`
+        : "";
+    this.item.text = `$(server-process) ${summary.running}${usage}`;
+
+    const tooltip = new vscode.MarkdownString(
+      `**MCP ACS Process** - connected, ${summary.running} running\n\n`
+    );
+    if (showUsage && summary.topConsumers.length > 0) {
+      tooltip.appendMarkdown("| PID | Command | CPU | Memory |\n");
+      tooltip.appendMarkdown("| --- | --- | --- | --- |\n");
+      for (const { process, usage: u } of summary.topConsumers) {
+        tooltip.appendMarkdown(
+          `| ${process.pid} | ${escapeCell(
+            process.command
+          )} | ${u.cpuPercent.toFixed(1)}% | ${formatMemory(u.memoryMB)} |\n`
+        );
+      }
+      tooltip.appendMarkdown("\n");
+    }
+    tooltip.appendMarkdown("Click to view or terminate a process");
+    this.item.tooltip = tooltip;
+  }
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/[|\\`*_[\]<>]/g, (char) => `\\${char}`);
+}
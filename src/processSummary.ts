@@ -0,0 +1,57 @@
+/**
+ * Process Summary
+ *
+ * Aggregates for the status bar: how many managed processes are running,
+ * their combined sampled CPU and memory, and the processes using the most.
+ */
+
+import type { ProcessInfo } from "./mcpClient";
+import type { ProcessUsage } from "./processFilter";
+
+export interface ProcessConsumer {
+  process: ProcessInfo;
+  usage: ProcessUsage;
+}
+
+export interface ProcessSummary {
+  running: number;
+  /** Sum over running processes with a sample */
+  cpuPercent: number;
+  memoryMB: number;
+  /** Whether any running process has been sampled */
+  sampled: boolean;
+  /** Running processes by CPU, then memory, highest first */
+  topConsumers: ProcessConsumer[];
+}
+
+export function summarizeProcesses(
+  processes: ProcessInfo[],
+  usage: Map<number, ProcessUsage>,
+  topCount = 5
+): ProcessSummary {
+  const running = processes.filter((p) => p.state === "running");
+  const consumers = running.flatMap((process) => {
+    const sample = usage.get(process.pid);
+    return sample ? [{ process, usage: sample }] : [];
+  });
+
+  return {
+    running: running.length,
+    cpuPercent: consumers.reduce((sum, c) => sum + c.usage.cpuPercent, 0),
+    memoryMB: consumers.reduce((sum, c) => sum + c.usage.memoryMB, 0),
+    sampled: consumers.length > 0,
+    topConsumers: consumers
+      .sort(
+        (a, b) =>
+          b.usage.cpuPercent - a.usage.cpuPercent ||
+          b.usage.memoryMB - a.usage.memoryMB
+      )
+      .slice(0, topCount),
+  };
+}
+
+export function formatMemory(memoryMB: number): string {
+  return memoryMB >= 1024
+    ? `${(memoryMB / 1024).toFixed(1)} GB`
+    : `${Math.round(memoryMB)} MB`;
+}
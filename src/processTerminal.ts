@@ -0,0 +1,309 @@
+import * as vscode from "vscode";
+import { MCPProcessClient, ProcessEvent, ProcessInfo } from "./mcpClient";
+import {
+  ANSI,
+  LineEditor,
+  colorize,
+  containsBinaryData,
+  outputDelta,
+  toTerminalText,
+} from "./terminalOutput";
+
+/**
+ * What to do with a still-running process when its terminal is closed
+ */
+export type TerminalCloseAction = "ask" | "terminate" | "keepRunning";
+
+/**
+ * ProcessTerminal - Pseudoterminal attached to a managed process
+ *
+ * Shows the process's captured output, streamed from process events or
+ * polled when the server does not push them, and sends each line typed into
+ * the terminal to the process's stdin through process_send_stdin.
+ */
+export class ProcessTerminal implements vscode.Pseudoterminal {
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  readonly onDidWrite = this.writeEmitter.event;
+
+  private readonly editor = new LineEditor();
+  private subscriptions: vscode.Disposable[] = [];
+  private pollTimer?: NodeJS.Timeout;
+  private shownOutput = "";
+  private pendingEvents: ProcessEvent[] | undefined = [];
+  private exited = false;
+  private inputNoticeShown = false;
+  private outputErrorShown = false;
+
+  /**
+   * @param terminate Terminates a process the way the Terminate Process
+   * command does, so the termination policy applies and the end is recorded
+   */
+  constructor(
+    private readonly client: MCPProcessClient,
+    private readonly processInfo: ProcessInfo,
+    private readonly terminate: (pid: number) => Promise<unknown>
+  ) {}
+
+  get pid(): number {
+    return this.processInfo.pid;
+  }
+
+  async open(): Promise<void> {
+    const commandLine = [
+      this.processInfo.command,
+      ...this.processInfo.args,
+    ].join(" ");
+    this.writeLine(
+      colorize(`Attached to PID ${this.pid}: ${commandLine}`, ANSI.cyan)
+    );
+    const inputProblem = this.getInputProblem();
+    this.writeLine(
+      colorize(
+        inputProblem
+          ? `Input disabled: ${inputProblem}`
+          : "Type a line and press Enter to send it to stdin.",
+        ANSI.dim
+      )
+    );
+    this.writeLine("");
+
+    // Subscribe before loading the buffered output so nothing is missed in
+    // between; events arriving meanwhile are replayed afterwards
+    this.subscriptions.push(
+      this.client.onProcessEvent((event) => {
+        if (event.pid !== this.pid) {
+          return;
+        }
+        if (this.pendingEvents) {
+          this.pendingEvents.push(event);
+        } else {
+          this.applyEvent(event);
+        }
+      }),
+      this.client.onProcessEventSupportChanged((supported) => {
+        if (supported) {
+          this.stopPolling();
+        } else {
+          this.startPolling();
+        }
+      })
+    );
+
+    await this.pollOutput();
+
+    const pending = this.pendingEvents ?? [];
+    this.pendingEvents = undefined;
+    pending.forEach((event) => this.applyEvent(event));
+
+    if (this.processInfo.state !== "running") {
+      this.showExit(this.processInfo.state);
+    } else if (!this.client.supportsProcessEvents()) {
+      this.startPolling();
+    }
+  }
+
+  handleInput(data: string): void {
+    if (this.exited) {
+      return;
+    }
+
+    const inputProblem = this.getInputProblem();
+    if (inputProblem) {
+      if (!this.inputNoticeShown) {
+        this.inputNoticeShown = true;
+        this.writeLine(
+          colorize(`Input disabled: ${inputProblem}`, ANSI.yellow)
+        );
+      }
+      return;
+    }
+
+    const { echo, lines } = this.editor.handle(data);
+    if (echo) {
+      this.writeEmitter.fire(echo);
+    }
+    for (const line of lines) {
+      void this.sendLine(line);
+    }
+  }
+
+  close(): void {
+    this.dispose();
+    if (!this.exited) {
+      void this.handleCloseAction();
+    }
+  }
+
+  dispose(): void {
+    this.stopPolling();
+    for (const subscription of this.subscriptions) {
+      subscription.dispose();
+    }
+    this.subscriptions = [];
+  }
+
+  private async sendLine(line: string): Promise<void> {
+    const blockBinary = vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<boolean>("io.blockBinaryStdin", true);
+    if (blockBinary && containsBinaryData(line)) {
+      this.writeLine(
+        colorize(
+          "Line not sent: it contains binary data, which mcp-process.io.blockBinaryStdin blocks",
+          ANSI.yellow
+        )
+      );
+      return;
+    }
+
+    try {
+      await this.client.sendProcessInput({ pid: this.pid, data: `${line}\n` });
+    } catch (error: any) {
+      this.writeLine(
+        colorize(`Failed to send input: ${error.message || error}`, ANSI.red)
+      );
+    }
+  }
+
+  /**
+   * Why stdin cannot be used, or undefined when it can
+   */
+  private getInputProblem(): string | undefined {
+    const allowed = vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<boolean>("io.allowStdinInput", true);
+    if (!allowed) {
+      return "stdin input is turned off by mcp-process.io.allowStdinInput";
+    }
+    if (this.client.getConfig().allowStdinInput === false) {
+      const source = this.client.getSecurityConfigSource();
+      return `stdin input is turned off by allowStdinInput in the server configuration${
+        source ? ` - ${source}` : ""
+      }`;
+    }
+    if (!this.client.hasTool("process_send_stdin")) {
+      return "the server does not provide process_send_stdin";
+    }
+    return undefined;
+  }
+
+  private applyEvent(event: ProcessEvent): void {
+    if (event.type === "output" && event.data) {
+      const text = toTerminalText(event.data);
+      this.writeEmitter.fire(
+        event.stream === "stderr" ? colorize(text, ANSI.red) : text
+      );
+    } else if (event.type === "exited" || event.type === "crashed") {
+      this.showExit(event.type, event.exitCode, event.signal);
+    }
+  }
+
+  private startPolling(): void {
+    if (this.pollTimer || this.exited) {
+      return;
+    }
+    const interval = vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<number>("ui.refreshInterval", 2000);
+    this.pollTimer = setInterval(() => {
+      void this.pollOutput().then(() => this.pollState());
+    }, interval);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async pollOutput(): Promise<void> {
+    try {
+      const { output } = await this.client.getProcessOutput(
+        { pid: this.pid },
+        undefined,
+        "background"
+      );
+      const delta = outputDelta(this.shownOutput, output);
+      this.shownOutput = output;
+      if (delta) {
+        this.writeEmitter.fire(toTerminalText(delta));
+      }
+    } catch (error: any) {
+      // Reported once; polling continues so the exit is still noticed
+      if (!this.outputErrorShown) {
+        this.outputErrorShown = true;
+        this.writeLine(
+          colorize(`Failed to read output: ${error.message || error}`, ANSI.red)
+        );
+      }
+    }
+  }
+
+  private async pollState(): Promise<void> {
+    if (this.exited) {
+      return;
+    }
+    try {
+      const info = await this.client.getProcessStatus(
+        { pid: this.pid },
+        undefined,
+        "background"
+      );
+      if (info.state !== "running") {
+        this.showExit(info.state);
+      }
+    } catch {
+      // The server no longer knows the process
+      this.showExit("exited");
+    }
+  }
+
+  private showExit(state: string, exitCode?: number, signal?: string): void {
+    if (this.exited) {
+      return;
+    }
+    this.exited = true;
+    this.stopPolling();
+    this.editor.clear();
+
+    const detail =
+      exitCode !== undefined
+        ? ` with code ${exitCode}`
+        : signal
+        ? ` by ${signal}`
+        : "";
+    this.writeLine("");
+    this.writeLine(
+      colorize(
+        `[Process ${this.pid} ${state}${detail}]`,
+        state === "crashed" ? ANSI.red : ANSI.dim
+      )
+    );
+  }
+
+  private async handleCloseAction(): Promise<void> {
+    const action = vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<TerminalCloseAction>("ui.terminalCloseAction", "ask");
+    if (action === "keepRunning") {
+      return;
+    }
+    if (action === "ask") {
+      const choice = await vscode.window.showInformationMessage(
+        `Terminal closed. Terminate process ${this.pid}?`,
+        "Terminate",
+        "Keep Running"
+      );
+      if (choice !== "Terminate") {
+        return;
+      }
+    }
+
+    await this.terminate(this.pid);
+  }
+
+  private writeLine(text: string): void {
+    this.writeEmitter.fire(`${text}\r\n`);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Process Termination
+ *
+ * Termination policies: the signal sent first, how long the process gets to
+ * exit after it, and whether it is then killed with SIGKILL. SIGKILL is only
+ * used when forced termination is allowed.
+ */
+
+export const TERMINATION_SIGNALS = [
+  "SIGTERM",
+  "SIGINT",
+  "SIGHUP",
+  "SIGQUIT",
+  "SIGUSR1",
+  "SIGUSR2",
+] as const;
+
+export type TerminationSignal = (typeof TERMINATION_SIGNALS)[number];
+
+export const SIGNAL_LABELS: Record<TerminationSignal, string> = {
+  SIGTERM: "Terminate",
+  SIGINT: "Interrupt, as Ctrl+C",
+  SIGHUP: "Hang up, often reload",
+  SIGQUIT: "Quit, often with a core dump",
+  SIGUSR1: "User-defined signal 1",
+  SIGUSR2: "User-defined signal 2",
+};
+
+export interface TerminationPolicy {
+  /** Signal sent first; SIGKILL skips the grace period */
+  signal: TerminationSignal | "SIGKILL";
+  gracePeriodSeconds: number;
+  /** Send SIGKILL when the process outlives the grace period */
+  escalate: boolean;
+}
+
+/**
+ * Termination options as given by a language model tool; unset fields fall
+ * back to the configured policy
+ */
+export interface TerminationRequest {
+  signal?: string;
+  gracePeriodSeconds?: number;
+  escalate?: boolean;
+  /** Kill with SIGKILL straight away */
+  force?: boolean;
+}
+
+export interface TerminationResult {
+  exitCode?: number;
+  terminationReason?: string;
+}
+
+export type TerminationOutcome = "exited" | "killed" | "survived";
+
+/**
+ * The process being terminated, as seen through the server
+ */
+export interface TerminationTarget {
+  sendSignal(signal: TerminationSignal): Promise<TerminationResult>;
+  kill(): Promise<TerminationResult>;
+  isRunning(): Promise<boolean>;
+}
+
+export interface TerminationOptions {
+  /** Called once a second while waiting, with the seconds left */
+  onCountdown?: (secondsLeft: number) => void;
+  /** Waits between checks; rejecting aborts the termination */
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export function isTerminationSignal(
+  value: unknown
+): value is TerminationSignal {
+  return (TERMINATION_SIGNALS as readonly unknown[]).includes(value);
+}
+
+/**
+ * Apply a request to the configured policy. Throws for unknown signals and
+ * for forced termination when it is not allowed; escalation is quietly
+ * turned off instead, as the configured default may ask for it.
+ */
+export function resolveTerminationPolicy(
+  request: TerminationRequest,
+  defaults: TerminationPolicy,
+  allowForcedTermination: boolean
+): TerminationPolicy {
+  if (request.force || request.signal === "SIGKILL") {
+    if (!allowForcedTermination) {
+      throw new Error(
+        "Forced termination (SIGKILL) is disabled by mcp-process.security.allowForcedTermination"
+      );
+    }
+    return { signal: "SIGKILL", gracePeriodSeconds: 0, escalate: false };
+  }
+  if (request.signal !== undefined && !isTerminationSignal(request.signal)) {
+    throw new Error(
+      `Unsupported signal "${
+        request.signal
+      }"; use one of ${TERMINATION_SIGNALS.join(", ")}`
+    );
+  }
+
+  const signal = request.signal ?? defaults.signal;
+  return {
+    signal,
+    gracePeriodSeconds: Math.max(
+      0,
+      Math.round(request.gracePeriodSeconds ?? defaults.gracePeriodSeconds)
+    ),
+    escalate:
+      signal !== "SIGKILL" &&
+      allowForcedTermination &&
+      (request.escalate ?? defaults.escalate),
+  };
+}
+
+/**
+ * Short summary for pickers and messages, e.g. `SIGTERM, SIGKILL after 5s`
+ */
+export function describeTerminationPolicy(policy: TerminationPolicy): string {
+  if (policy.signal === "SIGKILL") {
+    return "SIGKILL";
+  }
+  return policy.escalate
+    ? `${policy.signal}, SIGKILL after ${policy.gracePeriodSeconds}s`
+    : `${policy.signal}, wait ${policy.gracePeriodSeconds}s`;
+}
+
+/**
+ * Send the policy's signal, wait up to the grace period for the process to
+ * exit, then kill it if the policy escalates
+ */
+export async function runTermination(
+  target: TerminationTarget,
+  policy: TerminationPolicy,
+  options: TerminationOptions = {}
+): Promise<{ outcome: TerminationOutcome; result: TerminationResult }> {
+  if (policy.signal === "SIGKILL") {
+    return { outcome: "killed", result: await target.kill() };
+  }
+
+  const sleep =
+    options.sleep ??
+    ((ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+  const result = await target.sendSignal(policy.signal);
+
+  for (let left = policy.gracePeriodSeconds; ; left--) {
+    if (!(await target.isRunning())) {
+      return { outcome: "exited", result };
+    }
+    if (left <= 0) {
+      break;
+    }
+    options.onCountdown?.(left);
+    await sleep(1000);
+  }
+
+  if (!policy.escalate) {
+    return { outcome: "survived", result };
+  }
+  return { outcome: "killed", result: await target.kill() };
+}
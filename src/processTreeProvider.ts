@@ -1,9 +1,30 @@
 import * as vscode from "vscode";
-import { MCPProcessClient, ProcessInfo } from "./mcpClient";
+import {
+  MCPProcessClient,
+  ManagedService,
+  ProcessEvent,
+  ProcessGroup,
+  ProcessInfo,
+} from "./mcpClient";
 import {
   ConnectionState,
   ConnectionStatus,
 } from "@ai-capabilities-suite/mcp-client-base";
+import { ResourceAlert, METRIC_LABELS, formatMetric } from "./resourceAlerts";
+import { RecentProcess, describeExit, formatDuration } from "./recentProcesses";
+import { formatCommandLine } from "./commandLine";
+import {
+  ProcessFilter,
+  ProcessUsage,
+  applyProcessFilter,
+  isFilterActive,
+  sortsByUsage,
+} from "./processFilter";
+
+/**
+ * Lines of output shown under an expanded process
+ */
+const OUTPUT_TAIL_LINES = 10;
 
 export class ProcessTreeDataProvider
   implements vscode.TreeDataProvider<vscode.TreeItem>
@@ -12,12 +33,28 @@ export class ProcessTreeDataProvider
     vscode.TreeItem | undefined | null | void
   >();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private _onDidListProcesses = new vscode.EventEmitter<ProcessInfo[]>();
+  /** Fires with each process list fetched from the server */
+  readonly onDidListProcesses = this._onDidListProcesses.event;
 
   private mcpClient: MCPProcessClient | undefined;
   private processes: ProcessInfo[] = [];
+  private groups: ProcessGroup[] = [];
+  private services: ManagedService[] = [];
+  private alerts = new Map<number, ResourceAlert[]>();
+  private recent: RecentProcess[] = [];
+  private filter: ProcessFilter = {};
+  private usage = new Map<number, ProcessUsage>();
   private connectionStatus: ConnectionStatus | undefined;
+  /** Details of expanded processes, kept until collapsed or the state changes */
+  private details = new Map<
+    number,
+    { state: string; items: Promise<vscode.TreeItem[]> }
+  >();
   private stateChangeDisposable: { dispose: () => void } | undefined;
 
+  constructor(private readonly outputChannel?: vscode.OutputChannel) {}
+
   setMCPClient(client: MCPProcessClient): void {
     // Dispose previous subscription if exists
     if (this.stateChangeDisposable) {
@@ -46,15 +83,143 @@ export class ProcessTreeDataProvider
   async refresh(): Promise<void> {
     if (this.mcpClient) {
       try {
-        this.processes = await this.mcpClient.listProcesses();
-      } catch (error) {
-        console.error("Failed to refresh process list:", error);
+        this.processes = await this.mcpClient.listProcesses(
+          undefined,
+          "background"
+        );
+        this._onDidListProcesses.fire(this.processes);
+        const listed = new Set(this.processes.map((p) => p.pid));
+        for (const pid of this.details.keys()) {
+          if (!listed.has(pid)) {
+            this.details.delete(pid);
+          }
+        }
+      } catch (error: any) {
+        this.outputChannel?.appendLine(
+          `Failed to refresh process list: ${error.message || error}`
+        );
         this.processes = [];
       }
     }
     this._onDidChangeTreeData.fire();
   }
 
+  /**
+   * Set the process groups and services to show as top-level nodes
+   */
+  setGroups(groups: ProcessGroup[], services: ManagedService[]): void {
+    this.groups = groups;
+    this.services = services;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Set the resource alerts currently active for each process
+   */
+  setAlerts(alerts: Map<number, ResourceAlert[]>): void {
+    this.alerts = alerts;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Processes from the last list or pushed events, before filtering
+   */
+  getProcesses(): ProcessInfo[] {
+    return this.processes;
+  }
+
+  /**
+   * Every known member of a group, whatever the filter shows: processes the
+   * server reports in it and those added through this client
+   */
+  getGroupMembers(name: string): ProcessInfo[] {
+    const pids = this.groups.find((g) => g.name === name)?.pids ?? [];
+    return this.processes.filter(
+      (p) => p.group === name || pids.includes(p.pid)
+    );
+  }
+
+  /**
+   * Drop a process's cached details so they are fetched again the next time
+   * it is expanded
+   */
+  forgetDetails(pid: number): void {
+    this.details.delete(pid);
+  }
+
+  getFilter(): ProcessFilter {
+    return this.filter;
+  }
+
+  /**
+   * Set the search text, state filter and sort order of the process list
+   */
+  setFilter(filter: ProcessFilter): void {
+    this.filter = filter;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Set the latest sampled CPU and memory usage, used to sort by either
+   */
+  setResourceUsage(usage: Map<number, ProcessUsage>): void {
+    this.usage = usage;
+    if (sortsByUsage(this.filter)) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /**
+   * Set the ended processes to show under the Recent node
+   */
+  setRecent(recent: RecentProcess[]): void {
+    this.recent = recent;
+    this._onDidChangeTreeData.fire();
+  }
+
+  /**
+   * Update the list from a pushed process event without re-listing.
+   * Processes that exit before the next refresh stay visible with their
+   * final state.
+   */
+  applyProcessEvent(event: ProcessEvent): void {
+    if (event.type === "output") {
+      return;
+    }
+
+    const index = this.processes.findIndex((p) => p.pid === event.pid);
+
+    if (event.type === "started") {
+      if (!event.process) {
+        // The server sent no record to show - fetch it
+        void this.refresh();
+        return;
+      }
+      if (index >= 0) {
+        this.processes[index] = event.process;
+      } else {
+        this.processes.push(event.process);
+      }
+    } else {
+      const existing = index >= 0 ? this.processes[index] : event.process;
+      if (!existing) {
+        return;
+      }
+      const updated: ProcessInfo = {
+        ...existing,
+        state: event.type,
+        status: event.type,
+      };
+      if (index >= 0) {
+        this.processes[index] = updated;
+      } else {
+        this.processes.push(updated);
+      }
+    }
+
+    this._onDidChangeTreeData.fire();
+  }
+
   getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
     return element;
   }
@@ -104,27 +269,239 @@ export class ProcessTreeDataProvider
 
           case ConnectionState.CONNECTED:
             // Show processes when connected
-            return this.processes.map(
-              (p) =>
-                new ProcessTreeItem(p, vscode.TreeItemCollapsibleState.None)
-            );
+            return this.getRootItems();
         }
       }
 
       // Fallback: show processes if we have them
-      return this.processes.map(
-        (p) => new ProcessTreeItem(p, vscode.TreeItemCollapsibleState.None)
-      );
+      return this.getRootItems();
+    }
+
+    if (element instanceof ProcessGroupTreeItem) {
+      return element.members.map((p) => this.processItem(p));
+    }
+    if (element instanceof ServiceTreeItem) {
+      return element.processes.map((p) => this.processItem(p));
+    }
+    if (element instanceof ProcessTreeItem) {
+      const { pid, state } = element.processInfo;
+      const cached = this.details.get(pid);
+      if (cached && cached.state === state) {
+        return cached.items;
+      }
+      // Refreshes re-query expanded nodes; fetch only on the first expansion
+      const items = this.getProcessDetails(element.processInfo);
+      this.details.set(pid, { state, items });
+      return items;
+    }
+    if (element instanceof RecentGroupTreeItem) {
+      return this.recent.map((entry) => new RecentProcessTreeItem(entry));
+    }
+    if (element instanceof RecentProcessTreeItem) {
+      return getRecentDetails(element.entry);
+    }
+    if (element instanceof DetailTreeItem) {
+      return element.children;
     }
 
     return [];
   }
+
+  /**
+   * Groups, then services, then the processes in neither, then recently
+   * ended processes
+   */
+  private getRootItems(): vscode.TreeItem[] {
+    const claimed = new Set<number>();
+    const visible = applyProcessFilter(this.processes, this.filter, this.usage);
+    // Sorting alone keeps every node; a search or state filter hides
+    // groups and services with no matching process
+    const narrowed = !!this.filter.text || !!this.filter.states?.length;
+
+    const groupNames = new Set([
+      ...this.groups.map((g) => g.name),
+      ...this.processes.flatMap((p) => (p.group ? [p.group] : [])),
+    ]);
+    const groupItems = [...groupNames].flatMap((name) => {
+      const memberPids = new Set(this.getGroupMembers(name).map((p) => p.pid));
+      const members = visible.filter((p) => memberPids.has(p.pid));
+      members.forEach((p) => claimed.add(p.pid));
+      return narrowed && members.length === 0
+        ? []
+        : [new ProcessGroupTreeItem(name, members)];
+    });
+
+    const serviceItems = this.services.flatMap((service) => {
+      const processes = visible.filter(
+        (p) =>
+          !claimed.has(p.pid) &&
+          (p.service === service.name || p.pid === service.pid)
+      );
+      processes.forEach((p) => claimed.add(p.pid));
+      return narrowed && processes.length === 0
+        ? []
+        : [new ServiceTreeItem(service, processes)];
+    });
+
+    const ungrouped = visible
+      .filter((p) => !claimed.has(p.pid))
+      .map((p) => this.processItem(p));
+
+    const recentItems =
+      this.recent.length > 0 ? [new RecentGroupTreeItem(this.recent)] : [];
+
+    const noMatches =
+      isFilterActive(this.filter) &&
+      this.processes.length > 0 &&
+      visible.length === 0
+        ? [
+            new StatusTreeItem(
+              "No matching processes",
+              `${this.processes.length} hidden by the filter`,
+              "filter"
+            ),
+          ]
+        : [];
+
+    return [
+      ...groupItems,
+      ...serviceItems,
+      ...ungrouped,
+      ...noMatches,
+      ...recentItems,
+    ];
+  }
+
+  /**
+   * Detail nodes for an expanded process. Stats and output are fetched on
+   * expansion; either failing leaves a placeholder rather than no details.
+   */
+  private async getProcessDetails(
+    processInfo: ProcessInfo
+  ): Promise<vscode.TreeItem[]> {
+    const details: DetailTreeItem[] = [
+      new DetailTreeItem(
+        "Arguments",
+        processInfo.args.length > 0 ? processInfo.args.join(" ") : "(none)",
+        "symbol-parameter"
+      ),
+      new DetailTreeItem(
+        "Working Directory",
+        processInfo.cwd ?? "(server default)",
+        "folder"
+      ),
+    ];
+
+    const limits = Object.entries(processInfo.resourceLimits ?? {}).filter(
+      ([, value]) => value !== undefined
+    );
+    details.push(
+      new DetailTreeItem(
+        "Resource Limits",
+        limits.length > 0 ? `${limits.length} set` : "(defaults)",
+        "dashboard",
+        limits.map(
+          ([name, value]) =>
+            new DetailTreeItem(name, String(value), "circle-small")
+        )
+      )
+    );
+
+    if (!this.mcpClient) {
+      return details;
+    }
+
+    const running = processInfo.state === "running";
+    const [stats, output] = await Promise.allSettled([
+      running
+        ? this.mcpClient.getProcessStats(
+            { pid: processInfo.pid },
+            undefined,
+            "background"
+          )
+        : Promise.resolve(undefined),
+      this.mcpClient.getProcessOutput(
+        { pid: processInfo.pid, lines: OUTPUT_TAIL_LINES },
+        undefined,
+        "background"
+      ),
+    ]);
+
+    if (stats.status === "fulfilled" && stats.value) {
+      const s = stats.value;
+      details.push(
+        new DetailTreeItem(
+          "Live Stats",
+          `${s.cpuPercent.toFixed(1)}% CPU, ${s.memoryMB.toFixed(1)} MB`,
+          "pulse",
+          [
+            new DetailTreeItem(
+              "CPU",
+              `${s.cpuPercent.toFixed(1)}%`,
+              "circle-small"
+            ),
+            new DetailTreeItem(
+              "Memory",
+              `${s.memoryMB.toFixed(1)} MB`,
+              "circle-small"
+            ),
+            new DetailTreeItem(
+              "Threads",
+              String(s.threadCount),
+              "circle-small"
+            ),
+            new DetailTreeItem(
+              "I/O",
+              `${s.ioRead} read, ${s.ioWrite} written`,
+              "circle-small"
+            ),
+          ]
+        )
+      );
+    } else {
+      details.push(
+        new DetailTreeItem(
+          "Live Stats",
+          running ? "unavailable" : "not running",
+          "pulse"
+        )
+      );
+    }
+
+    if (output.status === "fulfilled") {
+      const lines = output.value.output
+        .split(/\r?\n/)
+        .filter((line) => line.length > 0)
+        .slice(-OUTPUT_TAIL_LINES);
+      details.push(
+        new DetailTreeItem(
+          "Output",
+          lines.length > 0 ? `last ${lines.length} lines` : "(empty)",
+          "output",
+          lines.map((line) => new DetailTreeItem(line, "", "blank"))
+        )
+      );
+    } else {
+      details.push(new DetailTreeItem("Output", "unavailable", "output"));
+    }
+
+    return details;
+  }
+
+  private processItem(processInfo: ProcessInfo): ProcessTreeItem {
+    return new ProcessTreeItem(
+      processInfo,
+      vscode.TreeItemCollapsibleState.Collapsed,
+      this.alerts.get(processInfo.pid)
+    );
+  }
 }
 
 export class ProcessTreeItem extends vscode.TreeItem {
   constructor(
     public readonly processInfo: ProcessInfo,
-    public readonly collapsibleState: vscode.TreeItemCollapsibleState
+    public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly alerts: ResourceAlert[] = []
   ) {
     super(`PID ${processInfo.pid}: ${processInfo.command}`, collapsibleState);
 
@@ -147,6 +524,15 @@ export class ProcessTreeItem extends vscode.TreeItem {
       `Args: ${p.args.join(" ")}`,
       `State: ${p.state}`,
       `Uptime: ${uptimeSeconds}s`,
+      ...this.alerts.map(
+        (a) =>
+          `${a.level === "critical" ? "Critical" : "Warning"}: ${
+            METRIC_LABELS[a.metric]
+          } ${formatMetric(a.metric, a.value)} (threshold ${formatMetric(
+            a.metric,
+            a.threshold
+          )})`
+      ),
     ].join("\n");
   }
 
@@ -167,10 +553,26 @@ export class ProcessTreeItem extends vscode.TreeItem {
         break;
     }
 
-    return `${stateIcon} ${p.state} | ${uptimeSeconds}s`;
+    const alerts = this.alerts.map(
+      (a) => `${METRIC_LABELS[a.metric]} ${formatMetric(a.metric, a.value)}`
+    );
+    return [`${stateIcon} ${p.state}`, `${uptimeSeconds}s`, ...alerts].join(
+      " | "
+    );
   }
 
   private getIcon(): vscode.ThemeIcon {
+    if (this.processInfo.state === "running" && this.alerts.length > 0) {
+      return this.alerts.some((a) => a.level === "critical")
+        ? new vscode.ThemeIcon(
+            "error",
+            new vscode.ThemeColor("list.errorForeground")
+          )
+        : new vscode.ThemeIcon(
+            "warning",
+            new vscode.ThemeColor("list.warningForeground")
+          );
+    }
     switch (this.processInfo.state) {
       case "running":
         return new vscode.ThemeIcon(
@@ -178,6 +580,8 @@ export class ProcessTreeItem extends vscode.TreeItem {
           new vscode.ThemeColor("testing.iconPassed")
         );
       case "stopped":
+      case "exited":
+      case "completed":
         return new vscode.ThemeIcon(
           "debug-stop",
           new vscode.ThemeColor("testing.iconSkipped")
@@ -193,6 +597,155 @@ export class ProcessTreeItem extends vscode.TreeItem {
   }
 }
 
+/**
+ * ProcessGroupTreeItem - A process group and its member processes
+ */
+export class ProcessGroupTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly groupName: string,
+    public readonly members: ProcessInfo[]
+  ) {
+    super(groupName, vscode.TreeItemCollapsibleState.Expanded);
+    const running = members.filter((p) => p.state === "running").length;
+    this.description = `${running}/${members.length} running`;
+    this.tooltip = `Process group ${groupName}`;
+    this.iconPath = new vscode.ThemeIcon("layers");
+    this.contextValue = "processGroup";
+  }
+}
+
+/**
+ * ServiceTreeItem - A service and its current process, if any
+ */
+export class ServiceTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly service: ManagedService,
+    public readonly processes: ProcessInfo[]
+  ) {
+    super(
+      service.name,
+      processes.length > 0
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.None
+    );
+    const running = processes.some((p) => p.state === "running");
+    this.description = running ? "running" : "not running";
+    this.tooltip = [
+      `Service: ${service.name}`,
+      `Command: ${[service.executable, ...service.args].join(" ")}`,
+    ].join("\n");
+    this.iconPath = new vscode.ThemeIcon(
+      "server-process",
+      running ? new vscode.ThemeColor("testing.iconPassed") : undefined
+    );
+    this.contextValue = "service";
+  }
+}
+
+/**
+ * RecentGroupTreeItem - Processes that ended within the retention period
+ */
+export class RecentGroupTreeItem extends vscode.TreeItem {
+  constructor(public readonly entries: RecentProcess[]) {
+    super("Recent", vscode.TreeItemCollapsibleState.Collapsed);
+    this.description = `${entries.length} ended`;
+    this.tooltip = "Processes that exited or crashed recently";
+    this.iconPath = new vscode.ThemeIcon("history");
+    this.contextValue = "recentProcesses";
+  }
+}
+
+/**
+ * RecentProcessTreeItem - A process that exited or crashed
+ */
+export class RecentProcessTreeItem extends vscode.TreeItem {
+  constructor(public readonly entry: RecentProcess) {
+    super(
+      `PID ${entry.pid}: ${formatCommandLine(entry.executable, entry.args)}`,
+      vscode.TreeItemCollapsibleState.Collapsed
+    );
+    const duration = formatDuration(entry.endTime - entry.startTime);
+    this.description = `${describeExit(entry)} | ${duration}`;
+    this.tooltip = [
+      `PID: ${entry.pid}`,
+      `Command: ${formatCommandLine(entry.executable, entry.args)}`,
+      `Ended: ${new Date(entry.endTime).toLocaleString()}`,
+      `Exit: ${describeExit(entry)}`,
+      `Duration: ${duration}`,
+    ].join("\n");
+    this.iconPath =
+      entry.state === "crashed"
+        ? new vscode.ThemeIcon(
+            "error",
+            new vscode.ThemeColor("testing.iconFailed")
+          )
+        : new vscode.ThemeIcon(
+            "debug-stop",
+            new vscode.ThemeColor("testing.iconSkipped")
+          );
+    this.contextValue = "recentProcess";
+  }
+}
+
+function getRecentDetails(entry: RecentProcess): DetailTreeItem[] {
+  const peak = (value: number | undefined, format: (v: number) => string) =>
+    value === undefined ? "not sampled" : format(value);
+  return [
+    new DetailTreeItem("Exit", describeExit(entry), "info"),
+    new DetailTreeItem(
+      "Duration",
+      formatDuration(entry.endTime - entry.startTime),
+      "watch"
+    ),
+    new DetailTreeItem(
+      "Peak CPU",
+      peak(entry.peakCpuPercent, (v) => `${v.toFixed(1)}%`),
+      "pulse"
+    ),
+    new DetailTreeItem(
+      "Peak Memory",
+      peak(entry.peakMemoryMB, (v) => `${v.toFixed(1)} MB`),
+      "database"
+    ),
+    new DetailTreeItem(
+      "Working Directory",
+      entry.cwd ?? "(server default)",
+      "folder"
+    ),
+    new DetailTreeItem(
+      "Output",
+      entry.outputTail.length > 0
+        ? `last ${entry.outputTail.length} lines`
+        : "(empty)",
+      "output",
+      entry.outputTail.map((line) => new DetailTreeItem(line, "", "blank"))
+    ),
+  ];
+}
+
+/**
+ * DetailTreeItem - A property of an expanded process
+ */
+export class DetailTreeItem extends vscode.TreeItem {
+  constructor(
+    label: string,
+    description: string,
+    iconId: string,
+    public readonly children: DetailTreeItem[] = []
+  ) {
+    super(
+      label,
+      children.length > 0
+        ? vscode.TreeItemCollapsibleState.Collapsed
+        : vscode.TreeItemCollapsibleState.None
+    );
+    this.description = description;
+    this.tooltip = description ? `${label}: ${description}` : label;
+    this.iconPath = new vscode.ThemeIcon(iconId);
+    this.contextValue = "processDetail";
+  }
+}
+
 /**
  * StatusTreeItem - Displays connection status messages in the tree
  */
@@ -0,0 +1,278 @@
+import * as vscode from "vscode";
+import { MCPProcessClient, ProcessEvent, ProcessInfo } from "./mcpClient";
+import { ResourceSweep } from "./resourceHistorySampler";
+import {
+  RECENT_OUTPUT_LINES,
+  RecentProcess,
+  pruneRecent,
+  tailLines,
+} from "./recentProcesses";
+
+const STORAGE_KEY = "mcp-process.recentProcesses";
+
+/**
+ * How often expired entries are removed
+ */
+const PRUNE_INTERVAL_MS = 60000;
+
+interface LiveProcess {
+  process: ProcessInfo;
+  peakCpuPercent?: number;
+  peakMemoryMB?: number;
+  outputTail: string[];
+  exitCode?: number;
+  signal?: string;
+  terminationReason?: string;
+  terminationRequested?: boolean;
+}
+
+/**
+ * RecentProcessTracker - Keeps processes around after they end
+ *
+ * Follows running processes through process events, list refreshes and
+ * resource sweeps, and when one exits, crashes or drops out of the list
+ * records its exit status, duration, resource peaks and output tail.
+ * Entries are kept in workspace state for `recent.retentionMinutes`.
+ */
+export class RecentProcessTracker implements vscode.Disposable {
+  private client: MCPProcessClient | undefined;
+  private entries: RecentProcess[];
+  private readonly live = new Map<number, LiveProcess>();
+  /** Environments of recorded processes, kept out of workspace state */
+  private readonly envs = new WeakMap<RecentProcess, Record<string, string>>();
+  private readonly timer: NodeJS.Timeout;
+  private readonly changeEmitter = new vscode.EventEmitter<RecentProcess[]>();
+  private readonly endEmitter = new vscode.EventEmitter<RecentProcess>();
+
+  readonly onDidChange = this.changeEmitter.event;
+  /** Fires once for each process that ends, even when nothing is retained */
+  readonly onDidEndProcess = this.endEmitter.event;
+
+  constructor(private readonly state: vscode.Memento) {
+    // Earlier versions stored environment values with each entry
+    const stored = state.get<
+      (RecentProcess & { env?: Record<string, string> })[]
+    >(STORAGE_KEY, []);
+    this.entries = this.prune(
+      stored.map(({ env, ...entry }) =>
+        env ? { ...entry, envNames: Object.keys(env) } : entry
+      )
+    );
+    if (stored.some((entry) => entry.env !== undefined)) {
+      void state.update(STORAGE_KEY, this.entries);
+    }
+    this.timer = setInterval(() => this.applySettings(), PRUNE_INTERVAL_MS);
+  }
+
+  setMCPClient(client: MCPProcessClient | undefined): void {
+    this.client = client;
+  }
+
+  getEntries(): RecentProcess[] {
+    return this.entries;
+  }
+
+  /**
+   * Environment a recorded process was started with, or undefined when it
+   * had none or was recorded before the window was reloaded
+   */
+  getEnv(entry: RecentProcess): Record<string, string> | undefined {
+    return this.envs.get(entry);
+  }
+
+  /**
+   * Remove entries that fell outside changed `recent.*` settings
+   */
+  applySettings(): void {
+    const pruned = this.prune(this.entries);
+    if (pruned.length !== this.entries.length) {
+      this.update(pruned);
+    }
+  }
+
+  clear(): void {
+    this.update([]);
+  }
+
+  dispose(): void {
+    clearInterval(this.timer);
+    this.changeEmitter.dispose();
+    this.endEmitter.dispose();
+  }
+
+  /**
+   * Track a fresh process list; running processes missing from it have ended
+   */
+  observe(processes: ProcessInfo[]): void {
+    const listed = new Set<number>();
+    for (const process of processes) {
+      listed.add(process.pid);
+      if (process.state === "running") {
+        this.track(process);
+      } else if (this.live.has(process.pid)) {
+        void this.finish(process.pid, process.state === "crashed");
+      }
+    }
+    for (const pid of [...this.live.keys()]) {
+      if (!listed.has(pid)) {
+        void this.finish(pid, false);
+      }
+    }
+  }
+
+  handleProcessEvent(event: ProcessEvent): void {
+    switch (event.type) {
+      case "started":
+        if (event.process) {
+          this.track(event.process);
+        }
+        break;
+      case "output": {
+        const live = this.live.get(event.pid);
+        if (live && event.data) {
+          live.outputTail = [
+            ...live.outputTail,
+            ...tailLines(event.data, RECENT_OUTPUT_LINES),
+          ].slice(-RECENT_OUTPUT_LINES);
+        }
+        break;
+      }
+      case "exited":
+      case "crashed": {
+        if (event.process) {
+          this.track(event.process);
+        }
+        const live = this.live.get(event.pid);
+        if (live) {
+          live.exitCode = event.exitCode ?? live.exitCode;
+          live.signal = event.signal ?? live.signal;
+          void this.finish(event.pid, event.type === "crashed");
+        }
+        break;
+      }
+    }
+  }
+
+  handleSweep(sweep: ResourceSweep): void {
+    for (const { process, stats } of sweep.processes) {
+      const live = this.live.get(process.pid);
+      if (!live) {
+        continue;
+      }
+      live.peakCpuPercent = Math.max(
+        live.peakCpuPercent ?? 0,
+        stats.cpuPercent
+      );
+      live.peakMemoryMB = Math.max(live.peakMemoryMB ?? 0, stats.memoryMB);
+    }
+  }
+
+  /**
+   * Note that the extension is about to terminate a process, so its end is
+   * not mistaken for a failure
+   */
+  noteTerminationRequest(pid: number): void {
+    const live = this.live.get(pid);
+    if (live) {
+      live.terminationRequested = true;
+    }
+  }
+
+  /**
+   * Remember how a termination requested through the extension went. The
+   * process may already have been recorded from its exit event.
+   */
+  noteTermination(
+    pid: number,
+    result: { exitCode?: number; terminationReason?: string }
+  ): void {
+    const live = this.live.get(pid);
+    const target = live ?? this.entries.find((entry) => entry.pid === pid);
+    if (!target) {
+      return;
+    }
+    target.exitCode = target.exitCode ?? result.exitCode;
+    target.terminationReason =
+      result.terminationReason ?? target.terminationReason;
+    if (!live) {
+      this.update(this.entries);
+    }
+  }
+
+  private track(process: ProcessInfo): LiveProcess {
+    const live = this.live.get(process.pid);
+    if (live) {
+      live.process = process;
+      return live;
+    }
+    const created: LiveProcess = { process, outputTail: [] };
+    this.live.set(process.pid, created);
+    return created;
+  }
+
+  private async finish(pid: number, crashed: boolean): Promise<void> {
+    const live = this.live.get(pid);
+    if (!live) {
+      return;
+    }
+    this.live.delete(pid);
+    const endTime = Date.now();
+    const { process } = live;
+
+    let outputTail = live.outputTail;
+    if (outputTail.length === 0 && this.client) {
+      try {
+        const { output } = await this.client.getProcessOutput(
+          { pid, lines: RECENT_OUTPUT_LINES },
+          undefined,
+          "background"
+        );
+        outputTail = tailLines(output, RECENT_OUTPUT_LINES);
+      } catch {
+        // The server no longer has the output
+      }
+    }
+
+    const launch = this.client?.getLaunchParams(pid);
+    const startTime = Date.parse(process.startTime);
+    const entry: RecentProcess = {
+      pid,
+      executable: process.executable || process.command,
+      args: process.args,
+      cwd: process.cwd ?? launch?.cwd,
+      envNames: launch?.env ? Object.keys(launch.env) : undefined,
+      resourceLimits: process.resourceLimits ?? launch?.resourceLimits,
+      state: crashed || process.state === "crashed" ? "crashed" : "exited",
+      exitCode: live.exitCode,
+      signal: live.signal,
+      terminationReason: live.terminationReason,
+      terminationRequested: live.terminationRequested,
+      startTime: Number.isNaN(startTime) ? endTime - process.uptime : startTime,
+      endTime,
+      peakCpuPercent: live.peakCpuPercent,
+      peakMemoryMB: live.peakMemoryMB,
+      outputTail,
+    };
+    if (launch?.env) {
+      this.envs.set(entry, launch.env);
+    }
+    this.update(this.prune([entry, ...this.entries]));
+    this.endEmitter.fire(entry);
+  }
+
+  private prune(entries: RecentProcess[]): RecentProcess[] {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    return pruneRecent(
+      entries,
+      Date.now(),
+      config.get<number>("recent.retentionMinutes", 60) * 60000,
+      config.get<number>("recent.maxEntries", 50)
+    );
+  }
+
+  private update(entries: RecentProcess[]): void {
+    this.entries = entries;
+    void this.state.update(STORAGE_KEY, entries);
+    this.changeEmitter.fire(entries);
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Recent Processes
+ *
+ * Records of processes that have exited or crashed, kept for a retention
+ * period after they leave the server's process list so their exit status,
+ * resource peaks and last output can still be inspected and the command
+ * relaunched.
+ */
+
+import type { ProcessStartParams, ResourceLimits } from "./mcpClient";
+
+/**
+ * Output lines kept per recent process
+ */
+export const RECENT_OUTPUT_LINES = 20;
+
+export interface RecentProcess {
+  pid: number;
+  executable: string;
+  args: string[];
+  cwd?: string;
+  /**
+   * Names of the environment variables set when the process was started
+   * through this extension. The values are not stored with the entry.
+   */
+  envNames?: string[];
+  resourceLimits?: ResourceLimits;
+  state: "exited" | "crashed";
+  exitCode?: number;
+  signal?: string;
+  /** Reported when the process was terminated through the extension */
+  terminationReason?: string;
+  /** Set when the extension asked for the process to be terminated */
+  terminationRequested?: boolean;
+  startTime: number;
+  endTime: number;
+  /** Unset when resources were not sampled while the process ran */
+  peakCpuPercent?: number;
+  peakMemoryMB?: number;
+  outputTail: string[];
+}
+
+/**
+ * The last `count` non-empty lines of some output
+ */
+export function tailLines(output: string, count: number): string[] {
+  return output
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0)
+    .slice(-count);
+}
+
+/**
+ * Drop entries older than the retention period and keep at most
+ * `maxEntries`, newest first
+ */
+export function pruneRecent(
+  entries: RecentProcess[],
+  now: number,
+  retentionMs: number,
+  maxEntries: number
+): RecentProcess[] {
+  return entries
+    .filter((entry) => now - entry.endTime < retentionMs)
+    .sort((a, b) => b.endTime - a.endTime)
+    .slice(0, maxEntries);
+}
+
+/**
+ * How a process ended, e.g. `exit code 1` or `signal SIGKILL`
+ */
+export function describeExit(entry: RecentProcess): string {
+  const parts: string[] = [];
+  if (entry.signal) {
+    parts.push(`signal ${entry.signal}`);
+  } else if (entry.exitCode !== undefined) {
+    parts.push(`exit code ${entry.exitCode}`);
+  } else {
+    parts.push(entry.state);
+  }
+  if (entry.terminationReason) {
+    parts.push(entry.terminationReason);
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Whether a process ended on its own in a way worth reporting: it crashed,
+ * was killed by a signal, or exited with a non-zero code
+ */
+export function endedWithFailure(entry: RecentProcess): boolean {
+  if (entry.terminationRequested) {
+    return false;
+  }
+  return (
+    entry.state === "crashed" ||
+    entry.signal !== undefined ||
+    (entry.exitCode !== undefined && entry.exitCode !== 0)
+  );
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/**
+ * Parameters that start the same command again, with the environment it
+ * was started with when that is still known
+ */
+export function relaunchParams(
+  entry: RecentProcess,
+  env?: Record<string, string>
+): ProcessStartParams {
+  return {
+    executable: entry.executable,
+    args: [...entry.args],
+    ...(entry.cwd ? { cwd: entry.cwd } : {}),
+    ...(env ? { env: { ...env } } : {}),
+    ...(entry.resourceLimits
+      ? { resourceLimits: { ...entry.resourceLimits } }
+      : {}),
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Replay Server
+ *
+ * Stands in for the MCP ACS Process Server by answering JSON-RPC requests
+ * over stdio from a session recorded with `server.recordSessionPath`. Used to
+ * reproduce bug reports offline and to run the end-to-end tests without the
+ * real server package.
+ *
+ * Usage: replayServer.js <recording.jsonl>
+ */
+
+import * as fs from "fs";
+import * as readline from "readline";
+import { ReplaySession, parseRecording } from "./sessionRecording";
+
+/**
+ * JSON-RPC error code for requests the recording cannot answer
+ */
+const NO_RECORDING_ERROR_CODE = -32603;
+
+function write(message: unknown): void {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+function main(): void {
+  const recordingPath = process.argv[2];
+  if (!recordingPath) {
+    process.stderr.write("Usage: replayServer.js <recording.jsonl>\n");
+    process.exit(2);
+  }
+
+  let session: ReplaySession;
+  try {
+    session = new ReplaySession(
+      parseRecording(fs.readFileSync(recordingPath, "utf8"))
+    );
+  } catch (error: any) {
+    process.stderr.write(
+      `Failed to load recording ${recordingPath}: ${error.message || error}\n`
+    );
+    process.exit(2);
+  }
+
+  process.stderr.write(`Replaying session from ${recordingPath}\n`);
+
+  const input = readline.createInterface({ input: process.stdin });
+  input.on("line", (line) => {
+    if (line.trim().length === 0) {
+      return;
+    }
+
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      process.stderr.write(`Ignoring malformed message: ${line}\n`);
+      return;
+    }
+
+    // Client notifications need no answer
+    if (message.id === undefined || message.id === null) {
+      return;
+    }
+
+    const response = session.respond(message.method, message.params);
+    if (!response) {
+      write({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: NO_RECORDING_ERROR_CODE,
+          message: `No recorded response for ${message.method}`,
+        },
+      });
+      return;
+    }
+
+    if (response.error) {
+      write({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: {
+          code: response.error.code ?? NO_RECORDING_ERROR_CODE,
+          message: response.error.message,
+        },
+      });
+    } else {
+      write({ jsonrpc: "2.0", id: message.id, result: response.result ?? {} });
+    }
+
+    for (const notification of response.notifications) {
+      write({ jsonrpc: "2.0", ...notification });
+    }
+  });
+  input.on("close", () => process.exit(0));
+}
+
+main();
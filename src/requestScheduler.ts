@@ -0,0 +1,178 @@
+/**
+ * Request Scheduler
+ *
+ * Coordinates requests to the server so background polling cannot starve
+ * user actions. User requests are dequeued ahead of background requests,
+ * background requests never take the last free slot, and identical reads
+ * share one in-flight request.
+ */
+
+/**
+ * `user` for requests a person or agent is waiting on, `background` for
+ * refreshes and polling
+ */
+export type RequestPriority = "user" | "background";
+
+/**
+ * The part of vscode.CancellationToken the scheduler needs
+ */
+export interface CancellationSignal {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested(listener: () => void): { dispose(): void };
+}
+
+export interface ScheduleOptions {
+  priority: RequestPriority;
+  /** Requests with the same key share one in-flight result */
+  dedupKey?: string;
+  cancellation?: CancellationSignal;
+}
+
+export interface RequestQueueStats {
+  running: number;
+  queuedUser: number;
+  queuedBackground: number;
+  /** Requests answered by an identical in-flight request since startup */
+  deduplicated: number;
+}
+
+/**
+ * Requests sent to the server at the same time
+ */
+export const DEFAULT_MAX_CONCURRENT_REQUESTS = 4;
+
+interface QueuedRequest {
+  priority: RequestPriority;
+  start: () => void;
+}
+
+export class RequestScheduler {
+  private running = 0;
+  private deduplicated = 0;
+  private readonly queues: Record<RequestPriority, QueuedRequest[]> = {
+    user: [],
+    background: [],
+  };
+  private readonly shared = new Map<
+    string,
+    { request: QueuedRequest; promise: Promise<unknown> }
+  >();
+
+  constructor(
+    private readonly maxConcurrent = DEFAULT_MAX_CONCURRENT_REQUESTS
+  ) {}
+
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+    const { dedupKey, cancellation } = options;
+
+    if (dedupKey !== undefined) {
+      const existing = this.shared.get(dedupKey);
+      if (existing) {
+        this.deduplicated++;
+        if (options.priority === "user") {
+          this.promote(existing.request);
+        }
+        return existing.promise as Promise<T>;
+      }
+    }
+
+    let subscription: { dispose(): void } | undefined;
+    let resolve!: (value: T) => void;
+    let reject!: (reason: unknown) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+
+    const request: QueuedRequest = {
+      priority: options.priority,
+      start: () => {
+        subscription?.dispose();
+        this.running++;
+
+        let result: Promise<T>;
+        try {
+          result = task();
+        } catch (error) {
+          result = Promise.reject(error);
+        }
+
+        result.then(resolve, reject).finally(() => {
+          this.running--;
+          if (dedupKey !== undefined) {
+            this.shared.delete(dedupKey);
+          }
+          this.drain();
+        });
+      },
+    };
+
+    if (dedupKey !== undefined) {
+      this.shared.set(dedupKey, { request, promise });
+    }
+
+    // A cancelled request leaves the queue at once, so its task can fail
+    // fast instead of waiting for a slot
+    if (cancellation?.isCancellationRequested) {
+      request.start();
+      return promise;
+    }
+    subscription = cancellation?.onCancellationRequested(() => {
+      if (this.remove(request)) {
+        request.start();
+      }
+    });
+
+    this.queues[options.priority].push(request);
+    this.drain();
+    return promise;
+  }
+
+  getStats(): RequestQueueStats {
+    return {
+      running: this.running,
+      queuedUser: this.queues.user.length,
+      queuedBackground: this.queues.background.length,
+      deduplicated: this.deduplicated,
+    };
+  }
+
+  private drain(): void {
+    // One slot is kept free for user requests
+    const backgroundLimit = Math.max(1, this.maxConcurrent - 1);
+
+    while (this.running < this.maxConcurrent) {
+      const next =
+        this.queues.user.shift() ??
+        (this.running < backgroundLimit
+          ? this.queues.background.shift()
+          : undefined);
+      if (!next) {
+        return;
+      }
+      next.start();
+    }
+  }
+
+  /**
+   * Move a queued background request ahead, because a user is now waiting
+   * on its result
+   */
+  private promote(request: QueuedRequest): void {
+    if (request.priority === "background" && this.remove(request)) {
+      request.priority = "user";
+      this.queues.user.push(request);
+      this.drain();
+    }
+  }
+
+  private remove(request: QueuedRequest): boolean {
+    const queue = this.queues[request.priority];
+    const index = queue.indexOf(request);
+    if (index < 0) {
+      return false;
+    }
+    queue.splice(index, 1);
+    return true;
+  }
+}
@@ -0,0 +1,226 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { ProcessEvent } from "./mcpClient";
+import { ResourceSweep } from "./resourceHistorySampler";
+import {
+  AlertDebouncer,
+  METRIC_LABELS,
+  ResourceAlert,
+  ResourceThresholds,
+  evaluateThresholds,
+  formatMetric,
+  resolveThresholds,
+} from "./resourceAlerts";
+
+const DEFAULT_THRESHOLDS: ResourceThresholds = {
+  cpuPercent: { warning: 80, critical: 95 },
+  memoryMB: { warning: 1024, critical: 2048 },
+};
+
+/**
+ * ResourceAlertMonitor - Raises alerts when processes cross thresholds
+ *
+ * Evaluates each sampling pass against the `alerts.*` thresholds, keeps the
+ * alerts currently active per process for the process tree, and shows a
+ * notification with View Stats, Terminate and Raise Limit actions when an
+ * alert is first raised, escalates, or persists past `alerts.debounceSeconds`.
+ * Nothing is evaluated while `ui.showResourceUsage` is off.
+ */
+export class ResourceAlertMonitor implements vscode.Disposable {
+  private readonly debouncer = new AlertDebouncer(0);
+  private active = new Map<number, ResourceAlert[]>();
+  private readonly executables = new Map<number, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<
+    Map<number, ResourceAlert[]>
+  >();
+
+  readonly onDidChangeAlerts = this.changeEmitter.event;
+
+  constructor(private readonly outputChannel: vscode.OutputChannel) {
+    this.applySettings();
+  }
+
+  /**
+   * Pick up changed `alerts.*` settings
+   */
+  applySettings(): void {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    this.debouncer.setInterval(
+      config.get<number>("alerts.debounceSeconds", 300) * 1000
+    );
+    if (!this.isEnabled()) {
+      this.setActive(new Map());
+    }
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+
+  handleSweep(sweep: ResourceSweep): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const defaults = config.get<ResourceThresholds>(
+      "alerts.thresholds",
+      DEFAULT_THRESHOLDS
+    );
+    const byPattern = config.get<Record<string, ResourceThresholds>>(
+      "alerts.executableThresholds",
+      {}
+    );
+
+    const now = Date.now();
+    const active = new Map<number, ResourceAlert[]>();
+    for (const { process, stats } of sweep.processes) {
+      const executable = process.executable || process.command;
+      this.executables.set(process.pid, executable);
+      const alerts = evaluateThresholds(
+        process.pid,
+        {
+          cpuPercent: stats.cpuPercent,
+          memoryMB: stats.memoryMB,
+          uptimeSeconds: (stats.uptime ?? process.uptime) / 1000,
+        },
+        resolveThresholds(executable, defaults, byPattern)
+      );
+
+      for (const alert of alerts) {
+        if (this.debouncer.shouldNotify(alert, now)) {
+          void this.notify(alert, executable);
+        }
+      }
+      if (alerts.length > 0) {
+        active.set(process.pid, alerts);
+      }
+    }
+
+    const running = new Set(sweep.processes.map((p) => p.process.pid));
+    for (const pid of [...this.executables.keys()]) {
+      if (!running.has(pid)) {
+        this.executables.delete(pid);
+        this.debouncer.forget(pid);
+      }
+    }
+    this.setActive(active);
+  }
+
+  /**
+   * Drop the alerts of a process the server reports as ended, instead of
+   * waiting for the next sampling pass
+   */
+  handleProcessEvent(event: ProcessEvent): void {
+    if (event.type !== "exited" && event.type !== "crashed") {
+      return;
+    }
+    this.executables.delete(event.pid);
+    this.debouncer.forget(event.pid);
+    if (this.active.has(event.pid)) {
+      const active = new Map(this.active);
+      active.delete(event.pid);
+      this.setActive(active);
+    }
+  }
+
+  private isEnabled(): boolean {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    return (
+      config.get<boolean>("alerts.enabled", true) &&
+      config.get<boolean>("ui.showResourceUsage", true)
+    );
+  }
+
+  private setActive(active: Map<number, ResourceAlert[]>): void {
+    if (active.size === 0 && this.active.size === 0) {
+      return;
+    }
+    this.active = active;
+    this.changeEmitter.fire(active);
+  }
+
+  private async notify(
+    alert: ResourceAlert,
+    executable: string
+  ): Promise<void> {
+    const message = `PID ${alert.pid} (${path.basename(executable)}): ${
+      METRIC_LABELS[alert.metric]
+    } at ${formatMetric(alert.metric, alert.value)} exceeds the ${
+      alert.level
+    } threshold of ${formatMetric(alert.metric, alert.threshold)}`;
+    this.outputChannel.appendLine(`Resource alert: ${message}`);
+
+    const actions = ["View Stats", "Terminate", "Raise Limit"];
+    const action =
+      alert.level === "critical"
+        ? await vscode.window.showErrorMessage(message, ...actions)
+        : await vscode.window.showWarningMessage(message, ...actions);
+
+    switch (action) {
+      case "View Stats":
+        await vscode.commands.executeCommand("mcp-process.viewStats", {
+          pid: alert.pid,
+        });
+        break;
+      case "Terminate":
+        await vscode.commands.executeCommand("mcp-process.terminateProcess", {
+          pid: alert.pid,
+        });
+        break;
+      case "Raise Limit":
+        await this.raiseLimit(alert, executable);
+        break;
+    }
+  }
+
+  /**
+   * Raise the crossed threshold for this executable in
+   * `alerts.executableThresholds`
+   */
+  private async raiseLimit(
+    alert: ResourceAlert,
+    executable: string
+  ): Promise<void> {
+    const name = path.basename(executable);
+    const input = await vscode.window.showInputBox({
+      title: `Raise ${alert.level} ${METRIC_LABELS[alert.metric]} threshold`,
+      prompt: `New ${
+        alert.level
+      } threshold for ${name} (currently ${formatMetric(
+        alert.metric,
+        alert.threshold
+      )})`,
+      value: String(Math.ceil(Math.max(alert.value, alert.threshold) * 1.2)),
+      validateInput: (value) => {
+        const number = Number(value);
+        return Number.isFinite(number) && number > alert.threshold
+          ? undefined
+          : `Enter a number above ${alert.threshold}`;
+      },
+    });
+    if (input === undefined) {
+      return;
+    }
+
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const current = config.get<Record<string, ResourceThresholds>>(
+      "alerts.executableThresholds",
+      {}
+    );
+    const thresholds = { ...current[name] };
+    thresholds[alert.metric] = {
+      ...thresholds[alert.metric],
+      [alert.level]: Number(input),
+    };
+    await config.update(
+      "alerts.executableThresholds",
+      { ...current, [name]: thresholds },
+      vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global
+    );
+    this.outputChannel.appendLine(
+      `Raised ${alert.level} ${alert.metric} threshold for ${name} to ${input}`
+    );
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Resource Alerts
+ *
+ * Warning and critical thresholds for CPU, memory and uptime. Global
+ * defaults can be overridden per executable pattern; the thresholds of a
+ * process are the defaults merged with every matching pattern in order.
+ */
+
+import { matchesExecutable } from "./preflight";
+
+export type AlertLevel = "warning" | "critical";
+
+export type AlertMetric = "cpuPercent" | "memoryMB" | "uptimeSeconds";
+
+export interface ThresholdPair {
+  warning?: number;
+  critical?: number;
+}
+
+export type ResourceThresholds = Partial<Record<AlertMetric, ThresholdPair>>;
+
+export interface ResourceAlert {
+  pid: number;
+  metric: AlertMetric;
+  level: AlertLevel;
+  value: number;
+  threshold: number;
+}
+
+const METRICS: AlertMetric[] = ["cpuPercent", "memoryMB", "uptimeSeconds"];
+
+export const METRIC_LABELS: Record<AlertMetric, string> = {
+  cpuPercent: "CPU",
+  memoryMB: "Memory",
+  uptimeSeconds: "Uptime",
+};
+
+/**
+ * Format a metric value with its unit
+ */
+export function formatMetric(metric: AlertMetric, value: number): string {
+  switch (metric) {
+    case "cpuPercent":
+      return `${value.toFixed(1)}%`;
+    case "memoryMB":
+      return `${value.toFixed(0)} MB`;
+    case "uptimeSeconds":
+      return `${Math.floor(value)}s`;
+  }
+}
+
+/**
+ * Thresholds that apply to an executable
+ *
+ * @param byPattern - overrides keyed by executable name, path or `*` pattern
+ */
+export function resolveThresholds(
+  executable: string,
+  defaults: ResourceThresholds,
+  byPattern: Record<string, ResourceThresholds>
+): ResourceThresholds {
+  const resolved: ResourceThresholds = {};
+  const layers = [
+    defaults,
+    ...Object.entries(byPattern)
+      .filter(([pattern]) => matchesExecutable(executable, pattern))
+      .map(([, thresholds]) => thresholds),
+  ];
+  for (const layer of layers) {
+    for (const metric of METRICS) {
+      if (layer[metric]) {
+        resolved[metric] = { ...resolved[metric], ...layer[metric] };
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * The most severe threshold crossed for each metric
+ */
+export function evaluateThresholds(
+  pid: number,
+  values: Record<AlertMetric, number>,
+  thresholds: ResourceThresholds
+): ResourceAlert[] {
+  const alerts: ResourceAlert[] = [];
+  for (const metric of METRICS) {
+    const pair = thresholds[metric];
+    const value = values[metric];
+    if (!pair) {
+      continue;
+    }
+    if (pair.critical !== undefined && value >= pair.critical) {
+      alerts.push({
+        pid,
+        metric,
+        level: "critical",
+        value,
+        threshold: pair.critical,
+      });
+    } else if (pair.warning !== undefined && value >= pair.warning) {
+      alerts.push({
+        pid,
+        metric,
+        level: "warning",
+        value,
+        threshold: pair.warning,
+      });
+    }
+  }
+  return alerts;
+}
+
+/**
+ * Limits how often an alert is raised for the same process and metric. An
+ * alert is raised the first time, again once the interval has passed, and
+ * immediately when it escalates from warning to critical. Dropping below
+ * the thresholds does not reset the interval, so a value hovering around a
+ * threshold is not reported on every sample.
+ */
+export class AlertDebouncer {
+  private readonly notified = new Map<
+    string,
+    { level: AlertLevel; time: number }
+  >();
+
+  constructor(private intervalMs: number) {}
+
+  setInterval(intervalMs: number): void {
+    this.intervalMs = intervalMs;
+  }
+
+  /**
+   * Whether an alert should be raised now, recording it if so
+   */
+  shouldNotify(alert: ResourceAlert, now: number): boolean {
+    const key = `${alert.pid}:${alert.metric}`;
+    const previous = this.notified.get(key);
+    const escalated =
+      alert.level === "critical" && previous?.level !== "critical";
+    if (previous && !escalated && now - previous.time < this.intervalMs) {
+      return false;
+    }
+    this.notified.set(key, { level: alert.level, time: now });
+    return true;
+  }
+
+  /**
+   * Forget a process that is no longer running
+   */
+  forget(pid: number): void {
+    for (const key of [...this.notified.keys()]) {
+      if (key.startsWith(`${pid}:`)) {
+        this.notified.delete(key);
+      }
+    }
+  }
+}
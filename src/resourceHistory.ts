@@ -0,0 +1,284 @@
+/**
+ * Resource History
+ *
+ * Resource samples of past and current runs, grouped by command line so
+ * runs of the same command can be compared, e.g. to catch a memory
+ * regression in a test runner. The store is bounded three ways: runs per
+ * command, commands kept, and samples per run. A run that outgrows its
+ * sample budget is thinned to every other sample, so long runs keep their
+ * whole timeline at a lower resolution.
+ */
+
+import type { ProcessStatsSample } from "./mcpClient";
+import { formatCommandLine } from "./commandLine";
+
+export interface ResourceRun {
+  /** Unique within the store */
+  id: string;
+  pid: number;
+  executable: string;
+  args: string[];
+  startTime: number;
+  /** Set once the process is no longer listed by the server */
+  endTime?: number;
+  samples: ProcessStatsSample[];
+}
+
+export interface ResourceHistoryData {
+  version: 1;
+  /** Runs by command line, oldest first */
+  commands: Record<string, ResourceRun[]>;
+}
+
+export interface ResourceHistoryLimits {
+  maxRunsPerCommand: number;
+  maxCommands: number;
+  maxSamplesPerRun: number;
+}
+
+export const DEFAULT_HISTORY_LIMITS: ResourceHistoryLimits = {
+  maxRunsPerCommand: 10,
+  maxCommands: 50,
+  maxSamplesPerRun: 720,
+};
+
+export interface RunSummary {
+  samples: number;
+  durationMs: number;
+  peakCpuPercent: number;
+  averageCpuPercent: number;
+  peakMemoryMB: number;
+  averageMemoryMB: number;
+  peakThreadCount: number;
+  ioRead: number;
+  ioWrite: number;
+}
+
+/**
+ * Key under which runs of a command are grouped
+ */
+export function commandKey(executable: string, args: string[]): string {
+  return formatCommandLine(executable, args);
+}
+
+export class ResourceHistory {
+  private commands: Record<string, ResourceRun[]>;
+
+  constructor(
+    data?: ResourceHistoryData,
+    private limits: ResourceHistoryLimits = DEFAULT_HISTORY_LIMITS
+  ) {
+    this.commands = data?.version === 1 ? { ...data.commands } : {};
+  }
+
+  setLimits(limits: ResourceHistoryLimits): void {
+    this.limits = limits;
+    for (const key of Object.keys(this.commands)) {
+      this.prune(key);
+    }
+    this.pruneCommands();
+  }
+
+  /**
+   * Add a sample to the process's current run, starting a run if it has
+   * none
+   */
+  record(
+    process: { pid: number; executable: string; args: string[] },
+    sample: ProcessStatsSample
+  ): void {
+    const key = commandKey(process.executable, process.args);
+    const runs = (this.commands[key] ??= []);
+    let run = runs.find((r) => r.pid === process.pid && !r.endTime);
+    if (!run) {
+      run = {
+        id: `${process.pid}-${sample.timestamp}`,
+        pid: process.pid,
+        executable: process.executable,
+        args: [...process.args],
+        startTime: sample.timestamp,
+        samples: [],
+      };
+      runs.push(run);
+      this.prune(key);
+      this.pruneCommands();
+    }
+
+    run.samples.push(sample);
+    if (run.samples.length > this.limits.maxSamplesPerRun) {
+      run.samples = run.samples.filter((_, index) => index % 2 === 0);
+    }
+  }
+
+  /**
+   * End the runs of processes that are no longer running
+   *
+   * @returns whether any run ended
+   */
+  finishRuns(runningPids: Set<number>, now: number): boolean {
+    let finished = false;
+    for (const runs of Object.values(this.commands)) {
+      for (const run of runs) {
+        if (!run.endTime && !runningPids.has(run.pid)) {
+          run.endTime = run.samples[run.samples.length - 1]?.timestamp ?? now;
+          finished = true;
+        }
+      }
+    }
+    return finished;
+  }
+
+  /**
+   * Command lines with history, most recently run first
+   */
+  getCommands(): string[] {
+    return Object.keys(this.commands).sort(
+      (a, b) => this.lastActivity(b) - this.lastActivity(a)
+    );
+  }
+
+  /**
+   * Runs of a command, newest first
+   */
+  getRuns(key: string): ResourceRun[] {
+    return [...(this.commands[key] ?? [])].reverse();
+  }
+
+  clear(): void {
+    this.commands = {};
+  }
+
+  toJSON(): ResourceHistoryData {
+    return { version: 1, commands: this.commands };
+  }
+
+  private lastActivity(key: string): number {
+    const runs = this.commands[key] ?? [];
+    return runs[runs.length - 1]?.startTime ?? 0;
+  }
+
+  private prune(key: string): void {
+    const runs = this.commands[key];
+    if (runs && runs.length > this.limits.maxRunsPerCommand) {
+      runs.splice(0, runs.length - this.limits.maxRunsPerCommand);
+    }
+  }
+
+  private pruneCommands(): void {
+    const keys = this.getCommands();
+    for (const key of keys.slice(this.limits.maxCommands)) {
+      delete this.commands[key];
+    }
+  }
+}
+
+export function summarizeRun(run: ResourceRun): RunSummary {
+  const samples = run.samples;
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const sum = (pick: (s: ProcessStatsSample) => number) =>
+    samples.reduce((total, s) => total + pick(s), 0);
+  const max = (pick: (s: ProcessStatsSample) => number) =>
+    samples.reduce((peak, s) => Math.max(peak, pick(s)), 0);
+
+  return {
+    samples: samples.length,
+    durationMs:
+      (run.endTime ?? last?.timestamp ?? run.startTime) - run.startTime,
+    peakCpuPercent: max((s) => s.cpuPercent),
+    averageCpuPercent: samples.length
+      ? sum((s) => s.cpuPercent) / samples.length
+      : 0,
+    peakMemoryMB: max((s) => s.memoryMB),
+    averageMemoryMB: samples.length
+      ? sum((s) => s.memoryMB) / samples.length
+      : 0,
+    peakThreadCount: max((s) => s.threadCount),
+    ioRead: first && last ? Math.max(0, last.ioRead - first.ioRead) : 0,
+    ioWrite: first && last ? Math.max(0, last.ioWrite - first.ioWrite) : 0,
+  };
+}
+
+function formatChange(baseline: number, candidate: number): string {
+  if (baseline === 0) {
+    return candidate === 0 ? "0%" : "n/a";
+  }
+  const percent = ((candidate - baseline) / baseline) * 100;
+  return `${percent >= 0 ? "+" : ""}${percent.toFixed(1)}%`;
+}
+
+/**
+ * Compare two runs of a command as a Markdown report
+ */
+export function formatRunComparison(
+  command: string,
+  baseline: ResourceRun,
+  candidate: ResourceRun
+): string {
+  const a = summarizeRun(baseline);
+  const b = summarizeRun(candidate);
+  const rows: Array<[string, number, number, (value: number) => string]> = [
+    [
+      "Duration",
+      a.durationMs,
+      b.durationMs,
+      (v) => `${(v / 1000).toFixed(1)} s`,
+    ],
+    [
+      "Peak memory",
+      a.peakMemoryMB,
+      b.peakMemoryMB,
+      (v) => `${v.toFixed(1)} MB`,
+    ],
+    [
+      "Average memory",
+      a.averageMemoryMB,
+      b.averageMemoryMB,
+      (v) => `${v.toFixed(1)} MB`,
+    ],
+    ["Peak CPU", a.peakCpuPercent, b.peakCpuPercent, (v) => `${v.toFixed(1)}%`],
+    [
+      "Average CPU",
+      a.averageCpuPercent,
+      b.averageCpuPercent,
+      (v) => `${v.toFixed(1)}%`,
+    ],
+    ["Peak threads", a.peakThreadCount, b.peakThreadCount, (v) => `${v}`],
+    [
+      "I/O read",
+      a.ioRead,
+      b.ioRead,
+      (v) => `${(v / 1024 / 1024).toFixed(2)} MB`,
+    ],
+    [
+      "I/O write",
+      a.ioWrite,
+      b.ioWrite,
+      (v) => `${(v / 1024 / 1024).toFixed(2)} MB`,
+    ],
+    ["Samples", a.samples, b.samples, (v) => `${v}`],
+  ];
+
+  const describe = (run: ResourceRun) =>
+    `PID ${run.pid}, started ${new Date(run.startTime).toISOString()}`;
+
+  return [
+    `# Resource Comparison`,
+    "",
+    `Command: \`${command}\``,
+    "",
+    `- Baseline: ${describe(baseline)}`,
+    `- Compared: ${describe(candidate)}`,
+    "",
+    "| Metric | Baseline | Compared | Change |",
+    "| --- | --- | --- | --- |",
+    ...rows.map(
+      ([label, before, after, format]) =>
+        `| ${label} | ${format(before)} | ${format(after)} | ${formatChange(
+          before,
+          after
+        )} |`
+    ),
+    "",
+  ].join("\n");
+}
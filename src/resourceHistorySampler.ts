@@ -0,0 +1,240 @@
+import * as vscode from "vscode";
+import { MCPProcessClient, ProcessInfo, ProcessStats } from "./mcpClient";
+import {
+  DEFAULT_HISTORY_LIMITS,
+  ResourceHistory,
+  ResourceHistoryData,
+} from "./resourceHistory";
+
+const HISTORY_FILE = "resource-history.json";
+
+/**
+ * How often unchanged-but-growing history is written to disk
+ */
+const SAVE_INTERVAL_MS = 60000;
+
+/**
+ * Stats of every running process from one sampling pass
+ */
+export interface ResourceSweep {
+  processes: Array<{ process: ProcessInfo; stats: ProcessStats }>;
+}
+
+/**
+ * ResourceHistorySampler - Records stats of every running managed process
+ *
+ * Polls process_get_stats for each running process at
+ * `history.sampleInterval` at background priority, and keeps the samples in
+ * a ResourceHistory persisted to the extension's global storage, so they
+ * outlive both the process and the VS Code session.
+ *
+ * Each pass is also published through `onDidSample`, so resource alerts
+ * share the polling instead of querying the server separately. Sampling
+ * runs while history or alerts are enabled, or another consumer such as
+ * the process list's CPU sort asks for it.
+ */
+export class ResourceHistorySampler implements vscode.Disposable {
+  history = new ResourceHistory();
+
+  private client: MCPProcessClient | undefined;
+  private timer?: NodeJS.Timeout;
+  private sampling = false;
+  private dirty = false;
+  private lastSave = 0;
+  private readonly sweepEmitter = new vscode.EventEmitter<ResourceSweep>();
+  private readonly demands = new Set<string>();
+
+  readonly onDidSample = this.sweepEmitter.event;
+
+  constructor(
+    private readonly storageUri: vscode.Uri,
+    private readonly outputChannel: vscode.OutputChannel
+  ) {}
+
+  private get fileUri(): vscode.Uri {
+    return vscode.Uri.joinPath(this.storageUri, HISTORY_FILE);
+  }
+
+  /**
+   * Load saved history; a missing or unreadable file starts empty
+   */
+  async load(): Promise<void> {
+    try {
+      const content = await vscode.workspace.fs.readFile(this.fileUri);
+      const data = JSON.parse(
+        Buffer.from(content).toString("utf8")
+      ) as ResourceHistoryData;
+      this.history = new ResourceHistory(data);
+    } catch (error: any) {
+      if (!(error instanceof vscode.FileSystemError)) {
+        this.outputChannel.appendLine(
+          `Discarding unreadable resource history: ${error.message || error}`
+        );
+      }
+    }
+    this.applySettings();
+  }
+
+  setMCPClient(client: MCPProcessClient | undefined): void {
+    this.client = client;
+    this.restart();
+  }
+
+  /**
+   * Keep sampling for `reason` even while history and alerts are off
+   */
+  setDemand(reason: string, needed: boolean): void {
+    if (needed === this.demands.has(reason)) {
+      return;
+    }
+    if (needed) {
+      this.demands.add(reason);
+    } else {
+      this.demands.delete(reason);
+    }
+    this.restart();
+  }
+
+  /**
+   * Pick up changed `history.*` settings
+   */
+  restart(): void {
+    this.stop();
+    this.applySettings();
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    const alerts =
+      config.get<boolean>("alerts.enabled", true) &&
+      config.get<boolean>("ui.showResourceUsage", true);
+    if (
+      !this.client ||
+      !(
+        config.get<boolean>("history.enabled", true) ||
+        alerts ||
+        this.demands.size > 0
+      )
+    ) {
+      return;
+    }
+    const interval = config.get<number>("history.sampleInterval", 5000);
+    this.timer = setInterval(() => void this.sample(), interval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  dispose(): void {
+    this.stop();
+    this.sweepEmitter.dispose();
+  }
+
+  async clear(): Promise<void> {
+    this.history.clear();
+    this.dirty = true;
+    await this.save();
+  }
+
+  /**
+   * Write pending samples to disk
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    this.dirty = false;
+    this.lastSave = Date.now();
+    try {
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(
+        this.fileUri,
+        Buffer.from(JSON.stringify(this.history.toJSON()), "utf8")
+      );
+    } catch (error: any) {
+      this.dirty = true;
+      this.outputChannel.appendLine(
+        `Failed to save resource history: ${error.message || error}`
+      );
+    }
+  }
+
+  private applySettings(): void {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    this.history.setLimits({
+      ...DEFAULT_HISTORY_LIMITS,
+      maxRunsPerCommand: config.get<number>(
+        "history.maxRunsPerCommand",
+        DEFAULT_HISTORY_LIMITS.maxRunsPerCommand
+      ),
+    });
+  }
+
+  private async sample(): Promise<void> {
+    const client = this.client;
+    if (!client || this.sampling) {
+      return;
+    }
+    this.sampling = true;
+    const record = vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<boolean>("history.enabled", true);
+    try {
+      const processes = (
+        await client.listProcesses(undefined, "background")
+      ).filter((p) => p.state === "running");
+
+      const sweep: ResourceSweep = { processes: [] };
+      await Promise.all(
+        processes.map(async (p) => {
+          try {
+            const stats = await client.getProcessStats(
+              { pid: p.pid },
+              undefined,
+              "background"
+            );
+            sweep.processes.push({ process: p, stats });
+            if (!record) {
+              return;
+            }
+            this.history.record(
+              {
+                pid: p.pid,
+                executable: p.executable || p.command,
+                args: p.args,
+              },
+              {
+                timestamp: Date.now(),
+                cpuPercent: stats.cpuPercent,
+                memoryMB: stats.memoryMB,
+                threadCount: stats.threadCount,
+                ioRead: stats.ioRead,
+                ioWrite: stats.ioWrite,
+              }
+            );
+            this.dirty = true;
+          } catch {
+            // The process exited between listing and sampling
+          }
+        })
+      );
+      this.sweepEmitter.fire(sweep);
+
+      const finished = this.history.finishRuns(
+        new Set(processes.map((p) => p.pid)),
+        Date.now()
+      );
+      if (finished) {
+        this.dirty = true;
+      }
+      if (finished || Date.now() - this.lastSave >= SAVE_INTERVAL_MS) {
+        await this.save();
+      }
+    } catch {
+      // Server unavailable; the next sample retries
+    } finally {
+      this.sampling = false;
+    }
+  }
+}
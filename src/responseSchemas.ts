@@ -0,0 +1,513 @@
+/**
+ * Response Schemas for MCP ACS Process Server tool results
+ *
+ * The server has returned several shapes for the same data over time
+ * (`pid` vs `id`, `state` vs `status`, flat vs nested stats). Every tool
+ * result passes through one of the parsers below, which validate the payload
+ * at runtime and normalize it into the canonical types used by the UI.
+ * Malformed payloads raise an InvalidResponseError.
+ */
+
+import type {
+  ProcessEvent,
+  ProcessEventType,
+  ProcessInfo,
+  ProcessState,
+  ProcessStats,
+  ProcessStatsSample,
+  ResourceLimits,
+  ServerHandshake,
+  ServerTool,
+} from "./mcpClient";
+
+/**
+ * Raised when a tool result does not match the expected schema
+ */
+export class InvalidResponseError extends Error {
+  constructor(public readonly tool: string, public readonly detail: string) {
+    super(`Invalid response from ${tool}: ${detail}`);
+    this.name = "InvalidResponseError";
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+/**
+ * State aliases reported by different server versions
+ */
+const STATE_ALIASES: Record<string, ProcessState> = {
+  running: "running",
+  started: "running",
+  stopped: "stopped",
+  terminated: "stopped",
+  killed: "stopped",
+  crashed: "crashed",
+  failed: "crashed",
+  error: "crashed",
+  exited: "exited",
+  completed: "completed",
+  finished: "completed",
+};
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function expectObject(value: unknown, tool: string): RawObject {
+  if (!isObject(value)) {
+    throw new InvalidResponseError(
+      tool,
+      `expected an object but received ${describe(value)}`
+    );
+  }
+  return value;
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "an array";
+  }
+  if (typeof value === "string") {
+    const preview = value.length > 60 ? `${value.slice(0, 60)}...` : value;
+    return `text "${preview}"`;
+  }
+  return typeof value;
+}
+
+/**
+ * Read a numeric field, accepting numeric strings
+ */
+function readNumber(
+  obj: RawObject,
+  field: string,
+  tool: string
+): number | undefined {
+  const value = obj[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) {
+      return parsed;
+    }
+  }
+  throw new InvalidResponseError(
+    tool,
+    `field "${field}" must be a number but was ${describe(value)}`
+  );
+}
+
+function readString(
+  obj: RawObject,
+  field: string,
+  tool: string
+): string | undefined {
+  const value = obj[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== "string") {
+    throw new InvalidResponseError(
+      tool,
+      `field "${field}" must be a string but was ${describe(value)}`
+    );
+  }
+  return value;
+}
+
+function readStringArray(
+  obj: RawObject,
+  field: string,
+  tool: string
+): string[] | undefined {
+  const value = obj[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some((v) => typeof v !== "string")) {
+    throw new InvalidResponseError(
+      tool,
+      `field "${field}" must be an array of strings`
+    );
+  }
+  return value as string[];
+}
+
+/**
+ * Normalize a process state reported by the server
+ */
+export function parseProcessState(value: unknown, tool: string): ProcessState {
+  if (typeof value !== "string") {
+    throw new InvalidResponseError(
+      tool,
+      `process state must be a string but was ${describe(value)}`
+    );
+  }
+  const state = STATE_ALIASES[value.toLowerCase()];
+  if (!state) {
+    throw new InvalidResponseError(tool, `unknown process state "${value}"`);
+  }
+  return state;
+}
+
+function parseResourceLimits(
+  value: unknown,
+  tool: string
+): ResourceLimits | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const obj = expectObject(value, tool);
+  return {
+    maxCpuPercent: readNumber(obj, "maxCpuPercent", tool),
+    maxMemoryMB: readNumber(obj, "maxMemoryMB", tool),
+    maxCpuTime: readNumber(obj, "maxCpuTime", tool),
+    maxFileDescriptors: readNumber(obj, "maxFileDescriptors", tool),
+    maxProcesses: readNumber(obj, "maxProcesses", tool),
+  };
+}
+
+/**
+ * Parse the result of process_start and return the new PID
+ */
+export function parseStartResult(value: unknown, tool: string): number {
+  const obj = expectObject(value, tool);
+  const pid =
+    readNumber(obj, "pid", tool) ??
+    readNumber(obj, "processId", tool) ??
+    readNumber(obj, "id", tool);
+  if (pid === undefined) {
+    throw new InvalidResponseError(tool, `missing "pid"`);
+  }
+  return pid;
+}
+
+/**
+ * Parse a single process record into the canonical ProcessInfo shape
+ */
+export function parseProcessInfo(value: unknown, tool: string): ProcessInfo {
+  const obj = expectObject(value, tool);
+
+  const pid = readNumber(obj, "pid", tool) ?? readNumber(obj, "id", tool);
+  if (pid === undefined) {
+    throw new InvalidResponseError(tool, `process is missing "pid"`);
+  }
+
+  const rawState = obj.state ?? obj.status;
+  if (rawState === undefined) {
+    throw new InvalidResponseError(tool, `process ${pid} is missing "state"`);
+  }
+  const state = parseProcessState(rawState, tool);
+
+  const command = readString(obj, "command", tool);
+  const executable = readString(obj, "executable", tool) ?? command;
+  if (!executable) {
+    throw new InvalidResponseError(
+      tool,
+      `process ${pid} is missing "executable"`
+    );
+  }
+
+  const uptime = readNumber(obj, "uptime", tool) ?? 0;
+  const startTime =
+    readString(obj, "startTime", tool) ??
+    new Date(Date.now() - uptime).toISOString();
+  const id =
+    obj.id !== undefined && obj.id !== null ? String(obj.id) : `${pid}`;
+
+  return {
+    id,
+    pid,
+    executable,
+    command: command ?? executable,
+    args: readStringArray(obj, "args", tool) ?? [],
+    state,
+    status: state,
+    uptime,
+    startTime,
+    output: readString(obj, "output", tool),
+    resourceLimits: parseResourceLimits(obj.resourceLimits, tool),
+    cwd:
+      readString(obj, "cwd", tool) ?? readString(obj, "workingDirectory", tool),
+    group: readString(obj, "group", tool) ?? readString(obj, "groupName", tool),
+    service:
+      readString(obj, "service", tool) ?? readString(obj, "serviceName", tool),
+  };
+}
+
+/**
+ * Parse the result of process_list
+ *
+ * Accepts either `{ processes: [...] }` or a bare array.
+ */
+export function parseProcessList(value: unknown, tool: string): ProcessInfo[] {
+  const list = isObject(value) ? value.processes : value;
+  if (!Array.isArray(list)) {
+    throw new InvalidResponseError(
+      tool,
+      `expected a process list but received ${describe(list)}`
+    );
+  }
+  return list.map((p) => parseProcessInfo(p, tool));
+}
+
+function parseStatsFields(obj: RawObject, tool: string) {
+  const cpuPercent = readNumber(obj, "cpuPercent", tool);
+  const memoryMB = readNumber(obj, "memoryMB", tool);
+  if (cpuPercent === undefined || memoryMB === undefined) {
+    throw new InvalidResponseError(
+      tool,
+      `stats must include "cpuPercent" and "memoryMB"`
+    );
+  }
+  return {
+    cpuPercent,
+    memoryMB,
+    threadCount: readNumber(obj, "threadCount", tool) ?? 0,
+    ioRead: readNumber(obj, "ioRead", tool) ?? 0,
+    ioWrite: readNumber(obj, "ioWrite", tool) ?? 0,
+  };
+}
+
+function parseStatsSample(value: unknown, tool: string): ProcessStatsSample {
+  const obj = expectObject(value, tool);
+  const rawTimestamp = obj.timestamp;
+  const timestamp =
+    typeof rawTimestamp === "string"
+      ? Date.parse(rawTimestamp)
+      : readNumber(obj, "timestamp", tool);
+  if (timestamp === undefined || Number.isNaN(timestamp)) {
+    throw new InvalidResponseError(
+      tool,
+      `history sample is missing a timestamp`
+    );
+  }
+  const fields = isObject(obj.stats) ? { ...obj, ...obj.stats } : obj;
+  return { timestamp, ...parseStatsFields(fields, tool) };
+}
+
+/**
+ * Parse the result of process_get_stats
+ *
+ * Older servers nest the metrics under `stats`; both forms are flattened.
+ */
+export function parseProcessStats(value: unknown, tool: string): ProcessStats {
+  const obj = expectObject(value, tool);
+  const fields = isObject(obj.stats) ? { ...obj, ...obj.stats } : obj;
+
+  const history = obj.history;
+  if (history !== undefined && history !== null && !Array.isArray(history)) {
+    throw new InvalidResponseError(tool, `field "history" must be an array`);
+  }
+
+  return {
+    state:
+      obj.state !== undefined || obj.status !== undefined
+        ? parseProcessState(obj.state ?? obj.status, tool)
+        : undefined,
+    uptime: readNumber(obj, "uptime", tool),
+    ...parseStatsFields(fields, tool),
+    history: Array.isArray(history)
+      ? history.map((sample) => parseStatsSample(sample, tool))
+      : undefined,
+  };
+}
+
+/**
+ * Parse the result of process_terminate
+ */
+export function parseTerminateResult(
+  value: unknown,
+  tool: string
+): { exitCode?: number; terminationReason?: string } {
+  const obj = expectObject(value, tool);
+  return {
+    exitCode: readNumber(obj, "exitCode", tool),
+    terminationReason: readString(obj, "terminationReason", tool),
+  };
+}
+
+/**
+ * Parse the result of process_get_output
+ *
+ * Servers either return a combined `output` or separate `stdout`/`stderr`.
+ */
+export function parseProcessOutput(
+  value: unknown,
+  tool: string
+): { output: string } {
+  if (typeof value === "string") {
+    return { output: value };
+  }
+  const obj = expectObject(value, tool);
+  const output = readString(obj, "output", tool);
+  if (output !== undefined) {
+    return { output };
+  }
+  const stdout = readString(obj, "stdout", tool);
+  const stderr = readString(obj, "stderr", tool);
+  if (stdout === undefined && stderr === undefined) {
+    throw new InvalidResponseError(tool, `missing "output"`);
+  }
+  return { output: [stdout, stderr].filter((s) => s).join("\n") };
+}
+
+/**
+ * Parse a result that must carry a string identifier (group or service IDs)
+ */
+export function parseIdResult<K extends string>(
+  value: unknown,
+  tool: string,
+  field: K,
+  fallbackField: string
+): Record<K, string> {
+  const obj = expectObject(value, tool);
+  const raw = obj[field] ?? obj[fallbackField];
+  if (typeof raw !== "string" && typeof raw !== "number") {
+    throw new InvalidResponseError(tool, `missing "${field}"`);
+  }
+  return { [field]: String(raw) } as Record<K, string>;
+}
+
+/**
+ * Parse the result of process_start_service, which may also report the pid
+ * of the service's first process
+ */
+export function parseServiceStartResult(
+  value: unknown,
+  tool: string
+): { serviceId: string; pid?: number } {
+  const { serviceId } = parseIdResult(value, tool, "serviceId", "name");
+  const pid = readNumber(expectObject(value, tool), "pid", tool);
+  return pid === undefined ? { serviceId } : { serviceId, pid };
+}
+
+/**
+ * Parse the envelope of a tools/call result: whether the tool reported an
+ * error, and the text of its first content item, which carries the payload
+ */
+export function parseToolCallResult(
+  value: unknown,
+  tool: string
+): { isError: boolean; text?: string } {
+  if (!isObject(value) || !Array.isArray(value.content)) {
+    throw new InvalidResponseError(tool, "missing tool result content");
+  }
+  const [first] = value.content;
+  const text = isObject(first) ? readString(first, "text", tool) : undefined;
+  return { isError: value.isError === true, text };
+}
+
+/**
+ * Parse the result of tools/list into the tools the server advertises
+ */
+export function parseToolList(value: unknown, tool: string): ServerTool[] {
+  const obj = expectObject(value, tool);
+  if (!Array.isArray(obj.tools)) {
+    throw new InvalidResponseError(tool, `field "tools" must be an array`);
+  }
+  return obj.tools.map((entry) => {
+    const raw = expectObject(entry, tool);
+    const name = readString(raw, "name", tool);
+    if (!name) {
+      throw new InvalidResponseError(tool, `tool is missing "name"`);
+    }
+    const inputSchema =
+      raw.inputSchema === undefined
+        ? { type: "object", properties: {} }
+        : expectObject(raw.inputSchema, tool);
+    return {
+      name,
+      description: readString(raw, "description", tool) ?? "",
+      inputSchema,
+    };
+  });
+}
+
+const PROCESS_EVENT_TYPES: ProcessEventType[] = [
+  "started",
+  "output",
+  "exited",
+  "crashed",
+];
+
+/**
+ * Parse a process event notification
+ *
+ * Returns undefined for event types this extension does not know about, so
+ * newer servers can add events without breaking older clients.
+ */
+export function parseProcessEvent(
+  method: string,
+  params: unknown
+): ProcessEvent | undefined {
+  const type = method.split("/").pop() as ProcessEventType;
+  if (!PROCESS_EVENT_TYPES.includes(type)) {
+    return undefined;
+  }
+
+  const obj = expectObject(params, method);
+  const process =
+    obj.process === undefined || obj.process === null
+      ? undefined
+      : parseProcessInfo(obj.process, method);
+  const pid = readNumber(obj, "pid", method) ?? process?.pid;
+  if (pid === undefined) {
+    throw new InvalidResponseError(method, `event is missing "pid"`);
+  }
+
+  const stream = readString(obj, "stream", method);
+  if (stream !== undefined && stream !== "stdout" && stream !== "stderr") {
+    throw new InvalidResponseError(method, `unknown output stream "${stream}"`);
+  }
+
+  const rawTimestamp = obj.timestamp;
+  const timestamp =
+    typeof rawTimestamp === "string"
+      ? Date.parse(rawTimestamp)
+      : readNumber(obj, "timestamp", method);
+
+  return {
+    type,
+    pid,
+    timestamp:
+      timestamp === undefined || Number.isNaN(timestamp)
+        ? Date.now()
+        : timestamp,
+    process,
+    exitCode: readNumber(obj, "exitCode", method),
+    signal: readString(obj, "signal", method),
+    stream,
+    data: readString(obj, "data", method),
+  };
+}
+
+/**
+ * Parse the result of the initialize handshake
+ */
+export function parseInitializeResult(value: unknown): ServerHandshake {
+  const method = "initialize";
+  const obj = expectObject(value, method);
+  const serverInfo =
+    obj.serverInfo === undefined || obj.serverInfo === null
+      ? {}
+      : expectObject(obj.serverInfo, method);
+  const capabilities =
+    obj.capabilities === undefined || obj.capabilities === null
+      ? {}
+      : expectObject(obj.capabilities, method);
+
+  return {
+    serverName: readString(serverInfo, "name", method),
+    serverVersion: readString(serverInfo, "version", method),
+    protocolVersion: readString(obj, "protocolVersion", method),
+    capabilities,
+  };
+}
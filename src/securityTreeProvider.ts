@@ -1,5 +1,5 @@
 import * as vscode from "vscode";
-import { MCPProcessClient } from "./mcpClient";
+import { MCPProcessClient, SecurityConfig } from "./mcpClient";
 import {
   ConnectionState,
   ConnectionStatus,
@@ -154,7 +154,9 @@ export class SecurityTreeDataProvider
     }
   }
 
-  private getAllowedExecutablesChildren(config: any): SecurityTreeItem[] {
+  private getAllowedExecutablesChildren(
+    config: Partial<SecurityConfig>
+  ): SecurityTreeItem[] {
     const executables = config.allowedExecutables || [];
 
     if (executables.length === 0) {
@@ -179,44 +181,48 @@ export class SecurityTreeDataProvider
     );
   }
 
-  private getResourceLimitsChildren(config: any): SecurityTreeItem[] {
+  private getResourceLimitsChildren(
+    config: Partial<SecurityConfig>
+  ): SecurityTreeItem[] {
     const limits = config.defaultResourceLimits || {};
 
     return [
       new SecurityTreeItem(
         "Max CPU Usage",
-        `${limits.maxCpuPercent || 80}%`,
+        formatLimit(limits.maxCpuPercent, "%"),
         vscode.TreeItemCollapsibleState.None,
         "limit"
       ),
       new SecurityTreeItem(
         "Max Memory",
-        `${limits.maxMemoryMB || 1024} MB`,
+        formatLimit(limits.maxMemoryMB, " MB"),
         vscode.TreeItemCollapsibleState.None,
         "limit"
       ),
       new SecurityTreeItem(
         "Max CPU Time",
-        `${limits.maxCpuTime || 300} seconds`,
+        formatLimit(limits.maxCpuTime, " seconds"),
         vscode.TreeItemCollapsibleState.None,
         "limit"
       ),
       new SecurityTreeItem(
         "Max Concurrent Processes",
-        `${config.maxConcurrentProcesses || 10}`,
+        formatLimit(config.maxConcurrentProcesses, ""),
         vscode.TreeItemCollapsibleState.None,
         "limit"
       ),
       new SecurityTreeItem(
         "Max Process Lifetime",
-        `${config.maxProcessLifetime || 3600} seconds`,
+        formatLimit(config.maxProcessLifetime, " seconds"),
         vscode.TreeItemCollapsibleState.None,
         "limit"
       ),
     ];
   }
 
-  private getSecurityFeaturesChildren(config: any): SecurityTreeItem[] {
+  private getSecurityFeaturesChildren(
+    config: Partial<SecurityConfig>
+  ): SecurityTreeItem[] {
     return [
       new SecurityTreeItem(
         "Block Shell Interpreters",
@@ -258,6 +264,21 @@ export class SecurityTreeDataProvider
   }
 }
 
+/**
+ * Format a configured limit for display
+ *
+ * A value of 0 means the server does not enforce the limit.
+ */
+export function formatLimit(value: number | undefined, unit: string): string {
+  if (value === undefined || value === null) {
+    return "Not set";
+  }
+  if (value === 0) {
+    return "Unlimited";
+  }
+  return `${value}${unit}`;
+}
+
 export class SecurityTreeItem extends vscode.TreeItem {
   constructor(
     public readonly label: string,
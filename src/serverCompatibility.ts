@@ -0,0 +1,131 @@
+/**
+ * Server Compatibility
+ *
+ * Checks the server identity and protocol version reported in the MCP
+ * initialize handshake against the range this extension is built for.
+ */
+
+import type { ServerHandshake } from "./mcpClient";
+
+/**
+ * Server package versions this extension works with (mirrors the
+ * @ai-capabilities-suite/mcp-process dependency range)
+ */
+export const COMPATIBLE_SERVER_RANGE = {
+  min: "1.5.10",
+  maxExclusive: "2.0.0",
+};
+
+/**
+ * npx version specifier used when pinning the server to a compatible release
+ */
+export const COMPATIBLE_SERVER_SPEC = `^${COMPATIBLE_SERVER_RANGE.min}`;
+
+/**
+ * MCP protocol revisions the client understands
+ */
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  "2024-11-05",
+  "2025-03-26",
+  "2025-06-18",
+];
+
+/**
+ * Raised when the connected server is outside the compatible range
+ */
+export class IncompatibleServerError extends Error {
+  constructor(
+    public readonly reason: string,
+    public readonly handshake?: ServerHandshake
+  ) {
+    super(`Incompatible MCP ACS Process server: ${reason}`);
+    this.name = "IncompatibleServerError";
+  }
+
+  get serverVersion(): string | undefined {
+    return this.handshake?.serverVersion;
+  }
+}
+
+/**
+ * Parse a `major.minor.patch` version, ignoring any prerelease or build tag
+ */
+export function parseVersion(
+  version: string
+): [number, number, number] | undefined {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)/.exec(version.trim());
+  if (!match) {
+    return undefined;
+  }
+  return [Number(match[1]), Number(match[2]), Number(match[3])];
+}
+
+/**
+ * Compare two parsed versions, returning a negative, zero or positive number
+ */
+export function compareVersions(
+  a: [number, number, number],
+  b: [number, number, number]
+): number {
+  for (let i = 0; i < 3; i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return 0;
+}
+
+/**
+ * Check a handshake against the compatible range
+ *
+ * Returns a description of the problem, or undefined when compatible. Servers
+ * that do not report a version are accepted, since older releases omitted it.
+ */
+export function checkServerCompatibility(
+  handshake: ServerHandshake
+): string | undefined {
+  if (
+    handshake.protocolVersion !== undefined &&
+    !SUPPORTED_PROTOCOL_VERSIONS.includes(handshake.protocolVersion)
+  ) {
+    return `protocol version ${
+      handshake.protocolVersion
+    } is not supported (supported: ${SUPPORTED_PROTOCOL_VERSIONS.join(", ")})`;
+  }
+
+  if (handshake.serverVersion === undefined) {
+    return undefined;
+  }
+
+  const version = parseVersion(handshake.serverVersion);
+  if (!version) {
+    return `server version "${handshake.serverVersion}" could not be parsed`;
+  }
+
+  const min = parseVersion(COMPATIBLE_SERVER_RANGE.min)!;
+  const maxExclusive = parseVersion(COMPATIBLE_SERVER_RANGE.maxExclusive)!;
+  if (
+    compareVersions(version, min) < 0 ||
+    compareVersions(version, maxExclusive) >= 0
+  ) {
+    return `server version ${handshake.serverVersion} is outside the supported range >=${COMPATIBLE_SERVER_RANGE.min} <${COMPATIBLE_SERVER_RANGE.maxExclusive}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Summarize advertised capabilities, e.g. "tools (listChanged), logging"
+ */
+export function describeCapabilities(
+  capabilities: Record<string, unknown>
+): string {
+  const entries = Object.entries(capabilities).map(([name, value]) => {
+    if (typeof value === "object" && value !== null) {
+      const features = Object.keys(value);
+      return features.length > 0 ? `${name} (${features.join(", ")})` : name;
+    }
+    return name;
+  });
+  return entries.length > 0 ? entries.join(", ") : "none";
+}
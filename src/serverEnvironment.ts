@@ -0,0 +1,151 @@
+/**
+ * Server Environment
+ *
+ * Controls what a spawned server process receives: its security
+ * configuration, written to a private temp file passed with `--config`, and
+ * its environment, either inherited in full or limited to an allowlist.
+ */
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+/**
+ * Prefix of the temp directories holding generated server configs
+ */
+export const CONFIG_DIR_PREFIX = "mcp-process-config-";
+
+const CONFIG_FILE_NAME = "config.json";
+
+/**
+ * Variables the server needs to start (via npx or directly) on each platform
+ */
+export const DEFAULT_ENVIRONMENT_ALLOWLIST = [
+  "PATH",
+  "HOME",
+  "USER",
+  "LOGNAME",
+  "SHELL",
+  "LANG",
+  "LC_ALL",
+  "TMPDIR",
+  "TEMP",
+  "TMP",
+  "NODE_OPTIONS",
+  "NODE_EXTRA_CA_CERTS",
+  "HTTP_PROXY",
+  "HTTPS_PROXY",
+  "NO_PROXY",
+  "USERPROFILE",
+  "USERNAME",
+  "APPDATA",
+  "LOCALAPPDATA",
+  "SystemRoot",
+  "ComSpec",
+  "PATHEXT",
+];
+
+/**
+ * Copy the defined variables of an environment
+ */
+export function copyEnvironment(
+  parentEnv: NodeJS.ProcessEnv
+): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parentEnv)) {
+    if (value !== undefined) {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Keep only allowlisted variables. Names match case-insensitively on
+ * Windows, where environment variable names are case-insensitive.
+ */
+export function filterEnvironment(
+  parentEnv: NodeJS.ProcessEnv,
+  allowlist: string[],
+  caseInsensitive = process.platform === "win32"
+): Record<string, string> {
+  const normalize = (name: string) =>
+    caseInsensitive ? name.toUpperCase() : name;
+  const allowed = new Set(allowlist.map(normalize));
+
+  const env: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parentEnv)) {
+    if (value !== undefined && allowed.has(normalize(key))) {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Write a config to a new temp directory that only the current user can
+ * access, returning the file path. On Windows the per-user temp directory
+ * provides the access restriction; POSIX modes are applied elsewhere.
+ */
+export function writePrivateConfigFile(
+  config: unknown,
+  tmpDir: string = os.tmpdir()
+): string {
+  const dir = fs.mkdtempSync(path.join(tmpDir, CONFIG_DIR_PREFIX));
+  fs.chmodSync(dir, 0o700);
+
+  const filePath = path.join(dir, CONFIG_FILE_NAME);
+  fs.writeFileSync(filePath, JSON.stringify(config), {
+    mode: 0o600,
+    flag: "wx",
+  });
+  return filePath;
+}
+
+/**
+ * Remove a config file written by writePrivateConfigFile and its directory
+ */
+export function removePrivateConfigFile(filePath: string): void {
+  fs.rmSync(filePath, { force: true });
+
+  const dir = path.dirname(filePath);
+  if (path.basename(dir).startsWith(CONFIG_DIR_PREFIX)) {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Remove config directories left behind by sessions that ended without
+ * cleaning up (e.g. a crashed extension host). Directories younger than
+ * `maxAgeMs` may belong to a server that is still starting and are kept.
+ *
+ * @returns the number of directories removed
+ */
+export function sweepStaleConfigFiles(
+  maxAgeMs: number,
+  tmpDir: string = os.tmpdir(),
+  now: number = Date.now()
+): number {
+  let removed = 0;
+
+  for (const entry of fs.readdirSync(tmpDir)) {
+    if (!entry.startsWith(CONFIG_DIR_PREFIX)) {
+      continue;
+    }
+
+    const dir = path.join(tmpDir, entry);
+    try {
+      const stat = fs.statSync(dir);
+      const ownedByUser =
+        typeof process.getuid !== "function" || stat.uid === process.getuid();
+      if (ownedByUser && now - stat.mtimeMs > maxAgeMs) {
+        fs.rmSync(dir, { recursive: true, force: true });
+        removed++;
+      }
+    } catch {
+      // Another session removed it first
+    }
+  }
+
+  return removed;
+}
@@ -0,0 +1,225 @@
+/**
+ * Server Transport
+ *
+ * Settings parsing and wire helpers for attaching to an MCP ACS Process Server
+ * that is already running, instead of spawning a private one over stdio.
+ * Shared by MCPProcessClient and the transport bridge process, so this module
+ * must not depend on the vscode API.
+ */
+
+export type ServerTransport = "stdio" | "socket" | "tcp" | "sse";
+
+/**
+ * Where to find an already-running server
+ */
+export interface AttachTarget {
+  transport: Exclude<ServerTransport, "stdio">;
+  /** Socket path, `host:port`, or SSE URL depending on the transport */
+  address: string;
+}
+
+/**
+ * Exit code of the bridge when the server could not be reached at all
+ */
+export const BRIDGE_EXIT_UNAVAILABLE = 69;
+
+/**
+ * Exit code of the bridge when an established connection was lost
+ */
+export const BRIDGE_EXIT_CONNECTION_LOST = 75;
+
+/**
+ * Upper bound for the delay between reconnect attempts
+ */
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+const LOOPBACK_HOSTS = new Set(["localhost", "127.0.0.1", "::1", "[::1]"]);
+
+/**
+ * Resolve the attach target from the transport settings
+ *
+ * Returns undefined for the default stdio transport. Throws when the settings
+ * for the selected transport are missing or point outside this machine.
+ */
+export function resolveAttachTarget(
+  transport: string,
+  socketPath: string,
+  endpoint: string
+): AttachTarget | undefined {
+  switch (transport) {
+    case "stdio":
+      return undefined;
+    case "socket":
+      if (socketPath.trim().length === 0) {
+        throw new Error(
+          'mcp-process.server.socketPath must be set when server.transport is "socket"'
+        );
+      }
+      return { transport, address: socketPath.trim() };
+    case "tcp":
+      parseTcpEndpoint(endpoint);
+      return { transport, address: endpoint.trim() };
+    case "sse":
+      parseSseEndpoint(endpoint);
+      return { transport, address: endpoint.trim() };
+    default:
+      throw new Error(`Unknown server transport "${transport}"`);
+  }
+}
+
+/**
+ * Parse a `host:port` (optionally `tcp://host:port`) endpoint on the loopback
+ * interface
+ */
+export function parseTcpEndpoint(endpoint: string): {
+  host: string;
+  port: number;
+} {
+  const value = endpoint.trim().replace(/^tcp:\/\//, "");
+  const match = /^(\[[^\]]+\]|[^:]+):(\d+)$/.exec(value);
+  if (!match) {
+    throw new Error(
+      `Invalid TCP endpoint "${endpoint}" - expected host:port, e.g. 127.0.0.1:7777`
+    );
+  }
+
+  const host = match[1];
+  const port = Number(match[2]);
+  if (port < 1 || port > 65535) {
+    throw new Error(`Invalid TCP port ${match[2]} in "${endpoint}"`);
+  }
+  assertLoopback(host, endpoint);
+
+  return { host: host.replace(/^\[|\]$/g, ""), port };
+}
+
+/**
+ * Parse an HTTP-SSE endpoint URL on the loopback interface
+ */
+export function parseSseEndpoint(endpoint: string): URL {
+  let url: URL;
+  try {
+    url = new URL(endpoint.trim());
+  } catch {
+    throw new Error(
+      `Invalid SSE endpoint "${endpoint}" - expected a URL, e.g. http://127.0.0.1:7777/sse`
+    );
+  }
+
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`SSE endpoint "${endpoint}" must use http or https`);
+  }
+  assertLoopback(url.hostname, endpoint);
+
+  return url;
+}
+
+/**
+ * Resolve the message URL an SSE server announces in its `endpoint` event.
+ * It must stay on the event stream's origin, so a server cannot direct the
+ * client's messages to another host.
+ */
+export function resolveMessageEndpoint(announced: string, sseUrl: URL): URL {
+  let url: URL;
+  try {
+    url = new URL(announced, sseUrl);
+  } catch {
+    throw new Error(`Invalid message endpoint "${announced}"`);
+  }
+  if (url.origin !== sseUrl.origin) {
+    throw new Error(
+      `Message endpoint "${announced}" is not on the event stream's origin ${sseUrl.origin}`
+    );
+  }
+  return url;
+}
+
+function assertLoopback(host: string, endpoint: string): void {
+  if (!LOOPBACK_HOSTS.has(host.toLowerCase())) {
+    throw new Error(
+      `Endpoint "${endpoint}" is not on this machine - only localhost servers can be attached`
+    );
+  }
+}
+
+/**
+ * Describe a target for logs and diagnostics
+ */
+export function describeAttachTarget(target: AttachTarget | undefined): string {
+  if (!target) {
+    return "stdio (private server)";
+  }
+  return `${target.transport} ${target.address}`;
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (zero-based), with exponential
+ * backoff capped at 30 seconds
+ */
+export function reconnectDelay(baseDelayMs: number, attempt: number): number {
+  return Math.min(baseDelayMs * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+}
+
+/**
+ * Split newline-delimited JSON-RPC messages, keeping any incomplete tail
+ */
+export function splitLines(buffer: string): { lines: string[]; rest: string } {
+  const parts = buffer.split("\n");
+  const rest = parts.pop() ?? "";
+  return {
+    lines: parts.map((line) => line.replace(/\r$/, "")).filter((l) => l),
+    rest,
+  };
+}
+
+export interface SseEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Incremental parser for a text/event-stream body
+ */
+export class SseParser {
+  private buffer = "";
+
+  push(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+
+    let boundary = this.findBoundary();
+    while (boundary) {
+      const block = this.buffer.slice(0, boundary.index);
+      this.buffer = this.buffer.slice(boundary.index + boundary.length);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith(":")) {
+          continue;
+        }
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const value =
+          colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+        if (field === "event") {
+          event = value;
+        } else if (field === "data") {
+          data.push(value);
+        }
+      }
+
+      if (data.length > 0) {
+        events.push({ event, data: data.join("\n") });
+      }
+      boundary = this.findBoundary();
+    }
+
+    return events;
+  }
+
+  private findBoundary(): { index: number; length: number } | undefined {
+    const match = /\r?\n\r?\n/.exec(this.buffer);
+    return match ? { index: match.index, length: match[0].length } : undefined;
+  }
+}
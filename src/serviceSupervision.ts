@@ -0,0 +1,169 @@
+/**
+ * Service Supervision
+ *
+ * Restart policies for services: whether a service that ended is started
+ * again (`always`, `on-failure` or `never`), how long to wait first, and
+ * when to give up. Waits double with each restart in a row, up to a
+ * maximum; a service that keeps failing past `maxRestarts` restarts is in a
+ * crash loop and is left stopped. A run that lasts `STABLE_RUN_MS` starts
+ * the count afresh.
+ */
+
+import { formatDuration } from "./recentProcesses";
+
+export type RestartPolicy = "always" | "on-failure" | "never";
+
+export const RESTART_POLICIES: RestartPolicy[] = [
+  "on-failure",
+  "always",
+  "never",
+];
+
+export const RESTART_POLICY_LABELS: Record<RestartPolicy, string> = {
+  "on-failure": "Restart when it crashes or exits with an error",
+  always: "Restart whenever it ends, unless stopped from VS Code",
+  never: "Leave it stopped",
+};
+
+export interface RestartSettings {
+  policy: RestartPolicy;
+  /** Restarts in a row before giving up; 0 for no limit */
+  maxRestarts: number;
+  backoffInitialMs: number;
+  backoffMaxMs: number;
+}
+
+export interface ServiceDefinition {
+  name: string;
+  executable: string;
+  args: string[];
+  restart: RestartSettings;
+}
+
+export type ServiceStatus =
+  | "starting"
+  | "running"
+  | "backoff"
+  | "stopped"
+  | "crash-loop";
+
+export interface ServiceState {
+  definition: ServiceDefinition;
+  status: ServiceStatus;
+  pid?: number;
+  /** When the current or last run started */
+  startedAt?: number;
+  /** Automatic restarts since the service was started from VS Code */
+  restartCount: number;
+  /** Automatic restarts since the service last ran for `STABLE_RUN_MS` */
+  consecutiveRestarts: number;
+  lastExit?: { reason: string; failed: boolean; time: number };
+  /** While in backoff */
+  nextRestartAt?: number;
+  /** Set once stopped from VS Code, so the exit is not restarted */
+  stopRequested: boolean;
+}
+
+/**
+ * A run this long counts as healthy and resets the restart streak
+ */
+export const STABLE_RUN_MS = 60_000;
+
+export type RestartDecision =
+  | { restart: true; attempt: number; delayMs: number }
+  | { restart: false; status: "stopped" | "crash-loop" };
+
+/**
+ * Wait before restart attempt `attempt` (1-based)
+ */
+export function backoffDelay(
+  attempt: number,
+  settings: RestartSettings
+): number {
+  return Math.min(
+    settings.backoffMaxMs,
+    settings.backoffInitialMs * 2 ** Math.max(0, attempt - 1)
+  );
+}
+
+/**
+ * What to do after a service's process ended at `now`
+ */
+export function decideRestart(
+  state: ServiceState,
+  failed: boolean,
+  now: number
+): RestartDecision {
+  const settings = state.definition.restart;
+  if (
+    state.stopRequested ||
+    settings.policy === "never" ||
+    (settings.policy === "on-failure" && !failed)
+  ) {
+    return { restart: false, status: "stopped" };
+  }
+
+  const stable =
+    state.startedAt !== undefined && now - state.startedAt >= STABLE_RUN_MS;
+  const attempt = (stable ? 0 : state.consecutiveRestarts) + 1;
+  if (settings.maxRestarts > 0 && attempt > settings.maxRestarts) {
+    return { restart: false, status: "crash-loop" };
+  }
+  return { restart: true, attempt, delayMs: backoffDelay(attempt, settings) };
+}
+
+/**
+ * e.g. `on-failure, up to 5 restarts, backoff 1s to 1m 0s`
+ */
+export function describeRestartSettings(settings: RestartSettings): string {
+  if (settings.policy === "never") {
+    return "never";
+  }
+  const limit =
+    settings.maxRestarts > 0
+      ? `up to ${settings.maxRestarts} restarts`
+      : "no restart limit";
+  return `${settings.policy}, ${limit}, backoff ${formatDuration(
+    settings.backoffInitialMs
+  )} to ${formatDuration(settings.backoffMaxMs)}`;
+}
+
+/**
+ * One-line status for the Services view, e.g. `running · up 5m 2s · 3
+ * restarts`
+ */
+export function describeServiceState(state: ServiceState, now: number): string {
+  const parts: string[] = [];
+  switch (state.status) {
+    case "running":
+      parts.push(
+        state.startedAt !== undefined
+          ? `running · up ${formatDuration(now - state.startedAt)}`
+          : "running"
+      );
+      break;
+    case "backoff": {
+      const max = state.definition.restart.maxRestarts;
+      const attempt = state.consecutiveRestarts;
+      parts.push(
+        `waiting to restart (attempt ${attempt}${
+          max > 0 ? `/${max}` : ""
+        }, ${formatDuration(
+          backoffDelay(attempt, state.definition.restart)
+        )} backoff)`
+      );
+      break;
+    }
+    case "crash-loop":
+      parts.push(
+        `crash loop · gave up after ${state.consecutiveRestarts} restarts`
+      );
+      break;
+    default:
+      parts.push(state.status);
+  }
+  if (state.restartCount > 0 && state.status !== "crash-loop") {
+    parts.push(`${state.restartCount} restart(s)`);
+  }
+  return parts.join(" · ");
+}
@@ -0,0 +1,378 @@
+import * as vscode from "vscode";
+import { MCPProcessClient, ProcessInfo } from "./mcpClient";
+import {
+  RecentProcess,
+  describeExit,
+  endedWithFailure,
+} from "./recentProcesses";
+import {
+  RestartPolicy,
+  RestartSettings,
+  ServiceDefinition,
+  ServiceState,
+  decideRestart,
+  describeRestartSettings,
+} from "./serviceSupervision";
+
+/**
+ * ServiceSupervisor - Starts, stops and restarts services by policy
+ *
+ * Services are started on the server without its own auto-restart; when a
+ * service's process ends, the supervisor decides from the service's restart
+ * policy whether to start it again and after how long. Services that keep
+ * failing are marked as crash looping and reported once. Services started
+ * through the client directly are adopted with the `never` policy.
+ */
+export class ServiceSupervisor implements vscode.Disposable {
+  private client: MCPProcessClient | undefined;
+  private readonly services = new Map<string, ServiceState>();
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+
+  /**
+   * Fired whenever a service's state changes
+   */
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+  /**
+   * Switch to a new client. Services of the previous server are shown as
+   * stopped; relaunching them is offered by server recovery.
+   */
+  setMCPClient(client: MCPProcessClient | undefined): void {
+    if (client === this.client) {
+      return;
+    }
+    this.client = client;
+    for (const state of this.services.values()) {
+      this.clearTimer(state.definition.name);
+      if (state.status !== "stopped" && state.status !== "crash-loop") {
+        state.status = "stopped";
+        state.pid = undefined;
+        state.lastExit = {
+          reason: "server restarted",
+          failed: false,
+          time: Date.now(),
+        };
+      }
+    }
+    this.adoptClientServices();
+  }
+
+  getServices(): ServiceState[] {
+    return [...this.services.values()].sort((a, b) =>
+      a.definition.name.localeCompare(b.definition.name)
+    );
+  }
+
+  getService(name: string): ServiceState | undefined {
+    return this.services.get(name);
+  }
+
+  /**
+   * Restart settings from `mcp-process.services.*`
+   */
+  getDefaultRestartSettings(): RestartSettings {
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    return {
+      policy: config.get<RestartPolicy>("services.restartPolicy", "on-failure"),
+      maxRestarts: config.get<number>("services.maxRestarts", 5),
+      backoffInitialMs:
+        config.get<number>("services.backoffInitialSeconds", 1) * 1000,
+      backoffMaxMs: config.get<number>("services.backoffMaxSeconds", 60) * 1000,
+    };
+  }
+
+  /**
+   * Start a service. Restart settings not given are kept from an earlier
+   * start of the same service, or taken from the settings.
+   */
+  async start(
+    definition: Omit<ServiceDefinition, "restart"> & {
+      restart?: Partial<RestartSettings>;
+    },
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    const existing = this.services.get(definition.name);
+    this.clearTimer(definition.name);
+
+    const state: ServiceState = {
+      definition: {
+        ...definition,
+        restart: {
+          ...this.getDefaultRestartSettings(),
+          ...existing?.definition.restart,
+          ...definition.restart,
+        },
+      },
+      status: "starting",
+      restartCount: 0,
+      consecutiveRestarts: 0,
+      lastExit: existing?.lastExit,
+      stopRequested: false,
+    };
+    this.services.set(definition.name, state);
+    this.changeEmitter.fire();
+
+    try {
+      await this.launch(state, token);
+    } catch (error) {
+      state.status = "stopped";
+      state.lastExit = {
+        reason: `failed to start: ${(error as Error).message || error}`,
+        failed: true,
+        time: Date.now(),
+      };
+      this.changeEmitter.fire();
+      throw error;
+    }
+  }
+
+  /**
+   * Stop a service and keep it stopped whatever its policy
+   */
+  async stop(name: string, token?: vscode.CancellationToken): Promise<void> {
+    const state = this.services.get(name);
+    if (state) {
+      state.stopRequested = true;
+      this.clearTimer(name);
+    }
+
+    if (!state || state.status === "running" || state.status === "starting") {
+      if (!this.client) {
+        throw new Error("MCP ACS Process server not running");
+      }
+      await this.client.stopService({ name }, token);
+    } else {
+      // Its process already ended; just let the server forget it
+      await this.client?.stopService({ name }, token).catch(() => undefined);
+    }
+
+    if (state) {
+      state.status = "stopped";
+      state.pid = undefined;
+      state.nextRestartAt = undefined;
+      state.lastExit = { reason: "stopped", failed: false, time: Date.now() };
+      this.changeEmitter.fire();
+    }
+  }
+
+  /**
+   * Stop a service if it is running and start it again with the same
+   * definition, clearing a crash loop
+   */
+  async restart(name: string, token?: vscode.CancellationToken): Promise<void> {
+    const state = this.services.get(name);
+    if (!state) {
+      throw new Error(`Unknown service: ${name}`);
+    }
+    await this.stop(name, token);
+    await this.start(state.definition, token);
+  }
+
+  /**
+   * Whether a service comes back on its own after it ends
+   */
+  restartsAutomatically(name: string): boolean | undefined {
+    const state = this.services.get(name);
+    return state && state.definition.restart.policy !== "never";
+  }
+
+  /**
+   * Keep pids current from a process listing
+   */
+  observe(processes: ProcessInfo[]): void {
+    let changed = false;
+    for (const state of this.services.values()) {
+      if (state.status !== "running") {
+        continue;
+      }
+      const process = processes.find(
+        (p) =>
+          p.state === "running" &&
+          (p.service === state.definition.name || p.pid === state.pid)
+      );
+      if (process && process.pid !== state.pid) {
+        state.pid = process.pid;
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.changeEmitter.fire();
+    }
+  }
+
+  /**
+   * Services started through the client without the supervisor, e.g. by
+   * a language model tool before this extension knew about them
+   */
+  adoptClientServices(): void {
+    let changed = false;
+    for (const service of this.client?.getServices() ?? []) {
+      if (this.services.has(service.name)) {
+        continue;
+      }
+      this.services.set(service.name, {
+        definition: {
+          name: service.name,
+          executable: service.executable,
+          args: service.args,
+          restart: { ...this.getDefaultRestartSettings(), policy: "never" },
+        },
+        status: "running",
+        pid: service.pid,
+        startedAt: Date.now(),
+        restartCount: 0,
+        consecutiveRestarts: 0,
+        stopRequested: false,
+      });
+      changed = true;
+    }
+    if (changed) {
+      this.changeEmitter.fire();
+    }
+  }
+
+  /**
+   * Apply the restart policy when a service's process ends
+   */
+  handleProcessEnd(entry: RecentProcess): void {
+    const state = [...this.services.values()].find(
+      (s) => s.status === "running" && s.pid === entry.pid
+    );
+    if (!state) {
+      return;
+    }
+
+    // Terminating the service's process from the process list stops it
+    // like Stop Service, whatever its restart policy
+    if (entry.terminationRequested) {
+      state.stopRequested = true;
+    }
+
+    const failed = endedWithFailure(entry);
+    state.lastExit = {
+      reason: describeExit(entry),
+      failed,
+      time: entry.endTime,
+    };
+    this.scheduleRestart(state, failed, entry.endTime);
+  }
+
+  dispose(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.changeEmitter.dispose();
+  }
+
+  private scheduleRestart(
+    state: ServiceState,
+    failed: boolean,
+    now: number
+  ): void {
+    const name = state.definition.name;
+    const decision = decideRestart(state, failed, now);
+    state.pid = undefined;
+
+    if (!decision.restart) {
+      state.status = decision.status;
+      this.changeEmitter.fire();
+      if (decision.status === "crash-loop") {
+        void this.reportCrashLoop(state);
+      }
+      return;
+    }
+
+    state.status = "backoff";
+    state.consecutiveRestarts = decision.attempt;
+    state.nextRestartAt = now + decision.delayMs;
+    this.outputChannel.appendLine(
+      `Service ${name} ended (${state.lastExit?.reason}); restarting in ${decision.delayMs} ms, attempt ${decision.attempt}`
+    );
+    this.changeEmitter.fire();
+
+    this.timers.set(
+      name,
+      setTimeout(() => {
+        this.timers.delete(name);
+        void this.restartAfterBackoff(state);
+      }, Math.max(0, state.nextRestartAt - Date.now()))
+    );
+  }
+
+  private async restartAfterBackoff(state: ServiceState): Promise<void> {
+    if (state.status !== "backoff" || state.stopRequested) {
+      return;
+    }
+    const name = state.definition.name;
+    try {
+      // Forget the ended service on the server before starting it again
+      await this.client?.stopService({ name }).catch(() => undefined);
+      await this.launch(state);
+      state.restartCount++;
+      this.outputChannel.appendLine(`Service ${name} restarted`);
+    } catch (error) {
+      state.lastExit = {
+        reason: `failed to restart: ${(error as Error).message || error}`,
+        failed: true,
+        time: Date.now(),
+      };
+      this.outputChannel.appendLine(
+        `Service ${name}: ${state.lastExit.reason}`
+      );
+      this.scheduleRestart(state, true, Date.now());
+    }
+  }
+
+  private async launch(
+    state: ServiceState,
+    token?: vscode.CancellationToken
+  ): Promise<void> {
+    if (!this.client) {
+      throw new Error("MCP ACS Process server not running");
+    }
+    const { name, executable, args } = state.definition;
+    await this.client.startService(
+      { name, executable, args, autoRestart: false },
+      token
+    );
+    state.status = "running";
+    state.startedAt = Date.now();
+    state.nextRestartAt = undefined;
+    state.pid = this.client.getServices().find((s) => s.name === name)?.pid;
+    this.changeEmitter.fire();
+  }
+
+  private async reportCrashLoop(state: ServiceState): Promise<void> {
+    const name = state.definition.name;
+    this.outputChannel.appendLine(
+      `Service ${name} is crash looping (${describeRestartSettings(
+        state.definition.restart
+      )}); last exit: ${state.lastExit?.reason}`
+    );
+    const action = await vscode.window.showErrorMessage(
+      `Service ${name} keeps failing and was not restarted after ${state.consecutiveRestarts} attempt(s). Last exit: ${state.lastExit?.reason}.`,
+      "Restart",
+      "Show Output"
+    );
+    if (action === "Restart") {
+      await vscode.commands.executeCommand("mcp-process.restartService", {
+        name,
+      });
+    } else if (action === "Show Output") {
+      this.outputChannel.show();
+    }
+  }
+
+  private clearTimer(name: string): void {
+    const timer = this.timers.get(name);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(name);
+    }
+  }
+}
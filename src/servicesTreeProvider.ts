@@ -0,0 +1,151 @@
+import * as vscode from "vscode";
+import { formatCommandLine } from "./commandLine";
+import { DetailTreeItem } from "./processTreeProvider";
+import { formatDuration } from "./recentProcesses";
+import { ServiceSupervisor } from "./serviceSupervisor";
+import {
+  ServiceState,
+  describeRestartSettings,
+  describeServiceState,
+} from "./serviceSupervision";
+
+/**
+ * ServicesTreeDataProvider - Services with their restart state
+ *
+ * Lists every service the supervisor knows about with its status, uptime
+ * and restart count; expanding one shows its restart policy, last exit and
+ * command. Redraws when a service changes and on `refresh()`, which keeps
+ * uptimes current alongside the process list.
+ */
+export class ServicesTreeDataProvider
+  implements vscode.TreeDataProvider<vscode.TreeItem>, vscode.Disposable
+{
+  private _onDidChangeTreeData = new vscode.EventEmitter<
+    vscode.TreeItem | undefined | null | void
+  >();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly subscription: vscode.Disposable;
+
+  constructor(private readonly supervisor: ServiceSupervisor) {
+    this.subscription = supervisor.onDidChange(() => this.refresh());
+  }
+
+  dispose(): void {
+    this.subscription.dispose();
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: vscode.TreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: vscode.TreeItem): vscode.TreeItem[] {
+    if (element instanceof ServiceStateTreeItem) {
+      return getServiceDetails(element.state, Date.now());
+    }
+    if (element instanceof DetailTreeItem) {
+      return element.children;
+    }
+    if (element) {
+      return [];
+    }
+    const now = Date.now();
+    return this.supervisor
+      .getServices()
+      .map((state) => new ServiceStateTreeItem(state, now));
+  }
+}
+
+/**
+ * ServiceStateTreeItem - A supervised service
+ */
+export class ServiceStateTreeItem extends vscode.TreeItem {
+  readonly name: string;
+
+  constructor(public readonly state: ServiceState, now: number) {
+    super(state.definition.name, vscode.TreeItemCollapsibleState.Collapsed);
+    this.name = state.definition.name;
+    this.description = describeServiceState(state, now);
+    this.tooltip = [
+      `Service: ${this.name}`,
+      `Status: ${this.description}`,
+      `Restart policy: ${describeRestartSettings(state.definition.restart)}`,
+      state.lastExit ? `Last exit: ${state.lastExit.reason}` : "",
+    ]
+      .filter((line) => line.length > 0)
+      .join("\n");
+
+    switch (state.status) {
+      case "running":
+        this.iconPath = new vscode.ThemeIcon(
+          "server-process",
+          new vscode.ThemeColor("testing.iconPassed")
+        );
+        break;
+      case "starting":
+      case "backoff":
+        this.iconPath = new vscode.ThemeIcon("sync~spin");
+        break;
+      case "crash-loop":
+        this.iconPath = new vscode.ThemeIcon(
+          "error",
+          new vscode.ThemeColor("testing.iconFailed")
+        );
+        break;
+      default:
+        this.iconPath = new vscode.ThemeIcon(
+          "debug-stop",
+          new vscode.ThemeColor("testing.iconSkipped")
+        );
+    }
+    this.contextValue =
+      state.status === "running" ||
+      state.status === "starting" ||
+      state.status === "backoff"
+        ? "activeService"
+        : "stoppedService";
+  }
+}
+
+function getServiceDetails(state: ServiceState, now: number): DetailTreeItem[] {
+  const { definition } = state;
+  return [
+    new DetailTreeItem("Status", describeServiceState(state, now), "pulse"),
+    new DetailTreeItem(
+      "Uptime",
+      state.status === "running" && state.startedAt !== undefined
+        ? formatDuration(now - state.startedAt)
+        : "not running",
+      "watch"
+    ),
+    new DetailTreeItem(
+      "PID",
+      state.pid?.toString() ?? "unknown",
+      "symbol-number"
+    ),
+    new DetailTreeItem(
+      "Restart Policy",
+      describeRestartSettings(definition.restart),
+      "debug-restart"
+    ),
+    new DetailTreeItem("Restarts", `${state.restartCount}`, "history"),
+    new DetailTreeItem(
+      "Last Exit",
+      state.lastExit
+        ? `${state.lastExit.reason}, ${formatDuration(
+            now - state.lastExit.time
+          )} ago`
+        : "none",
+      state.lastExit?.failed ? "warning" : "info"
+    ),
+    new DetailTreeItem(
+      "Command",
+      formatCommandLine(definition.executable, definition.args),
+      "terminal"
+    ),
+  ];
+}
@@ -0,0 +1,170 @@
+/**
+ * Session Recording
+ *
+ * JSONL format for recorded JSON-RPC sessions and the matching logic used to
+ * replay them. A recording captures every request with its outcome, and every
+ * notification in either direction, so a user's session can be reproduced
+ * offline with the replay server. Free of vscode dependencies so the replay
+ * server can bundle it.
+ */
+
+/**
+ * One line of a recording
+ */
+export type SessionRecord =
+  | {
+      type: "request";
+      time: number;
+      method: string;
+      params?: unknown;
+      durationMs: number;
+      result?: unknown;
+      error?: { message: string; code?: number };
+    }
+  | {
+      type: "notification";
+      time: number;
+      /** Which side sent the notification */
+      from: "client" | "server";
+      method: string;
+      params?: unknown;
+    };
+
+/**
+ * Outcome of a replayed request
+ */
+export interface ReplayResponse {
+  result?: unknown;
+  error?: { message: string; code?: number };
+  /** Server notifications recorded after the response, in order */
+  notifications: Array<{ method: string; params?: unknown }>;
+}
+
+type RequestRecord = Extract<SessionRecord, { type: "request" }>;
+
+export function serializeRecord(record: SessionRecord): string {
+  return `${JSON.stringify(record)}\n`;
+}
+
+/**
+ * Parse a JSONL recording, skipping blank lines
+ */
+export function parseRecording(text: string): SessionRecord[] {
+  const records: SessionRecord[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim().length === 0) {
+      return;
+    }
+    let record: any;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Invalid recording at line ${index + 1}: ${error}`);
+    }
+    if (
+      (record?.type !== "request" && record?.type !== "notification") ||
+      typeof record.method !== "string"
+    ) {
+      throw new Error(
+        `Invalid recording at line ${
+          index + 1
+        }: expected a request or notification`
+      );
+    }
+    records.push(record);
+  });
+  return records;
+}
+
+/**
+ * JSON serialization with sorted keys, so equal params compare equal
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (typeof value === "object" && value !== null) {
+    const entries = Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify(
+            (value as Record<string, unknown>)[key]
+          )}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * Tool name of a tools/call request, used for loose matching
+ */
+function toolName(method: string, params: unknown): string | undefined {
+  if (method !== "tools/call" || typeof params !== "object" || !params) {
+    return undefined;
+  }
+  const name = (params as Record<string, unknown>).name;
+  return typeof name === "string" ? name : undefined;
+}
+
+/**
+ * Answers requests from a recording
+ *
+ * Requests are matched in order of preference: an unused recording with the
+ * same method and params, an unused recording of the same method (and tool),
+ * then the last recording of that method - so repeated polling keeps
+ * getting an answer.
+ */
+export class ReplaySession {
+  private readonly requests: Array<{
+    record: RequestRecord;
+    notifications: Array<{ method: string; params?: unknown }>;
+    used: boolean;
+  }> = [];
+
+  constructor(records: SessionRecord[]) {
+    for (const record of records) {
+      if (record.type === "request") {
+        this.requests.push({ record, notifications: [], used: false });
+      } else if (record.from === "server" && this.requests.length > 0) {
+        this.requests[this.requests.length - 1].notifications.push({
+          method: record.method,
+          params: record.params,
+        });
+      }
+    }
+  }
+
+  respond(method: string, params: unknown): ReplayResponse | undefined {
+    const key = stableStringify(params ?? {});
+    const tool = toolName(method, params);
+    const sameKind = (record: RequestRecord) =>
+      record.method === method &&
+      toolName(record.method, record.params) === tool;
+
+    const match =
+      this.requests.find(
+        (entry) =>
+          !entry.used &&
+          sameKind(entry.record) &&
+          stableStringify(entry.record.params ?? {}) === key
+      ) ??
+      this.requests.find((entry) => !entry.used && sameKind(entry.record)) ??
+      [...this.requests].reverse().find((entry) => sameKind(entry.record));
+
+    if (!match) {
+      return undefined;
+    }
+
+    // Notifications are only replayed the first time a recording is used
+    const notifications = match.used ? [] : match.notifications;
+    match.used = true;
+
+    return {
+      result: match.record.result,
+      error: match.record.error,
+      notifications,
+    };
+  }
+}
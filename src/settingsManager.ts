@@ -1655,6 +1655,12 @@ export class SettingsManager {
         configPath: config.get("server.configPath", ""),
         autoStart: config.get("server.autoStart", true),
         logLevel: config.get("server.logLevel", "info"),
+        transport: config.get("server.transport", "stdio"),
+        socketPath: config.get("server.socketPath", ""),
+        endpoint: config.get("server.endpoint", ""),
+        version: config.get("server.version", ""),
+        inheritEnvironment: config.get("server.inheritEnvironment", true),
+        environmentAllowlist: config.get("server.environmentAllowlist"),
       },
 
       // UI settings
@@ -1666,6 +1672,7 @@ export class SettingsManager {
           "ui.confirmDangerousOperations",
           true
         ),
+        terminalCloseAction: config.get("ui.terminalCloseAction", "ask"),
       },
 
       // Security configuration (all settings)
@@ -1903,6 +1910,24 @@ export class SettingsManager {
         serverSettings.logLevel
       );
     }
+
+    for (const key of [
+      "transport",
+      "socketPath",
+      "endpoint",
+      "version",
+      "inheritEnvironment",
+      "environmentAllowlist",
+    ]) {
+      if (serverSettings[key] !== undefined) {
+        await config.update(
+          `server.${key}`,
+          serverSettings[key],
+          vscode.ConfigurationTarget.Global
+        );
+        await this.waitForConfigChange(`server.${key}`, serverSettings[key]);
+      }
+    }
   }
 
   /**
@@ -1958,6 +1983,18 @@ export class SettingsManager {
         uiSettings.confirmDangerousOperations
       );
     }
+
+    if (uiSettings.terminalCloseAction !== undefined) {
+      await config.update(
+        "ui.terminalCloseAction",
+        uiSettings.terminalCloseAction,
+        vscode.ConfigurationTarget.Global
+      );
+      await this.waitForConfigChange(
+        "ui.terminalCloseAction",
+        uiSettings.terminalCloseAction
+      );
+    }
   }
 
   /**
@@ -0,0 +1,377 @@
+import * as vscode from "vscode";
+import {
+  CommandLineSyntaxError,
+  parseArguments,
+  parseAssignments,
+} from "./commandLine";
+import type { ProcessStartParams } from "./mcpClient";
+import type { ResourceLimits } from "./settingsManager";
+
+/**
+ * Everything entered in the wizard, kept as typed so the wizard can be
+ * reopened with the same values after a pre-flight check fails
+ */
+export interface StartProcessWizardState {
+  executable: string;
+  args: string;
+  cwd: string;
+  env: string;
+  resourceLimits: string;
+  timeoutSeconds: string;
+  captureOutput: boolean;
+}
+
+const RESOURCE_LIMIT_KEYS: Array<keyof ResourceLimits> = [
+  "maxCpuPercent",
+  "maxMemoryMB",
+  "maxFileDescriptors",
+  "maxCpuTime",
+  "maxProcesses",
+];
+
+const BACK = Symbol("back");
+
+type StepResult = "next" | typeof BACK | undefined;
+
+/**
+ * Build start parameters from the wizard's values
+ *
+ * @throws CommandLineSyntaxError if a value does not parse
+ */
+export function toStartParams(
+  state: StartProcessWizardState
+): ProcessStartParams {
+  const params: ProcessStartParams = {
+    executable: state.executable.trim(),
+    args: parseArguments(state.args),
+    captureOutput: state.captureOutput,
+  };
+  if (state.cwd.trim()) {
+    params.cwd = state.cwd.trim();
+  }
+  const env = parseAssignments(state.env);
+  if (Object.keys(env).length > 0) {
+    params.env = env;
+  }
+  const resourceLimits = parseResourceLimits(state.resourceLimits);
+  if (Object.keys(resourceLimits).length > 0) {
+    params.resourceLimits = resourceLimits;
+  }
+  if (state.timeoutSeconds.trim()) {
+    params.timeout = parsePositiveNumber(state.timeoutSeconds) * 1000;
+  }
+  return params;
+}
+
+function parseResourceLimits(input: string): ResourceLimits {
+  const limits: ResourceLimits = {};
+  for (const [key, value] of Object.entries(parseAssignments(input))) {
+    if (!RESOURCE_LIMIT_KEYS.includes(key as keyof ResourceLimits)) {
+      throw new CommandLineSyntaxError(
+        `Unknown limit "${key}", expected one of ${RESOURCE_LIMIT_KEYS.join(
+          ", "
+        )}`
+      );
+    }
+    limits[key as keyof ResourceLimits] = parsePositiveNumber(value);
+  }
+  return limits;
+}
+
+function parsePositiveNumber(value: string): number {
+  const number = Number(value.trim());
+  if (!Number.isFinite(number) || number <= 0) {
+    throw new CommandLineSyntaxError(`"${value}" is not a positive number`);
+  }
+  return number;
+}
+
+/**
+ * Message for invalid input, or undefined when the input parses
+ */
+function syntaxError(parse: () => unknown): string | undefined {
+  try {
+    parse();
+    return undefined;
+  } catch (error: any) {
+    return error.message || String(error);
+  }
+}
+
+/**
+ * StartProcessWizard - Multi-step input for starting a process
+ *
+ * Steps through the executable (suggesting allowlisted ones), arguments with
+ * shell-style quoting, working directory, environment, resource limits,
+ * timeout and output capture. Each step after the first has a Back button.
+ */
+export class StartProcessWizard {
+  private static readonly TITLE = "Start Process";
+  private static readonly TOTAL_STEPS = 7;
+
+  private readonly state: StartProcessWizardState;
+
+  constructor(
+    private readonly allowedExecutables: string[],
+    private readonly workspaceFolders: readonly vscode.WorkspaceFolder[],
+    initial?: StartProcessWizardState
+  ) {
+    this.state = initial
+      ? { ...initial }
+      : {
+          executable: "",
+          args: "",
+          cwd: workspaceFolders[0]?.uri.fsPath ?? "",
+          env: "",
+          resourceLimits: "",
+          timeoutSeconds: "",
+          captureOutput: true,
+        };
+  }
+
+  /**
+   * Run the wizard
+   *
+   * @returns the entered values, or undefined if the wizard was dismissed
+   */
+  async run(): Promise<StartProcessWizardState | undefined> {
+    const steps: Array<(step: number) => Promise<StepResult>> = [
+      (step) => this.pickExecutable(step),
+      (step) =>
+        this.input(step, "args", {
+          prompt: "Arguments, quoted as in a shell",
+          placeholder: `e.g. script.js --name "two words"`,
+          validate: (value) => syntaxError(() => parseArguments(value)),
+        }),
+      (step) => this.pickWorkingDirectory(step),
+      (step) =>
+        this.input(step, "env", {
+          prompt: "Environment variables as NAME=value, separated by spaces",
+          placeholder: "e.g. NODE_ENV=production DEBUG='app:*'",
+          validate: (value) => syntaxError(() => parseAssignments(value)),
+        }),
+      (step) =>
+        this.input(step, "resourceLimits", {
+          prompt: `Resource limits as NAME=value (${RESOURCE_LIMIT_KEYS.join(
+            ", "
+          )}); leave empty for the defaults`,
+          placeholder: "e.g. maxCpuPercent=50 maxMemoryMB=512",
+          validate: (value) => syntaxError(() => parseResourceLimits(value)),
+        }),
+      (step) =>
+        this.input(step, "timeoutSeconds", {
+          prompt: "Timeout in seconds; leave empty for no timeout",
+          placeholder: "e.g. 300",
+          validate: (value) =>
+            value.trim()
+              ? syntaxError(() => parsePositiveNumber(value))
+              : undefined,
+        }),
+      (step) => this.pickCaptureOutput(step),
+    ];
+
+    let index = 0;
+    while (index < steps.length) {
+      const result = await steps[index](index + 1);
+      if (result === undefined) {
+        return undefined;
+      }
+      index = result === BACK ? Math.max(0, index - 1) : index + 1;
+    }
+    return this.state;
+  }
+
+  private async pickExecutable(step: number): Promise<StepResult> {
+    const suggestions: vscode.QuickPickItem[] = this.allowedExecutables
+      .filter((entry) => !entry.includes("*"))
+      .map((entry) => ({ label: entry, description: "allowed" }));
+
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.placeholder =
+      suggestions.length > 0
+        ? "Pick an allowed executable or type a name or path"
+        : "Type an executable name or path, e.g. node, python3, npm";
+    quickPick.value = this.state.executable;
+    const updateItems = () => {
+      const typed = quickPick.value.trim();
+      quickPick.items =
+        typed && !suggestions.some((item) => item.label === typed)
+          ? [{ label: typed }, ...suggestions]
+          : suggestions;
+    };
+    updateItems();
+
+    return this.show(
+      quickPick,
+      step,
+      () => {
+        const executable =
+          quickPick.selectedItems[0]?.label ?? quickPick.value.trim();
+        if (!executable) {
+          return false;
+        }
+        this.state.executable = executable;
+        return true;
+      },
+      updateItems
+    );
+  }
+
+  private async pickWorkingDirectory(step: number): Promise<StepResult> {
+    const browse: vscode.QuickPickItem = {
+      label: "$(folder-opened) Browse...",
+      alwaysShow: true,
+    };
+    const folders: vscode.QuickPickItem[] = this.workspaceFolders.map(
+      (folder) => ({
+        label: folder.uri.fsPath,
+        description: folder.name,
+      })
+    );
+
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.placeholder = "Pick or type the working directory";
+    quickPick.value = this.state.cwd;
+    const updateItems = () => {
+      const typed = quickPick.value.trim();
+      quickPick.items = [
+        ...(typed && !folders.some((item) => item.label === typed)
+          ? [{ label: typed }]
+          : []),
+        ...folders,
+        browse,
+      ];
+    };
+    updateItems();
+
+    let browsed: string | undefined;
+    const result = await this.show(
+      quickPick,
+      step,
+      () => {
+        const picked = quickPick.selectedItems[0];
+        if (picked === browse) {
+          browsed = "";
+          return true;
+        }
+        this.state.cwd = picked?.label ?? quickPick.value.trim();
+        return true;
+      },
+      updateItems
+    );
+
+    if (result === "next" && browsed !== undefined) {
+      const uris = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: false,
+        defaultUri: this.workspaceFolders[0]?.uri,
+        openLabel: "Use as Working Directory",
+      });
+      if (!uris || uris.length === 0) {
+        // Dismissing the dialog returns to this step
+        return this.pickWorkingDirectory(step);
+      }
+      this.state.cwd = uris[0].fsPath;
+    }
+    return result;
+  }
+
+  private async pickCaptureOutput(step: number): Promise<StepResult> {
+    const capture: vscode.QuickPickItem = {
+      label: "Capture output",
+      detail: "Keep stdout and stderr for the output view and terminal",
+    };
+    const discard: vscode.QuickPickItem = {
+      label: "Don't capture output",
+      detail: "Discard stdout and stderr",
+    };
+
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.placeholder = "Capture the process's output?";
+    quickPick.items = [capture, discard];
+    quickPick.activeItems = [this.state.captureOutput ? capture : discard];
+
+    return this.show(quickPick, step, () => {
+      this.state.captureOutput = quickPick.selectedItems[0] !== discard;
+      return true;
+    });
+  }
+
+  private async input(
+    step: number,
+    key: "args" | "env" | "resourceLimits" | "timeoutSeconds",
+    options: {
+      prompt: string;
+      placeholder: string;
+      validate: (value: string) => string | undefined;
+    }
+  ): Promise<StepResult> {
+    const inputBox = vscode.window.createInputBox();
+    inputBox.prompt = options.prompt;
+    inputBox.placeholder = options.placeholder;
+    inputBox.value = this.state[key];
+    const validate = () => {
+      inputBox.validationMessage = options.validate(inputBox.value);
+    };
+    validate();
+
+    return this.show(
+      inputBox,
+      step,
+      () => {
+        validate();
+        if (inputBox.validationMessage) {
+          return false;
+        }
+        this.state[key] = inputBox.value;
+        return true;
+      },
+      validate
+    );
+  }
+
+  /**
+   * Show a step and wait for it to be accepted, left with Back or dismissed
+   *
+   * @param accept - stores the step's value, returning false to stay on it
+   * @param onChange - called as the value is edited
+   */
+  private show(
+    input: vscode.QuickPick<vscode.QuickPickItem> | vscode.InputBox,
+    step: number,
+    accept: () => boolean,
+    onChange?: () => void
+  ): Promise<StepResult> {
+    input.title = StartProcessWizard.TITLE;
+    input.step = step;
+    input.totalSteps = StartProcessWizard.TOTAL_STEPS;
+    input.ignoreFocusOut = true;
+    input.buttons = step > 1 ? [vscode.QuickInputButtons.Back] : [];
+
+    return new Promise<StepResult>((resolve) => {
+      let result: StepResult;
+      const disposables: vscode.Disposable[] = [
+        input.onDidTriggerButton((button) => {
+          if (button === vscode.QuickInputButtons.Back) {
+            result = BACK;
+            input.hide();
+          }
+        }),
+        input.onDidAccept(() => {
+          if (accept()) {
+            result = "next";
+            input.hide();
+          }
+        }),
+        input.onDidChangeValue(() => onChange?.()),
+        input.onDidHide(() => {
+          disposables.forEach((disposable) => disposable.dispose());
+          input.dispose();
+          resolve(result);
+        }),
+      ];
+      input.show();
+    });
+  }
+}
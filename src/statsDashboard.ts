@@ -0,0 +1,561 @@
+import * as vscode from "vscode";
+import * as crypto from "crypto";
+import {
+  MCPProcessClient,
+  ProcessStats,
+  ProcessStatsSample,
+  ResourceLimits,
+} from "./mcpClient";
+import {
+  ioRates,
+  mergeSamples,
+  samplesToCsv,
+  windowSamples,
+} from "./statsSeries";
+
+/**
+ * Samples kept per dashboard; an hour at the default refresh interval
+ */
+const MAX_SAMPLES = 1800;
+
+/**
+ * Longest wait between polls while they keep failing, in milliseconds
+ */
+const MAX_RETRY_DELAY = 60000;
+
+/**
+ * Time windows offered by the dashboard, in seconds; null shows everything
+ */
+const TIME_WINDOWS: Array<{ label: string; seconds: number | null }> = [
+  { label: "1 minute", seconds: 60 },
+  { label: "5 minutes", seconds: 300 },
+  { label: "15 minutes", seconds: 900 },
+  { label: "1 hour", seconds: 3600 },
+  { label: "All", seconds: null },
+];
+
+/**
+ * Messages posted by the dashboard webview
+ */
+type DashboardMessage =
+  | { type: "ready" }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "window"; seconds: number | null }
+  | { type: "export"; format: "csv" | "json" };
+
+/**
+ * StatsDashboard - Live resource charts for one process
+ *
+ * Starts from the history the server keeps, then polls process_get_stats at
+ * `ui.refreshInterval` until the process exits or polling is paused. Failed
+ * polls are retried with backoff while the process is still listed as
+ * running. The webview only draws what it is sent; windowing, rates and
+ * export happen here, and the webview runs under a CSP that allows nothing
+ * but its own nonce-tagged script and style.
+ */
+export class StatsDashboard implements vscode.Disposable {
+  private static readonly dashboards = new Map<number, StatsDashboard>();
+
+  private samples: ProcessStatsSample[] = [];
+  private state: string;
+  private windowSeconds: number | null = 300;
+  private paused = false;
+  private pollTimer?: NodeJS.Timeout;
+  private polling = false;
+  private failures = 0;
+  private disposed = false;
+  private error: string | undefined;
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /**
+   * Show the dashboard for a process, reusing an open one
+   */
+  static show(
+    client: MCPProcessClient,
+    pid: number,
+    initial: ProcessStats,
+    limits: ResourceLimits | undefined
+  ): StatsDashboard {
+    const existing = StatsDashboard.dashboards.get(pid);
+    if (existing) {
+      existing.panel.reveal();
+      return existing;
+    }
+    const dashboard = new StatsDashboard(client, pid, initial, limits);
+    StatsDashboard.dashboards.set(pid, dashboard);
+    return dashboard;
+  }
+
+  private readonly panel: vscode.WebviewPanel;
+
+  private constructor(
+    private readonly client: MCPProcessClient,
+    private readonly pid: number,
+    initial: ProcessStats,
+    private readonly limits: ResourceLimits | undefined
+  ) {
+    this.state = initial.state ?? "running";
+    this.addStats(initial);
+
+    this.panel = vscode.window.createWebviewPanel(
+      "processStats",
+      `Process ${pid} Statistics`,
+      vscode.ViewColumn.One,
+      { enableScripts: true, localResourceRoots: [] }
+    );
+    this.panel.webview.html = getDashboardHtml(
+      pid,
+      crypto.randomBytes(16).toString("base64")
+    );
+
+    this.disposables.push(
+      this.panel.onDidDispose(() => this.dispose()),
+      this.panel.webview.onDidReceiveMessage((message: DashboardMessage) =>
+        this.handleMessage(message)
+      ),
+      this.client.onProcessEvent((event) => {
+        if (
+          event.pid === this.pid &&
+          (event.type === "exited" || event.type === "crashed")
+        ) {
+          this.state = event.type;
+          this.stopPolling();
+          this.postUpdate();
+        }
+      })
+    );
+
+    if (this.state === "running") {
+      this.startPolling();
+    }
+  }
+
+  dispose(): void {
+    StatsDashboard.dashboards.delete(this.pid);
+    this.disposed = true;
+    this.stopPolling();
+    this.disposables.forEach((disposable) => disposable.dispose());
+    this.disposables.length = 0;
+  }
+
+  private async handleMessage(message: DashboardMessage): Promise<void> {
+    switch (message.type) {
+      case "ready":
+        break;
+      case "pause":
+        this.paused = true;
+        this.stopPolling();
+        break;
+      case "resume":
+        this.paused = false;
+        // Fill the gap from the server's history before polling again
+        await this.poll(true);
+        this.startPolling();
+        break;
+      case "window":
+        this.windowSeconds = message.seconds;
+        break;
+      case "export":
+        await this.export(message.format);
+        return;
+    }
+    this.postUpdate();
+  }
+
+  private startPolling(): void {
+    if (
+      this.pollTimer ||
+      this.disposed ||
+      this.paused ||
+      this.state !== "running"
+    ) {
+      return;
+    }
+    const interval = vscode.workspace
+      .getConfiguration("mcp-process")
+      .get<number>("ui.refreshInterval", 2000);
+    const delay = Math.min(interval * 2 ** this.failures, MAX_RETRY_DELAY);
+    this.pollTimer = setTimeout(async () => {
+      this.pollTimer = undefined;
+      await this.poll(false);
+      this.startPolling();
+    }, delay);
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+  }
+
+  private async poll(includeHistory: boolean): Promise<void> {
+    if (this.polling || this.state !== "running") {
+      return;
+    }
+    this.polling = true;
+    try {
+      const stats = await this.client.getProcessStats(
+        { pid: this.pid, includeHistory },
+        undefined,
+        "background"
+      );
+      this.error = undefined;
+      this.failures = 0;
+      this.addStats(stats);
+      if (stats.state && stats.state !== "running") {
+        this.state = stats.state;
+        this.stopPolling();
+      }
+    } catch (error: any) {
+      // Keep what was collected; stop only once the process is gone
+      this.error = error.message || String(error);
+      this.failures++;
+      const state = await this.getListedState();
+      if (state !== "running") {
+        this.state = state;
+        this.stopPolling();
+      }
+    } finally {
+      this.polling = false;
+    }
+    this.postUpdate();
+  }
+
+  /**
+   * The process's state in the server's process list, "unavailable" when it
+   * is no longer listed, or "running" when the server cannot be asked
+   */
+  private async getListedState(): Promise<string> {
+    try {
+      const processes = await this.client.listProcesses(
+        undefined,
+        "background"
+      );
+      return (
+        processes.find((info) => info.pid === this.pid)?.state ?? "unavailable"
+      );
+    } catch {
+      return "running";
+    }
+  }
+
+  private addStats(stats: ProcessStats): void {
+    const current: ProcessStatsSample = {
+      timestamp: Date.now(),
+      cpuPercent: stats.cpuPercent,
+      memoryMB: stats.memoryMB,
+      threadCount: stats.threadCount,
+      ioRead: stats.ioRead,
+      ioWrite: stats.ioWrite,
+    };
+    this.samples = mergeSamples(
+      this.samples,
+      [...(stats.history ?? []), current],
+      MAX_SAMPLES
+    );
+  }
+
+  private visibleSamples(): ProcessStatsSample[] {
+    return windowSamples(
+      this.samples,
+      this.windowSeconds === null ? undefined : this.windowSeconds * 1000
+    );
+  }
+
+  private postUpdate(): void {
+    const samples = this.visibleSamples();
+    void this.panel.webview.postMessage({
+      type: "update",
+      state: this.state,
+      paused: this.paused,
+      error: this.error,
+      windowSeconds: this.windowSeconds,
+      samples,
+      rates: ioRates(samples),
+      limits: this.limits ?? {},
+    });
+  }
+
+  private async export(format: "csv" | "json"): Promise<void> {
+    const samples = this.visibleSamples();
+    const defaultFolder = vscode.workspace.workspaceFolders?.[0]?.uri;
+    const fileName = `process-${this.pid}-stats.${format}`;
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: defaultFolder
+        ? vscode.Uri.joinPath(defaultFolder, fileName)
+        : undefined,
+      filters:
+        format === "csv"
+          ? { "CSV files": ["csv"] }
+          : { "JSON files": ["json"] },
+      saveLabel: "Export Statistics",
+    });
+    if (!uri) {
+      return;
+    }
+
+    const content =
+      format === "csv"
+        ? samplesToCsv(samples)
+        : `${JSON.stringify(
+            { pid: this.pid, limits: this.limits ?? {}, samples },
+            null,
+            2
+          )}\n`;
+    try {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+      vscode.window.showInformationMessage(
+        `Exported ${samples.length} samples to ${uri.fsPath}`
+      );
+    } catch (error: any) {
+      vscode.window.showErrorMessage(
+        `Failed to export statistics: ${error.message || error}`
+      );
+    }
+  }
+}
+
+function getDashboardHtml(pid: number, nonce: string): string {
+  const windowOptions = TIME_WINDOWS.map(
+    ({ label, seconds }) =>
+      `<option value="${seconds ?? "all"}"${
+        seconds === 300 ? " selected" : ""
+      }>${label}</option>`
+  ).join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+  <style nonce="${nonce}">
+    body {
+      font-family: var(--vscode-font-family);
+      padding: 20px;
+      color: var(--vscode-foreground);
+      background-color: var(--vscode-editor-background);
+    }
+    h1 {
+      color: var(--vscode-textLink-foreground);
+      border-bottom: 1px solid var(--vscode-panel-border);
+      padding-bottom: 10px;
+    }
+    .toolbar {
+      display: flex;
+      gap: 8px;
+      align-items: center;
+      margin-bottom: 16px;
+    }
+    button, select {
+      font-family: inherit;
+      color: var(--vscode-button-foreground);
+      background: var(--vscode-button-background);
+      border: none;
+      padding: 4px 10px;
+    }
+    select {
+      color: var(--vscode-dropdown-foreground);
+      background: var(--vscode-dropdown-background);
+    }
+    #status {
+      color: var(--vscode-descriptionForeground);
+      margin-left: auto;
+    }
+    .stat-grid {
+      display: grid;
+      grid-template-columns: repeat(2, 1fr);
+      gap: 20px;
+    }
+    .stat-card {
+      background: var(--vscode-editor-inactiveSelectionBackground);
+      padding: 15px;
+      border-radius: 5px;
+      border: 1px solid var(--vscode-panel-border);
+    }
+    .stat-label {
+      font-size: 12px;
+      color: var(--vscode-descriptionForeground);
+      text-transform: uppercase;
+      margin-bottom: 5px;
+    }
+    .stat-value {
+      font-size: 20px;
+      font-weight: bold;
+      color: var(--vscode-textLink-foreground);
+    }
+    canvas {
+      width: 100%;
+      height: 160px;
+      margin-top: 8px;
+    }
+  </style>
+</head>
+<body>
+  <h1>📊 Process ${pid} Statistics</h1>
+  <div class="toolbar">
+    <button id="pause">Pause</button>
+    <select id="window">${windowOptions}</select>
+    <button id="export-csv">Export CSV</button>
+    <button id="export-json">Export JSON</button>
+    <span id="status"></span>
+  </div>
+  <div class="stat-grid">
+    <div class="stat-card">
+      <div class="stat-label">CPU Usage</div>
+      <div class="stat-value" id="cpu-value">-</div>
+      <canvas id="cpu-chart"></canvas>
+    </div>
+    <div class="stat-card">
+      <div class="stat-label">Memory Usage</div>
+      <div class="stat-value" id="memory-value">-</div>
+      <canvas id="memory-chart"></canvas>
+    </div>
+    <div class="stat-card">
+      <div class="stat-label">Thread Count</div>
+      <div class="stat-value" id="threads-value">-</div>
+      <canvas id="threads-chart"></canvas>
+    </div>
+    <div class="stat-card">
+      <div class="stat-label">I/O Read / Write</div>
+      <div class="stat-value" id="io-value">-</div>
+      <canvas id="io-chart"></canvas>
+    </div>
+  </div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const $ = (id) => document.getElementById(id);
+    let paused = false;
+    let latest;
+
+    $("pause").addEventListener("click", () =>
+      vscode.postMessage({ type: paused ? "resume" : "pause" })
+    );
+    $("window").addEventListener("change", (event) => {
+      const value = event.target.value;
+      vscode.postMessage({
+        type: "window",
+        seconds: value === "all" ? null : Number(value),
+      });
+    });
+    $("export-csv").addEventListener("click", () =>
+      vscode.postMessage({ type: "export", format: "csv" })
+    );
+    $("export-json").addEventListener("click", () =>
+      vscode.postMessage({ type: "export", format: "json" })
+    );
+    window.addEventListener("resize", () => latest && render(latest));
+    window.addEventListener("message", (event) => {
+      if (event.data.type === "update") {
+        latest = event.data;
+        render(latest);
+      }
+    });
+
+    function color(name, fallback) {
+      const value = getComputedStyle(document.body).getPropertyValue(name);
+      return value.trim() || fallback;
+    }
+
+    function formatRate(bytes) {
+      if (bytes >= 1024 * 1024) return (bytes / 1024 / 1024).toFixed(2) + " MB/s";
+      if (bytes >= 1024) return (bytes / 1024).toFixed(1) + " KB/s";
+      return bytes.toFixed(0) + " B/s";
+    }
+
+    function drawChart(canvas, series, limit, format) {
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+      const ctx = canvas.getContext("2d");
+      ctx.scale(ratio, ratio);
+      ctx.clearRect(0, 0, width, height);
+
+      const points = series.flatMap((s) => s.points);
+      if (points.length === 0) return;
+      const tMin = Math.min(...points.map((p) => p.t));
+      const tMax = Math.max(...points.map((p) => p.t));
+      // A limit of 0 or none means unlimited
+      const hasLimit = typeof limit === "number" && limit > 0;
+      let vMax = Math.max(...points.map((p) => p.v), hasLimit ? limit : 0);
+      vMax = vMax > 0 ? vMax * 1.1 : 1;
+      const x = (t) => (tMax === tMin ? width : ((t - tMin) / (tMax - tMin)) * width);
+      const y = (v) => height - 14 - (v / vMax) * (height - 24);
+
+      ctx.font = "10px " + getComputedStyle(document.body).fontFamily;
+      ctx.fillStyle = color("--vscode-descriptionForeground", "#888");
+      ctx.fillText(format(vMax), 2, 10);
+      ctx.fillText(new Date(tMin).toLocaleTimeString(), 2, height - 2);
+
+      if (hasLimit) {
+        ctx.strokeStyle = color("--vscode-charts-red", "#f14c4c");
+        ctx.setLineDash([4, 4]);
+        ctx.beginPath();
+        ctx.moveTo(0, y(limit));
+        ctx.lineTo(width, y(limit));
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.fillStyle = ctx.strokeStyle;
+        ctx.fillText("limit " + format(limit), width - 90, y(limit) - 3);
+      }
+
+      for (const s of series) {
+        ctx.strokeStyle = s.color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        s.points.forEach((p, i) =>
+          i === 0 ? ctx.moveTo(x(p.t), y(p.v)) : ctx.lineTo(x(p.t), y(p.v))
+        );
+        ctx.stroke();
+      }
+    }
+
+    function render(data) {
+      paused = data.paused;
+      $("pause").textContent = paused ? "Resume" : "Pause";
+      $("window").value = data.windowSeconds === null ? "all" : String(data.windowSeconds);
+      $("status").textContent =
+        (data.error
+          ? (data.state === "running" ? "Retrying, last poll failed: " : "Stats unavailable: ") + data.error
+          : "State: " + data.state) +
+        (paused ? " (paused)" : "") +
+        " · " + data.samples.length + " samples";
+
+      const samples = data.samples;
+      const last = samples[samples.length - 1];
+      const lastRate = data.rates[data.rates.length - 1];
+      const blue = color("--vscode-charts-blue", "#3794ff");
+      const green = color("--vscode-charts-green", "#89d185");
+      const orange = color("--vscode-charts-orange", "#d18616");
+      const purple = color("--vscode-charts-purple", "#b180d7");
+      const series = (key) => samples.map((s) => ({ t: s.timestamp, v: s[key] }));
+
+      if (last) {
+        $("cpu-value").textContent = last.cpuPercent.toFixed(2) + " %";
+        $("memory-value").textContent = last.memoryMB.toFixed(2) + " MB";
+        $("threads-value").textContent = String(last.threadCount);
+      }
+      $("io-value").textContent = lastRate
+        ? formatRate(lastRate.readPerSecond) + " / " + formatRate(lastRate.writePerSecond)
+        : "-";
+
+      drawChart($("cpu-chart"), [{ points: series("cpuPercent"), color: blue }],
+        data.limits.maxCpuPercent, (v) => v.toFixed(0) + "%");
+      drawChart($("memory-chart"), [{ points: series("memoryMB"), color: green }],
+        data.limits.maxMemoryMB, (v) => v.toFixed(0) + " MB");
+      drawChart($("threads-chart"), [{ points: series("threadCount"), color: purple }],
+        undefined, (v) => v.toFixed(0));
+      drawChart($("io-chart"), [
+        { points: data.rates.map((r) => ({ t: r.timestamp, v: r.readPerSecond })), color: blue },
+        { points: data.rates.map((r) => ({ t: r.timestamp, v: r.writePerSecond })), color: orange },
+      ], undefined, formatRate);
+    }
+
+    vscode.postMessage({ type: "ready" });
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Stats Series
+ *
+ * Time series handling for resource statistics: merging the history the
+ * server returns with locally polled samples, deriving I/O rates from the
+ * cumulative byte counters, and exporting samples.
+ */
+
+import type { ProcessStatsSample } from "./mcpClient";
+
+/**
+ * I/O throughput between two consecutive samples, in bytes per second
+ */
+export interface IoRate {
+  timestamp: number;
+  readPerSecond: number;
+  writePerSecond: number;
+}
+
+/**
+ * Merge new samples into a series, keeping it sorted by time. A sample with
+ * the same timestamp as an existing one replaces it. Only the newest
+ * `maxSamples` are kept.
+ */
+export function mergeSamples(
+  series: ProcessStatsSample[],
+  incoming: ProcessStatsSample[],
+  maxSamples: number
+): ProcessStatsSample[] {
+  const byTimestamp = new Map<number, ProcessStatsSample>();
+  for (const sample of [...series, ...incoming]) {
+    byTimestamp.set(sample.timestamp, sample);
+  }
+  return [...byTimestamp.values()]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-maxSamples);
+}
+
+/**
+ * Samples within `windowMs` of the newest one; all of them when `windowMs`
+ * is undefined
+ */
+export function windowSamples(
+  series: ProcessStatsSample[],
+  windowMs?: number
+): ProcessStatsSample[] {
+  if (windowMs === undefined || series.length === 0) {
+    return series;
+  }
+  const since = series[series.length - 1].timestamp - windowMs;
+  return series.filter((sample) => sample.timestamp >= since);
+}
+
+/**
+ * Derive read and write rates from the cumulative I/O counters. A counter
+ * that goes backwards (the process restarted under the same PID) counts as
+ * no I/O rather than a negative rate.
+ */
+export function ioRates(series: ProcessStatsSample[]): IoRate[] {
+  const rates: IoRate[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previous = series[i - 1];
+    const current = series[i];
+    const seconds = (current.timestamp - previous.timestamp) / 1000;
+    if (seconds <= 0) {
+      continue;
+    }
+    rates.push({
+      timestamp: current.timestamp,
+      readPerSecond: Math.max(0, current.ioRead - previous.ioRead) / seconds,
+      writePerSecond: Math.max(0, current.ioWrite - previous.ioWrite) / seconds,
+    });
+  }
+  return rates;
+}
+
+const CSV_COLUMNS: Array<keyof ProcessStatsSample> = [
+  "timestamp",
+  "cpuPercent",
+  "memoryMB",
+  "threadCount",
+  "ioRead",
+  "ioWrite",
+];
+
+/**
+ * Format samples as CSV with an ISO 8601 time column
+ */
+export function samplesToCsv(series: ProcessStatsSample[]): string {
+  const lines = [["time", ...CSV_COLUMNS].join(",")];
+  for (const sample of series) {
+    lines.push(
+      [
+        new Date(sample.timestamp).toISOString(),
+        ...CSV_COLUMNS.map((column) => String(sample[column])),
+      ].join(",")
+    );
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,138 @@
+/**
+ * Terminal Output
+ *
+ * Text handling for terminals attached to managed processes: converting
+ * captured output for display, working out what is new since the last poll,
+ * and line editing of keystrokes before they are sent to stdin.
+ */
+
+export const ANSI = {
+  reset: "\x1b[0m",
+  dim: "\x1b[2m",
+  red: "\x1b[31m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+};
+
+/**
+ * Control characters other than tab, newline and carriage return
+ */
+const BINARY_PATTERN = /[\x00-\x08\x0b\x0c\x0e-\x1f\x7f]/;
+
+/**
+ * CSI escape sequences sent by cursor and function keys
+ */
+const CSI_PATTERN = /\x1b\[[0-9;?]*[A-Za-z~]/g;
+
+/**
+ * Convert output for a terminal, which needs CRLF line endings. ANSI color
+ * sequences written by the process pass through unchanged.
+ */
+export function toTerminalText(text: string): string {
+  return text.replace(/\r?\n/g, "\r\n");
+}
+
+export function colorize(text: string, color: string): string {
+  return `${color}${text}${ANSI.reset}`;
+}
+
+/**
+ * Work out the output added since `previous` was shown. The server keeps a
+ * bounded buffer, so once it fills the old start is dropped; the new output
+ * then follows the longest end of `previous` that starts the current
+ * buffer. Without any overlap the whole buffer is treated as new.
+ */
+export function outputDelta(previous: string, current: string): string {
+  if (current.startsWith(previous)) {
+    return current.slice(previous.length);
+  }
+  return current.slice(longestOverlap(previous, current));
+}
+
+/**
+ * Length of the longest suffix of `a` that is a prefix of `b`, using the
+ * prefix function of `b + separator + a` (linear in the input size)
+ */
+function longestOverlap(a: string, b: string): number {
+  const text = `${b}\u0000${a.slice(-b.length)}`;
+  const prefix = new Array<number>(text.length).fill(0);
+  for (let i = 1; i < text.length; i++) {
+    let k = prefix[i - 1];
+    while (k > 0 && text[i] !== text[k]) {
+      k = prefix[k - 1];
+    }
+    if (text[i] === text[k]) {
+      k++;
+    }
+    prefix[i] = k;
+  }
+  return Math.min(prefix[text.length - 1] ?? 0, b.length);
+}
+
+/**
+ * Whether text contains control characters that `io.blockBinaryStdin`
+ * keeps from reaching a process
+ */
+export function containsBinaryData(text: string): boolean {
+  return BINARY_PATTERN.test(text);
+}
+
+/**
+ * Line editing for a pseudoterminal, which receives raw keystrokes. Input is
+ * echoed locally and sent to stdin a line at a time, as a shell would.
+ */
+export class LineEditor {
+  private buffer = "";
+  private afterCarriageReturn = false;
+
+  /**
+   * Process typed or pasted input
+   *
+   * @returns text to echo to the terminal and the lines completed
+   */
+  handle(data: string): { echo: string; lines: string[] } {
+    let echo = "";
+    const lines: string[] = [];
+
+    for (const char of data.replace(CSI_PATTERN, "")) {
+      // Pasted CRLF ends one line, not two
+      const skip = char === "\n" && this.afterCarriageReturn;
+      this.afterCarriageReturn = char === "\r";
+      if (skip) {
+        continue;
+      }
+
+      switch (char) {
+        case "\r":
+        case "\n":
+          echo += "\r\n";
+          lines.push(this.buffer);
+          this.buffer = "";
+          break;
+        case "\x7f":
+        case "\b":
+          if (this.buffer.length > 0) {
+            this.buffer = [...this.buffer].slice(0, -1).join("");
+            echo += "\b \b";
+          }
+          break;
+        case "\x03":
+          echo += "^C\r\n";
+          this.buffer = "";
+          break;
+        default:
+          this.buffer += char;
+          echo += char;
+      }
+    }
+
+    return { echo, lines };
+  }
+
+  /**
+   * Discard the line being typed
+   */
+  clear(): void {
+    this.buffer = "";
+  }
+}
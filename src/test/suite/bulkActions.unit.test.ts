@@ -0,0 +1,105 @@
+import * as assert from "assert";
+import type { ProcessInfo } from "../../mcpClient";
+import {
+  formatCombinedOutput,
+  formatStatsComparison,
+  runBulk,
+  selectedProcesses,
+  summarizeBulk,
+} from "../../bulkActions";
+import { processInfo } from "./processFixtures";
+
+/**
+ * Unit tests for bulk actions on selected processes
+ */
+suite("Bulk Actions Unit Tests", () => {
+  test("Should use the selection over the clicked item and skip non-processes", () => {
+    const clicked = { processInfo: processInfo(1) };
+    const selection = [
+      { processInfo: processInfo(2) },
+      { label: "group" },
+      { processInfo: processInfo(3) },
+      { processInfo: processInfo(2) },
+    ];
+
+    assert.deepStrictEqual(
+      selectedProcesses(clicked, selection).map((p) => p.pid),
+      [2, 3]
+    );
+    assert.deepStrictEqual(
+      selectedProcesses(clicked, undefined).map((p) => p.pid),
+      [1]
+    );
+    assert.deepStrictEqual(selectedProcesses(undefined, []), []);
+  });
+
+  test("Should collect failures without stopping the other processes", async () => {
+    const progress: number[] = [];
+
+    const result = await runBulk(
+      [1, 2, 3],
+      async (pid) => {
+        if (pid === 2) {
+          throw new Error("not found");
+        }
+        return pid * 10;
+      },
+      (done) => progress.push(done)
+    );
+
+    assert.deepStrictEqual(result.succeeded, [
+      { pid: 1, value: 10 },
+      { pid: 3, value: 30 },
+    ]);
+    assert.deepStrictEqual(result.failures, [{ pid: 2, message: "not found" }]);
+    assert.deepStrictEqual(progress, [1, 2, 3]);
+  });
+
+  test("Should summarize failures in one message", () => {
+    assert.strictEqual(
+      summarizeBulk("Terminated", 2, []),
+      "Terminated 2 of 2 process(es)"
+    );
+    assert.strictEqual(
+      summarizeBulk(
+        "Terminated",
+        6,
+        [11, 12, 13, 14, 15].map((pid) => ({ pid, message: "denied" }))
+      ),
+      "Terminated 1 of 6 process(es). Failed: PID 11 (denied), PID 12 (denied), PID 13 (denied), 2 more"
+    );
+  });
+
+  test("Should format output and statistics of several processes", () => {
+    assert.strictEqual(
+      formatCombinedOutput([
+        { process: processInfo(1), output: "ready\n" },
+        { process: processInfo(2, { command: "python" }), output: "" },
+      ]),
+      "==> PID 1: node\nready\n\n==> PID 2: python\n\n"
+    );
+
+    const report = formatStatsComparison(
+      [
+        { pid: 1, cpuPercent: 12.5, memoryMB: 80 },
+        { pid: 2, cpuPercent: 3, memoryMB: 200 },
+      ].map(({ pid, cpuPercent, memoryMB }) => ({
+        process: processInfo(pid, { uptime: 90_000 }),
+        stats: {
+          cpuPercent,
+          memoryMB,
+          threadCount: 4,
+          ioRead: 0,
+          ioWrite: 1024 * 1024,
+        },
+      }))
+    );
+    assert.ok(
+      report.includes(
+        "| 1 | `node` | running | 1m 30s | **12.5%** | 80 MB | 4 | 0.00 MB | 1.00 MB |"
+      ),
+      report
+    );
+    assert.ok(report.includes("| 3.0% | **200 MB** |"), report);
+  });
+});
@@ -0,0 +1,50 @@
+import * as assert from "assert";
+import {
+  CommandLineSyntaxError,
+  formatCommandLine,
+  parseArguments,
+  parseAssignments,
+} from "../../commandLine";
+
+/**
+ * Unit tests for shell-style command line parsing
+ */
+suite("Command Line Unit Tests", () => {
+  test("Should split on whitespace and honor quotes", () => {
+    assert.deepStrictEqual(
+      parseArguments(`script.js  --name "two words" 'it''s' a\\ b ""`),
+      ["script.js", "--name", "two words", "its", "a b", ""]
+    );
+    assert.deepStrictEqual(parseArguments(`"say \\"hi\\" \\n" '\\n'`), [
+      `say "hi" \\n`,
+      "\\n",
+    ]);
+    assert.deepStrictEqual(parseArguments("   "), []);
+  });
+
+  test("Should reject unterminated quotes and trailing backslashes", () => {
+    assert.throws(() => parseArguments(`"open`), CommandLineSyntaxError);
+    assert.throws(() => parseArguments(`'open`), /Unterminated ' quote/);
+    assert.throws(() => parseArguments("end\\"), /Trailing backslash/);
+  });
+
+  test("Should format arguments that parse back unchanged", () => {
+    const args = ["--name", "two words", "it's", "", "$HOME"];
+    const commandLine = formatCommandLine("node", args);
+
+    assert.strictEqual(
+      commandLine,
+      `node --name 'two words' 'it'\\''s' '' '$HOME'`
+    );
+    assert.deepStrictEqual(parseArguments(commandLine), ["node", ...args]);
+  });
+
+  test("Should parse NAME=value assignments", () => {
+    assert.deepStrictEqual(
+      parseAssignments(`NODE_ENV=production DEBUG='app:*' EMPTY= URL=a=b`),
+      { NODE_ENV: "production", DEBUG: "app:*", EMPTY: "", URL: "a=b" }
+    );
+    assert.throws(() => parseAssignments("novalue"), /Expected NAME=value/);
+    assert.throws(() => parseAssignments("1BAD=x"), /Invalid name/);
+  });
+});
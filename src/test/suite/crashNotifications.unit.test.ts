@@ -0,0 +1,34 @@
+import * as assert from "assert";
+import { CrashRateLimiter } from "../../crashNotifications";
+
+/**
+ * Unit tests for crash notification rate limiting
+ */
+suite("Crash Notifications Unit Tests", () => {
+  test("Should report a flapping command once per interval", () => {
+    const limiter = new CrashRateLimiter(60000);
+
+    assert.deepStrictEqual(limiter.take("svc", 0), {
+      notify: true,
+      suppressed: 0,
+    });
+    assert.strictEqual(limiter.take("svc", 10000).notify, false);
+    assert.strictEqual(limiter.take("svc", 20000).notify, false);
+    assert.deepStrictEqual(limiter.take("svc", 60000), {
+      notify: true,
+      suppressed: 2,
+    });
+  });
+
+  test("Should cap notifications across commands", () => {
+    const limiter = new CrashRateLimiter(60000, 2);
+
+    assert.strictEqual(limiter.take("a", 0).notify, true);
+    assert.strictEqual(limiter.take("b", 1000).notify, true);
+    assert.strictEqual(limiter.take("c", 2000).notify, false);
+    assert.deepStrictEqual(limiter.take("c", 60000), {
+      notify: true,
+      suppressed: 1,
+    });
+  });
+});
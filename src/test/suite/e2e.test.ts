@@ -91,8 +91,12 @@ suite("E2E Test Suite - Real MCP Server", () => {
       );
     }
 
-    // If still not found, skip E2E tests
-    if (!fs.existsSync(mcpServerPath)) {
+    // If still not found, skip E2E tests - unless a recorded session
+    // (MCP_PROCESS_REPLAY_SESSION) stands in for the server
+    if (
+      !fs.existsSync(mcpServerPath) &&
+      !process.env.MCP_PROCESS_REPLAY_SESSION
+    ) {
       console.log(
         "MCP server not found (not installed locally or in monorepo), skipping E2E tests"
       );
@@ -439,10 +443,9 @@ suite("E2E Test Suite - Real MCP Server", () => {
       }
 
       assert.ok(stats);
-      // Stats may have different structure - just verify we got something
-      assert.ok(
-        stats.cpuPercent !== undefined || stats.stats?.cpuPercent !== undefined
-      );
+      // Stats are normalized to a flat structure by the client
+      assert.strictEqual(typeof stats.cpuPercent, "number");
+      assert.strictEqual(typeof stats.memoryMB, "number");
 
       // Clean up
       try {
@@ -401,6 +401,108 @@ suite("Integration Test Suite", () => {
     });
   });
 
+  suite("Recorded Session Replay", () => {
+    // Runs the client against the bundled replay server, answering from a
+    // committed recording, so it needs no real server
+    const fixture = path.resolve(
+      __dirname,
+      "../../../src/test/fixtures/session.jsonl"
+    );
+    let savedReplaySession: string | undefined;
+    let outputChannel: ReturnType<typeof createTestOutputChannel>;
+    let client: import("../../mcpClient").MCPProcessClient;
+    const events: import("../../mcpClient").ProcessEvent[] = [];
+
+    // Pushed notifications follow the response they were recorded after
+    const waitForEvent = async (type: string) => {
+      for (let i = 0; i < 50 && !events.some((e) => e.type === type); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 20));
+      }
+      return events.find((e) => e.type === type);
+    };
+
+    suiteSetup(async function () {
+      this.timeout(30000);
+      savedReplaySession = process.env.MCP_PROCESS_REPLAY_SESSION;
+      process.env.MCP_PROCESS_REPLAY_SESSION = fixture;
+
+      outputChannel = createTestOutputChannel("Test MCP Client Replay");
+      const { MCPProcessClient } = await import("../../mcpClient.js");
+      client = new MCPProcessClient(outputChannel);
+      client.onProcessEvent((event) => events.push(event));
+      await client.start();
+    });
+
+    suiteTeardown(() => {
+      client?.stop();
+      if (savedReplaySession === undefined) {
+        delete process.env.MCP_PROCESS_REPLAY_SESSION;
+      } else {
+        process.env.MCP_PROCESS_REPLAY_SESSION = savedReplaySession;
+      }
+      try {
+        outputChannel?.dispose();
+      } catch (error) {
+        // Ignore disposal errors
+      }
+    });
+
+    test("Should connect to the recorded server and load its tools", () => {
+      assert.strictEqual(client.getReplayPath(), fixture);
+      assert.strictEqual(client.getServerHandshake()?.serverVersion, "1.5.10");
+      assert.deepStrictEqual(
+        client.getServerTools().map((tool) => tool.name),
+        [
+          "process_start",
+          "process_list",
+          "process_get_stats",
+          "process_get_output",
+          "process_terminate",
+        ]
+      );
+    });
+
+    test("Should replay a process lifecycle", async function () {
+      this.timeout(10000);
+
+      assert.deepStrictEqual(await client.listProcesses(), []);
+
+      const pid = await client.startProcess({
+        executable: "node",
+        args: ["server.js"],
+        cwd: "/workspace",
+        captureOutput: true,
+      });
+      assert.strictEqual(pid, "4242");
+
+      const started = await waitForEvent("started");
+      assert.ok(started, "server notification should reach onProcessEvent");
+      assert.strictEqual(started.pid, 4242);
+      assert.strictEqual(started.process?.command, "node");
+      assert.strictEqual(client.supportsProcessEvents(), true);
+
+      const [listed] = await client.listProcesses();
+      assert.strictEqual(listed.pid, 4242);
+      assert.strictEqual(listed.state, "running");
+      assert.strictEqual(listed.cwd, "/workspace");
+
+      const stats = await client.getProcessStats(pid);
+      assert.strictEqual(stats.cpuPercent, 12.5);
+      assert.strictEqual(stats.memoryMB, 48.2);
+      assert.strictEqual(stats.threadCount, 7);
+
+      const { output } = await client.getProcessOutput({ pid: 4242 });
+      assert.strictEqual(output, "Listening on port 3000");
+
+      const result = await client.terminateProcess(pid);
+      assert.strictEqual(result.exitCode, 0);
+      assert.strictEqual(result.terminationReason, "SIGTERM");
+
+      const exited = await waitForEvent("exited");
+      assert.strictEqual(exited?.exitCode, 0);
+    });
+  });
+
   suite("BaseMCPClient Integration Tests", () => {
     test("Should initialize with slow server (timeout handling)", async function () {
       this.timeout(70000); // 70 seconds for slow initialization
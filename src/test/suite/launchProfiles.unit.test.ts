@@ -0,0 +1,112 @@
+import * as assert from "assert";
+import * as path from "path";
+import { parseLaunchProfiles, toStartParams } from "../../launchProfiles";
+
+/**
+ * Unit tests for launch profile parsing
+ */
+suite("Launch Profiles Unit Tests", () => {
+  test("Should parse valid profiles", () => {
+    const result = parseLaunchProfiles(
+      JSON.stringify({
+        profiles: [
+          { name: "Dev Server", executable: "npm", args: ["run", "dev"] },
+          { name: "API", executable: "node", service: "api" },
+        ],
+      })
+    );
+
+    assert.deepStrictEqual(result.errors, []);
+    assert.deepStrictEqual(
+      result.profiles.map((profile) => profile.name),
+      ["Dev Server", "API"]
+    );
+  });
+
+  test("Should skip and report invalid profiles", () => {
+    const result = parseLaunchProfiles(
+      JSON.stringify({
+        profiles: [
+          { name: "Good", executable: "node" },
+          { executable: "node" },
+          { name: "Args", executable: "node", args: "--watch" },
+          { name: "Limits", executable: "node", resourceLimits: { cpu: 5 } },
+          { name: "Both", executable: "node", group: "g", service: "s" },
+          { name: "Svc", executable: "node", service: "s", cwd: "api" },
+          { name: "Good", executable: "npm" },
+        ],
+      })
+    );
+
+    assert.deepStrictEqual(
+      result.profiles.map((profile) => profile.executable),
+      ["node"]
+    );
+    assert.deepStrictEqual(result.errors, [
+      'Profile 2: "name" must be a non-empty string',
+      'Profile "Args": "args" must be an array of strings',
+      'Profile "Limits": unknown resource limit "cpu"',
+      'Profile "Both": "group" and "service" cannot both be set',
+      'Profile "Svc": "cwd" cannot be set for a service',
+      'Profile "Good": duplicate name',
+    ]);
+  });
+
+  test("Should apply the schema's rules", () => {
+    const result = parseLaunchProfiles(
+      JSON.stringify({
+        profiles: [
+          { name: "  ", executable: "node" },
+          {
+            name: "Cpu",
+            executable: "node",
+            resourceLimits: { maxCpuPercent: 150 },
+          },
+          { name: "Group", executable: "node", group: "" },
+          { name: "Typo", executable: "node", arg: ["--watch"] },
+        ],
+        profile: [],
+      })
+    );
+
+    assert.deepStrictEqual(result.profiles, []);
+    assert.deepStrictEqual(result.errors, [
+      'Unknown setting "profile"',
+      'Profile "  ": "name" must be a non-empty string',
+      'Profile "Cpu": resource limit "maxCpuPercent" must be at most 100',
+      'Profile "Group": "group" must be a non-empty string',
+      'Profile "Typo": unknown setting "arg"',
+    ]);
+  });
+
+  test("Should report a malformed file", () => {
+    assert.match(parseLaunchProfiles("{").errors[0], /^Invalid JSON/);
+    assert.deepStrictEqual(parseLaunchProfiles("[]").errors, [
+      'Expected a "profiles" array',
+    ]);
+  });
+
+  test("Should resolve paths and workspace folder variables", () => {
+    const folder = path.resolve("/work/app");
+    const params = toStartParams(
+      {
+        name: "Watch",
+        executable: "node",
+        args: ["${workspaceFolder}/watch.js"],
+        cwd: "packages/web",
+        env: { ROOT: "${workspaceFolder}" },
+        timeout: 60000,
+      },
+      folder
+    );
+
+    assert.deepStrictEqual(params, {
+      executable: "node",
+      args: [`${folder}/watch.js`],
+      cwd: path.join(folder, "packages", "web"),
+      env: { ROOT: folder },
+      timeout: 60000,
+      captureOutput: true,
+    });
+  });
+});
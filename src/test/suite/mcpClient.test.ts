@@ -94,6 +94,91 @@ suite("MCP Client Test Suite", () => {
     });
   });
 
+  test("getSecurityConfig should return config passed to setServerConfig", async () => {
+    client.setServerConfig({
+      allowedExecutables: ["node", "npm"],
+      blockSetuidExecutables: true,
+      blockShellInterpreters: true,
+      defaultResourceLimits: {
+        maxCpuPercent: 25,
+      },
+    });
+
+    const config = await client.getSecurityConfig();
+    assert.deepStrictEqual(config.allowedExecutables, ["node", "npm"]);
+    assert.strictEqual(config.blockShellInterpreters, true);
+    assert.strictEqual(config.defaultResourceLimits?.maxCpuPercent, 25);
+    // Missing values are filled in with the server defaults
+    assert.strictEqual(typeof config.allowProcessTermination, "boolean");
+
+    // getConfig returns the last loaded expected config
+    assert.deepStrictEqual(client.getConfig(), config);
+    assert.strictEqual(
+      client.getSecurityConfigSource(),
+      "Expected from VS Code settings"
+    );
+  });
+
+  test("getSecurityConfig should read the external config file when enabled", async () => {
+    const os = await import("os");
+    const fs = await import("fs");
+    const path = await import("path");
+    const configFile = path.join(
+      os.tmpdir(),
+      `mcp-process-test-config-${Date.now()}.json`
+    );
+    fs.writeFileSync(
+      configFile,
+      JSON.stringify({ allowedExecutables: ["python3"] })
+    );
+
+    const config = vscode.workspace.getConfiguration("mcp-process");
+    await config.update(
+      "server.configPath",
+      configFile,
+      vscode.ConfigurationTarget.Global
+    );
+    await config.update(
+      "server.useConfigFile",
+      true,
+      vscode.ConfigurationTarget.Global
+    );
+
+    try {
+      client.setServerConfig({
+        allowedExecutables: ["node"],
+        blockSetuidExecutables: true,
+        blockShellInterpreters: false,
+      });
+
+      const effective = await client.getSecurityConfig();
+      assert.deepStrictEqual(effective.allowedExecutables, ["python3"]);
+      assert.strictEqual(
+        client.getSecurityConfigSource(),
+        `Expected from ${path.basename(configFile)}`
+      );
+    } finally {
+      await config.update(
+        "server.configPath",
+        undefined,
+        vscode.ConfigurationTarget.Global
+      );
+      await config.update(
+        "server.useConfigFile",
+        undefined,
+        vscode.ConfigurationTarget.Global
+      );
+      fs.unlinkSync(configFile);
+    }
+  });
+
+  test("getSecurityConfig should reject when no configuration is available", async () => {
+    await assert.rejects(
+      async () => await client.getSecurityConfig(),
+      /configuration not available/
+    );
+  });
+
   test("stop should not throw when called without start", () => {
     assert.doesNotThrow(() => {
       client.stop();
@@ -213,6 +298,17 @@ suite("MCP Client Test Suite", () => {
         );
       }
     });
+
+    test("Should reject with CancellationError for a cancelled token", async () => {
+      const source = new vscode.CancellationTokenSource();
+      source.cancel();
+
+      await assert.rejects(
+        client.terminateProcess({ pid: 1234 }, source.token),
+        (error: any) => error instanceof vscode.CancellationError
+      );
+      source.dispose();
+    });
   });
 
   suite("Configuration", () => {
@@ -0,0 +1,96 @@
+import * as assert from "assert";
+import { checkStartRequest, matchesExecutable } from "../../preflight";
+
+/**
+ * Unit tests for start request pre-flight checks
+ */
+suite("Preflight Unit Tests", () => {
+  test("Should match executables by name, path or wildcard", () => {
+    assert.strictEqual(matchesExecutable("/usr/bin/node", "node"), true);
+    assert.strictEqual(
+      matchesExecutable("/usr/bin/node", "/usr/bin/node"),
+      true
+    );
+    assert.strictEqual(matchesExecutable("/tmp/node", "/usr/bin/node"), false);
+    assert.strictEqual(matchesExecutable("python3.11", "python*"), true);
+    assert.strictEqual(matchesExecutable("npm", "python*"), false);
+  });
+
+  test("Should pass a request that breaks no rule", () => {
+    const errors = checkStartRequest(
+      {
+        executable: "node",
+        args: ["script.js"],
+        cwd: "/work/project",
+        env: { NODE_ENV: "test" },
+        captureOutput: true,
+      },
+      {
+        allowedExecutables: ["node"],
+        blockShellInterpreters: true,
+        allowedEnvVars: ["NODE_ENV"],
+        allowedWorkingDirectories: ["/work"],
+        maxConcurrentProcesses: 5,
+      },
+      { runningProcesses: 4 }
+    );
+
+    assert.deepStrictEqual(errors, []);
+  });
+
+  test("Should name the setting behind each blocked rule", () => {
+    const errors = checkStartRequest(
+      {
+        executable: "/bin/bash",
+        args: ["-c", "rm -rf /", "x".repeat(20)],
+        cwd: "/etc/ssh",
+        env: { LD_PRELOAD: "evil.so", HOME: "/tmp" },
+        resourceLimits: { maxCpuPercent: 90, maxMemoryMB: 256 },
+        captureOutput: true,
+      },
+      {
+        allowedExecutables: ["node", "python*"],
+        blockShellInterpreters: true,
+        additionalBlockedExecutables: ["bash"],
+        maxArgumentCount: 2,
+        maxArgumentLength: 10,
+        blockedArgumentPatterns: ["rm\\s+-rf", "("],
+        additionalBlockedEnvVars: ["LD_PRELOAD"],
+        allowedEnvVars: ["HOME"],
+        maxEnvVarCount: 1,
+        blockedWorkingDirectories: ["/etc"],
+        maximumResourceLimits: { maxCpuPercent: 80, maxMemoryMB: 512 },
+        maxConcurrentProcesses: 2,
+        allowOutputCapture: false,
+      },
+      { runningProcesses: 2 }
+    );
+
+    assert.deepStrictEqual(
+      errors.map((error) => error.setting),
+      [
+        "executable.allowedExecutables",
+        "executable.blockShellInterpreters",
+        "executable.additionalBlockedExecutables",
+        "executable.maxArgumentCount",
+        "executable.maxArgumentLength",
+        "executable.blockedArgumentPatterns",
+        "security.additionalBlockedEnvVars",
+        "security.allowedEnvVars",
+        "security.maxEnvVarCount",
+        "security.blockedWorkingDirectories",
+        "resources.maximumMaxCpuPercent",
+        "process.maxConcurrentProcesses",
+        "io.allowOutputCapture",
+      ]
+    );
+    assert.match(errors[5].message, /Argument 2 \("rm -rf \/"\)/);
+  });
+
+  test("Should treat an empty allowlist as allowing every executable", () => {
+    assert.deepStrictEqual(
+      checkStartRequest({ executable: "anything" }, { allowedExecutables: [] }),
+      []
+    );
+  });
+});
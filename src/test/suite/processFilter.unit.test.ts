@@ -0,0 +1,84 @@
+import * as assert from "assert";
+import type { ProcessInfo } from "../../mcpClient";
+import {
+  applyProcessFilter,
+  describeFilter,
+  isFilterActive,
+} from "../../processFilter";
+import { processInfo } from "./processFixtures";
+
+const processes = [
+  processInfo(30, { args: ["api.js"], uptime: 5000 }),
+  processInfo(10, {
+    command: "python3",
+    args: ["worker.py", "--queue=API"],
+    state: "crashed",
+    uptime: 200,
+  }),
+  processInfo(20, { command: "npm", args: ["test"], uptime: 9000 }),
+];
+
+const pids = (list: ProcessInfo[]) => list.map((p) => p.pid);
+
+/**
+ * Unit tests for the process list filter
+ */
+suite("Process Filter Unit Tests", () => {
+  test("Should match text in the command and arguments", () => {
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { text: "api" })),
+      [30, 10]
+    );
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { text: " NPM " })),
+      [20]
+    );
+  });
+
+  test("Should filter by state", () => {
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { states: ["crashed"] })),
+      [10]
+    );
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { states: [] })),
+      [30, 10, 20]
+    );
+  });
+
+  test("Should sort by PID, uptime and sampled usage", () => {
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { sortBy: "pid" })),
+      [10, 20, 30]
+    );
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { sortBy: "uptime" })),
+      [20, 30, 10]
+    );
+    const usage = new Map([
+      [10, { cpuPercent: 1, memoryMB: 500 }],
+      [30, { cpuPercent: 50, memoryMB: 100 }],
+    ]);
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { sortBy: "memory" }, usage)),
+      [10, 30, 20]
+    );
+    assert.deepStrictEqual(
+      pids(applyProcessFilter(processes, { sortBy: "cpu" }, usage)),
+      [30, 10, 20]
+    );
+  });
+
+  test("Should describe the active filter", () => {
+    assert.strictEqual(isFilterActive({}), false);
+    assert.strictEqual(describeFilter({}), "");
+    assert.strictEqual(
+      describeFilter({
+        text: "api",
+        states: ["running", "crashed"],
+        sortBy: "memory",
+      }),
+      '"api" · running, crashed · by memory'
+    );
+  });
+});
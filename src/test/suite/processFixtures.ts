@@ -0,0 +1,30 @@
+/**
+ * Process fixtures shared by the unit tests
+ */
+
+import type { ProcessInfo } from "../../mcpClient";
+
+/**
+ * A running `node` process with no arguments, changed by `overrides`. The
+ * executable follows an overridden command and the status follows an
+ * overridden state unless they are given too.
+ */
+export function processInfo(
+  pid: number,
+  overrides: Partial<ProcessInfo> = {}
+): ProcessInfo {
+  const command = overrides.command ?? "node";
+  const state = overrides.state ?? "running";
+  return {
+    id: String(pid),
+    pid,
+    executable: command,
+    command,
+    args: [],
+    state,
+    status: state,
+    uptime: 0,
+    startTime: new Date(0).toISOString(),
+    ...overrides,
+  };
+}
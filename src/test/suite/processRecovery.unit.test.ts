@@ -0,0 +1,91 @@
+import * as assert from "assert";
+import {
+  buildRecoverySnapshot,
+  confirmableRecoveries,
+  describeRecoverable,
+  isSnapshotEmpty,
+} from "../../processRecovery";
+import { processInfo } from "./processFixtures";
+
+/**
+ * Unit tests for relaunching processes after a server restart
+ */
+suite("Process Recovery Unit Tests", () => {
+  test("Should snapshot running processes with their launch parameters and group", () => {
+    const snapshot = buildRecoverySnapshot(
+      [
+        processInfo(1, { args: ["server.js"], cwd: "/app" }),
+        processInfo(2),
+        processInfo(3, { state: "crashed" }),
+      ],
+      [],
+      [{ name: "web", groupId: "g1", pids: [2] }],
+      (pid) =>
+        pid === 2
+          ? { executable: "npm", args: ["start"], env: { PORT: "3000" } }
+          : undefined
+    );
+
+    assert.deepStrictEqual(snapshot.processes, [
+      {
+        pid: 1,
+        params: { executable: "node", args: ["server.js"], cwd: "/app" },
+        group: undefined,
+      },
+      {
+        pid: 2,
+        params: { executable: "npm", args: ["start"], env: { PORT: "3000" } },
+        group: "web",
+      },
+    ]);
+    assert.strictEqual(describeRecoverable(snapshot.processes[1]), "npm start");
+  });
+
+  test("Should leave service processes to the service restart", () => {
+    const snapshot = buildRecoverySnapshot(
+      [
+        processInfo(1, { args: ["server.js"] }),
+        processInfo(2, { service: "api" }),
+        processInfo(3),
+      ],
+      [
+        {
+          name: "api",
+          serviceId: "s1",
+          executable: "node",
+          args: ["api.js"],
+          autoRestart: true,
+        },
+        {
+          name: "worker",
+          serviceId: "s2",
+          executable: "node",
+          args: ["worker.js"],
+          pid: 3,
+        },
+      ],
+      [],
+      () => undefined
+    );
+
+    assert.deepStrictEqual(
+      snapshot.processes.map((p) => p.pid),
+      [1]
+    );
+    assert.deepStrictEqual(
+      confirmableRecoveries(snapshot).map(describeRecoverable),
+      ["node worker.js", "node server.js"]
+    );
+  });
+
+  test("Should report an empty snapshot when nothing was running", () => {
+    const snapshot = buildRecoverySnapshot(
+      [processInfo(1, { state: "stopped" })],
+      [],
+      [],
+      () => undefined
+    );
+
+    assert.ok(isSnapshotEmpty(snapshot));
+  });
+});
@@ -0,0 +1,46 @@
+import * as assert from "assert";
+import { formatMemory, summarizeProcesses } from "../../processSummary";
+import { processInfo } from "./processFixtures";
+
+/**
+ * Unit tests for the status bar process summary
+ */
+suite("Process Summary Unit Tests", () => {
+  test("Should total sampled usage of running processes", () => {
+    const summary = summarizeProcesses(
+      [
+        processInfo(1),
+        processInfo(2),
+        processInfo(3),
+        processInfo(4, { state: "crashed" }),
+      ],
+      new Map([
+        [1, { cpuPercent: 5, memoryMB: 300 }],
+        [2, { cpuPercent: 40, memoryMB: 100 }],
+        [4, { cpuPercent: 99, memoryMB: 999 }],
+      ]),
+      1
+    );
+
+    assert.strictEqual(summary.running, 3);
+    assert.strictEqual(summary.cpuPercent, 45);
+    assert.strictEqual(summary.memoryMB, 400);
+    assert.strictEqual(summary.sampled, true);
+    assert.deepStrictEqual(
+      summary.topConsumers.map((c) => c.process.pid),
+      [2]
+    );
+  });
+
+  test("Should report when nothing has been sampled", () => {
+    const summary = summarizeProcesses([processInfo(1)], new Map());
+
+    assert.strictEqual(summary.sampled, false);
+    assert.deepStrictEqual(summary.topConsumers, []);
+  });
+
+  test("Should format memory in MB or GB", () => {
+    assert.strictEqual(formatMemory(512.4), "512 MB");
+    assert.strictEqual(formatMemory(1536), "1.5 GB");
+  });
+});
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import {
+  TerminationPolicy,
+  TerminationTarget,
+  describeTerminationPolicy,
+  resolveTerminationPolicy,
+  runTermination,
+} from "../../processTermination";
+
+const DEFAULTS: TerminationPolicy = {
+  signal: "SIGTERM",
+  gracePeriodSeconds: 5,
+  escalate: true,
+};
+
+/**
+ * Records calls and reports the process running for the given number of
+ * status checks
+ */
+function fakeTarget(runningChecks: number) {
+  const calls: string[] = [];
+  const target: TerminationTarget = {
+    sendSignal: async (signal) => {
+      calls.push(signal);
+      return {};
+    },
+    kill: async () => {
+      calls.push("SIGKILL");
+      return { terminationReason: "forced" };
+    },
+    isRunning: async () => runningChecks-- > 0,
+  };
+  return { target, calls };
+}
+
+/**
+ * Unit tests for escalating process termination
+ */
+suite("Process Termination Unit Tests", () => {
+  test("Should only escalate when forced termination is allowed", () => {
+    assert.deepStrictEqual(
+      resolveTerminationPolicy({ signal: "SIGINT" }, DEFAULTS, true),
+      { signal: "SIGINT", gracePeriodSeconds: 5, escalate: true }
+    );
+    assert.deepStrictEqual(
+      resolveTerminationPolicy({ gracePeriodSeconds: 2.4 }, DEFAULTS, false),
+      { signal: "SIGTERM", gracePeriodSeconds: 2, escalate: false }
+    );
+    assert.strictEqual(
+      describeTerminationPolicy(resolveTerminationPolicy({}, DEFAULTS, false)),
+      "SIGTERM, wait 5s"
+    );
+  });
+
+  test("Should reject unknown signals and disallowed forced termination", () => {
+    assert.throws(
+      () => resolveTerminationPolicy({ signal: "SIGSTOP" }, DEFAULTS, true),
+      /Unsupported signal "SIGSTOP"/
+    );
+    assert.throws(
+      () => resolveTerminationPolicy({ force: true }, DEFAULTS, false),
+      /allowForcedTermination/
+    );
+    assert.strictEqual(
+      resolveTerminationPolicy({ force: true }, DEFAULTS, true).signal,
+      "SIGKILL"
+    );
+  });
+
+  test("Should count down the grace period and kill a surviving process", async () => {
+    const { target, calls } = fakeTarget(Infinity);
+    const countdown: number[] = [];
+
+    const { outcome, result } = await runTermination(
+      target,
+      { signal: "SIGHUP", gracePeriodSeconds: 3, escalate: true },
+      { onCountdown: (left) => countdown.push(left), sleep: async () => {} }
+    );
+
+    assert.strictEqual(outcome, "killed");
+    assert.strictEqual(result.terminationReason, "forced");
+    assert.deepStrictEqual(calls, ["SIGHUP", "SIGKILL"]);
+    assert.deepStrictEqual(countdown, [3, 2, 1]);
+  });
+
+  test("Should stop waiting once the process exits", async () => {
+    const { target, calls } = fakeTarget(1);
+
+    const { outcome } = await runTermination(target, DEFAULTS, {
+      sleep: async () => {},
+    });
+
+    assert.strictEqual(outcome, "exited");
+    assert.deepStrictEqual(calls, ["SIGTERM"]);
+  });
+
+  test("Should leave a surviving process running without escalation", async () => {
+    const { target, calls } = fakeTarget(Infinity);
+
+    const { outcome } = await runTermination(
+      target,
+      { signal: "SIGUSR1", gracePeriodSeconds: 1, escalate: false },
+      { sleep: async () => {} }
+    );
+
+    assert.strictEqual(outcome, "survived");
+    assert.deepStrictEqual(calls, ["SIGUSR1"]);
+  });
+});
@@ -2,7 +2,12 @@ import * as assert from "assert";
 import * as vscode from "vscode";
 import {
   ProcessTreeDataProvider,
+  DetailTreeItem,
+  ProcessGroupTreeItem,
   ProcessTreeItem,
+  RecentGroupTreeItem,
+  RecentProcessTreeItem,
+  ServiceTreeItem,
 } from "../../processTreeProvider";
 import { MCPProcessClient, ProcessInfo } from "../../mcpClient";
 
@@ -354,11 +359,241 @@ suite("Process Tree Provider Test Suite", () => {
         }),
       };
 
+      const lines: string[] = [];
+      provider = new ProcessTreeDataProvider({
+        appendLine: (line: string) => lines.push(line),
+      } as unknown as vscode.OutputChannel);
       provider.setMCPClient(errorClient as unknown as MCPProcessClient);
       await provider.refresh();
 
       const children = await provider.getChildren();
       assert.strictEqual(children.length, 0);
+      assert.ok(
+        lines.includes("Failed to refresh process list: Connection failed")
+      );
+    });
+
+    test("Should apply pushed exit events without re-listing", async () => {
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+
+      provider.applyProcessEvent({
+        type: "crashed",
+        pid: 1234,
+        timestamp: Date.now(),
+      });
+
+      const children = await provider.getChildren();
+      assert.strictEqual(children.length, 2);
+      assert.strictEqual(
+        (children[0] as ProcessTreeItem).processInfo.state,
+        "crashed"
+      );
+    });
+
+    test("Should show short-lived processes from events", async () => {
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+
+      provider.applyProcessEvent({
+        type: "exited",
+        pid: 9999,
+        timestamp: Date.now(),
+        exitCode: 0,
+        process: {
+          id: "9999",
+          pid: 9999,
+          executable: "echo",
+          command: "echo",
+          args: ["hi"],
+          status: "running",
+          state: "running",
+          uptime: 10,
+          startTime: new Date().toISOString(),
+        },
+      });
+
+      const children = await provider.getChildren();
+      assert.strictEqual(children.length, 3);
+      assert.strictEqual((children[2] as ProcessTreeItem).pid, 9999);
+      assert.strictEqual(
+        (children[2] as ProcessTreeItem).processInfo.state,
+        "exited"
+      );
+    });
+
+    test("Should nest grouped and service processes under their nodes", async () => {
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+      provider.setGroups(
+        [{ name: "web", groupId: "g1", pids: [1234] }],
+        [
+          {
+            name: "worker",
+            serviceId: "s1",
+            executable: "python3",
+            args: ["script.py"],
+            pid: 5678,
+          },
+        ]
+      );
+
+      const children = await provider.getChildren();
+      assert.strictEqual(children.length, 2);
+      assert.ok(children[0] instanceof ProcessGroupTreeItem);
+      assert.ok(children[1] instanceof ServiceTreeItem);
+      assert.strictEqual(children[0].contextValue, "processGroup");
+      assert.strictEqual(children[1].contextValue, "service");
+
+      const members = await provider.getChildren(children[0]);
+      assert.strictEqual(members.length, 1);
+      assert.strictEqual((members[0] as ProcessTreeItem).pid, 1234);
+
+      const serviceProcesses = await provider.getChildren(children[1]);
+      assert.strictEqual((serviceProcesses[0] as ProcessTreeItem).pid, 5678);
+    });
+
+    test("Should list group members the filter hides", async () => {
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+      provider.setGroups([{ name: "web", groupId: "g1", pids: [1234] }], []);
+      provider.setFilter({ text: "script" });
+
+      assert.deepStrictEqual(
+        provider.getGroupMembers("web").map((p) => p.pid),
+        [1234]
+      );
+      assert.deepStrictEqual(provider.getGroupMembers("api"), []);
+    });
+
+    test("Should expand a process into detail nodes", async () => {
+      mockClient.getProcessStats = async () => ({
+        cpuPercent: 12.5,
+        memoryMB: 64,
+        threadCount: 4,
+        ioRead: 0,
+        ioWrite: 0,
+      });
+      mockClient.getProcessOutput = async () => ({
+        output: "line 1\nline 2\n",
+      });
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+
+      const [first] = await provider.getChildren();
+      assert.strictEqual(
+        first.collapsibleState,
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+
+      const details = (await provider.getChildren(first)) as DetailTreeItem[];
+      assert.deepStrictEqual(
+        details.map((d) => d.label),
+        [
+          "Arguments",
+          "Working Directory",
+          "Resource Limits",
+          "Live Stats",
+          "Output",
+        ]
+      );
+      assert.strictEqual(details[0].description, "--version");
+      assert.strictEqual(details[3].description, "12.5% CPU, 64.0 MB");
+      assert.strictEqual(details[4].children.length, 2);
+    });
+
+    test("Should keep expanded details until collapsed", async () => {
+      let fetches = 0;
+      mockClient.getProcessStats = async () => {
+        fetches++;
+        return {
+          cpuPercent: 1,
+          memoryMB: 1,
+          threadCount: 1,
+          ioRead: 0,
+          ioWrite: 0,
+        };
+      };
+      mockClient.getProcessOutput = async () => ({ output: "" });
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+
+      const [first] = (await provider.getChildren()) as ProcessTreeItem[];
+      await provider.getChildren(first);
+      await provider.refresh();
+      const [refreshed] = (await provider.getChildren()) as ProcessTreeItem[];
+      await provider.getChildren(refreshed);
+      assert.strictEqual(fetches, 1);
+
+      provider.forgetDetails(refreshed.pid);
+      await provider.getChildren(refreshed);
+      assert.strictEqual(fetches, 2);
+    });
+
+    test("Should filter and sort processes", async () => {
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+
+      provider.setFilter({ sortBy: "uptime" });
+      let children = (await provider.getChildren()) as ProcessTreeItem[];
+      assert.deepStrictEqual(
+        children.map((c) => c.pid),
+        [5678, 1234]
+      );
+
+      provider.setFilter({ text: "SCRIPT" });
+      children = (await provider.getChildren()) as ProcessTreeItem[];
+      assert.deepStrictEqual(
+        children.map((c) => c.pid),
+        [5678]
+      );
+
+      provider.setFilter({ states: ["crashed"] });
+      const [empty] = await provider.getChildren();
+      assert.strictEqual(empty.label, "No matching processes");
+      assert.strictEqual(empty.description, "2 hidden by the filter");
+    });
+
+    test("Should list ended processes under a Recent node", async () => {
+      provider.setMCPClient(mockClient as MCPProcessClient);
+      await provider.refresh();
+      provider.setRecent([
+        {
+          pid: 99,
+          executable: "npm",
+          args: ["test"],
+          state: "crashed",
+          exitCode: 1,
+          startTime: 0,
+          endTime: 65000,
+          peakMemoryMB: 80,
+          outputTail: ["FAIL"],
+        },
+      ]);
+
+      const children = await provider.getChildren();
+      const recent = children[children.length - 1];
+      assert.ok(recent instanceof RecentGroupTreeItem);
+
+      const [entry] = (await provider.getChildren(
+        recent
+      )) as RecentProcessTreeItem[];
+      assert.strictEqual(entry.label, "PID 99: npm test");
+      assert.strictEqual(entry.description, "exit code 1 | 1m 5s");
+      assert.strictEqual(entry.contextValue, "recentProcess");
+
+      const details = (await provider.getChildren(entry)) as DetailTreeItem[];
+      assert.deepStrictEqual(
+        details.map((d) => [d.label, d.description]),
+        [
+          ["Exit", "exit code 1"],
+          ["Duration", "1m 5s"],
+          ["Peak CPU", "not sampled"],
+          ["Peak Memory", "80.0 MB"],
+          ["Working Directory", "(server default)"],
+          ["Output", "last 1 lines"],
+        ]
+      );
     });
 
     test("Should handle empty process list", async () => {
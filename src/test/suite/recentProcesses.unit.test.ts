@@ -0,0 +1,104 @@
+import * as assert from "assert";
+import {
+  RecentProcess,
+  describeExit,
+  endedWithFailure,
+  formatDuration,
+  pruneRecent,
+  relaunchParams,
+  tailLines,
+} from "../../recentProcesses";
+
+function entry(pid: number, endTime: number): RecentProcess {
+  return {
+    pid,
+    executable: "node",
+    args: ["server.js"],
+    state: "exited",
+    startTime: endTime - 1000,
+    endTime,
+    outputTail: [],
+  };
+}
+
+/**
+ * Unit tests for the record of recently ended processes
+ */
+suite("Recent Processes Unit Tests", () => {
+  test("Should keep the newest entries within the retention period", () => {
+    const entries = [entry(1, 1000), entry(2, 50000), entry(3, 30000)];
+
+    assert.deepStrictEqual(
+      pruneRecent(entries, 60000, 45000, 10).map((e) => e.pid),
+      [2, 3]
+    );
+    assert.deepStrictEqual(
+      pruneRecent(entries, 60000, 120000, 2).map((e) => e.pid),
+      [2, 3]
+    );
+    assert.deepStrictEqual(pruneRecent(entries, 60000, 0, 10), []);
+  });
+
+  test("Should describe how a process ended", () => {
+    assert.strictEqual(
+      describeExit({ ...entry(1, 0), exitCode: 0 }),
+      "exit code 0"
+    );
+    assert.strictEqual(
+      describeExit({
+        ...entry(1, 0),
+        exitCode: 137,
+        signal: "SIGKILL",
+        terminationReason: "forced",
+      }),
+      "signal SIGKILL, forced"
+    );
+    assert.strictEqual(
+      describeExit({ ...entry(1, 0), state: "crashed" }),
+      "crashed"
+    );
+  });
+
+  test("Should only treat unrequested failures as failures", () => {
+    assert.strictEqual(
+      endedWithFailure({ ...entry(1, 0), exitCode: 0 }),
+      false
+    );
+    assert.strictEqual(endedWithFailure(entry(1, 0)), false);
+    assert.strictEqual(endedWithFailure({ ...entry(1, 0), exitCode: 2 }), true);
+    assert.strictEqual(
+      endedWithFailure({ ...entry(1, 0), state: "crashed" }),
+      true
+    );
+    assert.strictEqual(
+      endedWithFailure({
+        ...entry(1, 0),
+        signal: "SIGTERM",
+        terminationRequested: true,
+      }),
+      false
+    );
+  });
+
+  test("Should format durations and output tails", () => {
+    assert.strictEqual(formatDuration(4400), "4s");
+    assert.strictEqual(formatDuration(125000), "2m 5s");
+    assert.strictEqual(formatDuration(3725000), "1h 2m");
+    assert.deepStrictEqual(tailLines("a\r\nb\n\nc\n", 2), ["b", "c"]);
+  });
+
+  test("Should relaunch with the recorded parameters", () => {
+    assert.deepStrictEqual(
+      relaunchParams(
+        { ...entry(1, 0), cwd: "/app", envNames: ["PORT"] },
+        { PORT: "3000" }
+      ),
+      {
+        executable: "node",
+        args: ["server.js"],
+        cwd: "/app",
+        env: { PORT: "3000" },
+      }
+    );
+  });
+});
@@ -0,0 +1,131 @@
+import * as assert from "assert";
+import { RequestScheduler } from "../../requestScheduler";
+
+/**
+ * A task that completes when the test says so
+ */
+function deferred<T>(value: T) {
+  let release!: () => void;
+  const started: string[] = [];
+  const task = (name: string) => () => {
+    started.push(name);
+    return new Promise<T>((resolve) => {
+      release = () => resolve(value);
+    });
+  };
+  return { task, started, release: () => release() };
+}
+
+function tick(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Unit tests for request prioritization and deduplication
+ */
+suite("Request Scheduler Unit Tests", () => {
+  test("Should run user requests ahead of queued background requests", async () => {
+    const scheduler = new RequestScheduler(2);
+    const order: string[] = [];
+    const releases: Array<() => void> = [];
+    const task = (name: string) => () => {
+      order.push(name);
+      return new Promise<void>((resolve) => releases.push(resolve));
+    };
+
+    scheduler.schedule(task("poll-1"), { priority: "background" });
+    scheduler.schedule(task("poll-2"), { priority: "background" });
+    scheduler.schedule(task("poll-3"), { priority: "background" });
+    const terminate = scheduler.schedule(task("terminate"), {
+      priority: "user",
+    });
+
+    // The reserved slot lets the user request start immediately
+    assert.deepStrictEqual(order, ["poll-1", "terminate"]);
+    assert.deepStrictEqual(scheduler.getStats(), {
+      running: 2,
+      queuedUser: 0,
+      queuedBackground: 2,
+      deduplicated: 0,
+    });
+
+    // Background requests never take the reserved slot
+    releases[1]();
+    await terminate;
+    await tick();
+    assert.deepStrictEqual(order, ["poll-1", "terminate"]);
+
+    releases[0]();
+    await tick();
+    assert.deepStrictEqual(order, ["poll-1", "terminate", "poll-2"]);
+  });
+
+  test("Should share identical in-flight reads", async () => {
+    const scheduler = new RequestScheduler();
+    const { task, started, release } = deferred(["a"]);
+
+    const first = scheduler.schedule(task("first"), {
+      priority: "background",
+      dedupKey: "process_list:{}",
+    });
+    const second = scheduler.schedule(task("second"), {
+      priority: "user",
+      dedupKey: "process_list:{}",
+    });
+
+    release();
+
+    assert.strictEqual(await first, await second);
+    assert.deepStrictEqual(started, ["first"]);
+    assert.strictEqual(scheduler.getStats().deduplicated, 1);
+  });
+
+  test("Should promote a queued background read when a user needs it", async () => {
+    const scheduler = new RequestScheduler(2);
+    const order: string[] = [];
+    const task = (name: string) => () => {
+      order.push(name);
+      return new Promise<void>(() => undefined);
+    };
+
+    scheduler.schedule(task("poll"), { priority: "background" });
+    scheduler.schedule(task("list"), {
+      priority: "background",
+      dedupKey: "process_list:{}",
+    });
+    scheduler.schedule(task("list-again"), {
+      priority: "user",
+      dedupKey: "process_list:{}",
+    });
+
+    assert.deepStrictEqual(order, ["poll", "list"]);
+    assert.strictEqual(scheduler.getStats().queuedBackground, 0);
+  });
+
+  test("Should start a cancelled request without waiting for a slot", async () => {
+    const scheduler = new RequestScheduler(1);
+    const listeners: Array<() => void> = [];
+    const token = {
+      isCancellationRequested: false,
+      onCancellationRequested(listener: () => void) {
+        listeners.push(listener);
+        return { dispose: () => undefined };
+      },
+    };
+
+    scheduler.schedule(() => new Promise<void>(() => undefined), {
+      priority: "user",
+    });
+    const cancelled = scheduler.schedule(
+      () => Promise.reject(new Error("cancelled")),
+      { priority: "user", cancellation: token }
+    );
+    assert.strictEqual(scheduler.getStats().queuedUser, 1);
+
+    token.isCancellationRequested = true;
+    listeners.forEach((listener) => listener());
+
+    await assert.rejects(cancelled, /cancelled/);
+    assert.strictEqual(scheduler.getStats().queuedUser, 0);
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import {
+  AlertDebouncer,
+  ResourceAlert,
+  evaluateThresholds,
+  resolveThresholds,
+} from "../../resourceAlerts";
+
+function alert(level: ResourceAlert["level"]): ResourceAlert {
+  return { pid: 10, metric: "memoryMB", level, value: 900, threshold: 800 };
+}
+
+/**
+ * Unit tests for resource threshold alerts
+ */
+suite("Resource Alerts Unit Tests", () => {
+  test("Should merge matching executable overrides per metric", () => {
+    const thresholds = resolveThresholds(
+      "/usr/bin/node",
+      {
+        cpuPercent: { warning: 80, critical: 95 },
+        memoryMB: { warning: 1024, critical: 2048 },
+      },
+      {
+        node: { memoryMB: { warning: 4096 } },
+        python3: { cpuPercent: { warning: 10 } },
+        "/usr/bin/*": { uptimeSeconds: { critical: 3600 } },
+      }
+    );
+
+    assert.deepStrictEqual(thresholds, {
+      cpuPercent: { warning: 80, critical: 95 },
+      memoryMB: { warning: 4096, critical: 2048 },
+      uptimeSeconds: { critical: 3600 },
+    });
+  });
+
+  test("Should report the most severe threshold crossed", () => {
+    const alerts = evaluateThresholds(
+      10,
+      { cpuPercent: 97, memoryMB: 1500, uptimeSeconds: 30 },
+      {
+        cpuPercent: { warning: 80, critical: 95 },
+        memoryMB: { warning: 1024, critical: 2048 },
+        uptimeSeconds: { warning: 60 },
+      }
+    );
+
+    assert.deepStrictEqual(
+      alerts.map((a) => [a.metric, a.level, a.threshold]),
+      [
+        ["cpuPercent", "critical", 95],
+        ["memoryMB", "warning", 1024],
+      ]
+    );
+  });
+
+  test("Should suppress repeats until the interval passes", () => {
+    const debouncer = new AlertDebouncer(60000);
+
+    assert.strictEqual(debouncer.shouldNotify(alert("warning"), 0), true);
+    assert.strictEqual(debouncer.shouldNotify(alert("warning"), 5000), false);
+    assert.strictEqual(debouncer.shouldNotify(alert("warning"), 10000), false);
+    assert.strictEqual(debouncer.shouldNotify(alert("warning"), 60000), true);
+  });
+
+  test("Should raise an escalation to critical immediately", () => {
+    const debouncer = new AlertDebouncer(60000);
+
+    assert.strictEqual(debouncer.shouldNotify(alert("warning"), 0), true);
+    assert.strictEqual(debouncer.shouldNotify(alert("critical"), 1000), true);
+    assert.strictEqual(debouncer.shouldNotify(alert("critical"), 2000), false);
+    assert.strictEqual(debouncer.shouldNotify(alert("warning"), 3000), false);
+
+    debouncer.forget(10);
+    assert.strictEqual(debouncer.shouldNotify(alert("warning"), 4000), true);
+  });
+});
@@ -0,0 +1,133 @@
+import * as assert from "assert";
+import type { ProcessStatsSample } from "../../mcpClient";
+import {
+  ResourceHistory,
+  formatRunComparison,
+  summarizeRun,
+} from "../../resourceHistory";
+
+function sample(timestamp: number, memoryMB = 100): ProcessStatsSample {
+  return {
+    timestamp,
+    cpuPercent: 10,
+    memoryMB,
+    threadCount: 4,
+    ioRead: timestamp,
+    ioWrite: 0,
+  };
+}
+
+const runner = { pid: 10, executable: "npm", args: ["run", "test"] };
+
+/**
+ * Unit tests for the persisted resource history
+ */
+suite("Resource History Unit Tests", () => {
+  test("Should group runs by command line and end finished ones", () => {
+    const history = new ResourceHistory();
+    history.record(runner, sample(1000));
+    history.record(runner, sample(2000));
+    history.record(
+      { pid: 11, executable: "npm", args: ["run", "lint"] },
+      sample(1500)
+    );
+
+    assert.strictEqual(history.finishRuns(new Set([11]), 3000), true);
+    assert.deepStrictEqual(history.getCommands(), [
+      "npm run lint",
+      "npm run test",
+    ]);
+
+    const [run] = history.getRuns("npm run test");
+    assert.strictEqual(run.samples.length, 2);
+    assert.strictEqual(run.endTime, 2000);
+
+    // A new run starts once the previous one ended, even with the same PID
+    history.record(runner, sample(5000));
+    assert.strictEqual(history.getRuns("npm run test").length, 2);
+  });
+
+  test("Should stay within its limits", () => {
+    const history = new ResourceHistory(undefined, {
+      maxRunsPerCommand: 2,
+      maxCommands: 1,
+      maxSamplesPerRun: 4,
+    });
+    for (let pid = 1; pid <= 3; pid++) {
+      history.record({ ...runner, pid }, sample(pid * 1000));
+    }
+    for (let t = 3001; t <= 3004; t++) {
+      history.record({ ...runner, pid: 3 }, sample(t));
+    }
+    history.record({ pid: 9, executable: "node", args: [] }, sample(9000));
+
+    assert.deepStrictEqual(history.getCommands(), ["node"]);
+    history.setLimits({
+      maxRunsPerCommand: 2,
+      maxCommands: 5,
+      maxSamplesPerRun: 4,
+    });
+    history.record({ ...runner, pid: 1 }, sample(10000));
+    history.record({ ...runner, pid: 2 }, sample(11000));
+    history.record({ ...runner, pid: 3 }, sample(12000));
+    assert.deepStrictEqual(
+      history.getRuns("npm run test").map((run) => run.pid),
+      [3, 2]
+    );
+  });
+
+  test("Should thin long runs instead of dropping their start", () => {
+    const history = new ResourceHistory(undefined, {
+      maxRunsPerCommand: 1,
+      maxCommands: 1,
+      maxSamplesPerRun: 4,
+    });
+    for (let t = 0; t <= 4; t++) {
+      history.record(runner, sample(t * 1000));
+    }
+
+    assert.deepStrictEqual(
+      history.getRuns("npm run test")[0].samples.map((s) => s.timestamp),
+      [0, 2000, 4000]
+    );
+  });
+
+  test("Should round-trip through JSON", () => {
+    const history = new ResourceHistory();
+    history.record(runner, sample(1000));
+    const restored = new ResourceHistory(
+      JSON.parse(JSON.stringify(history.toJSON()))
+    );
+
+    assert.deepStrictEqual(restored.toJSON(), history.toJSON());
+  });
+
+  test("Should summarize and compare runs", () => {
+    const history = new ResourceHistory();
+    history.record(runner, sample(0, 100));
+    history.record(runner, sample(4000, 300));
+    history.finishRuns(new Set(), 4000);
+    history.record({ ...runner, pid: 11 }, sample(10000, 150));
+    history.record({ ...runner, pid: 11 }, sample(14000, 450));
+    const [candidate, baseline] = history.getRuns("npm run test");
+
+    assert.deepStrictEqual(summarizeRun(baseline), {
+      samples: 2,
+      durationMs: 4000,
+      peakCpuPercent: 10,
+      averageCpuPercent: 10,
+      peakMemoryMB: 300,
+      averageMemoryMB: 200,
+      peakThreadCount: 4,
+      ioRead: 4000,
+      ioWrite: 0,
+    });
+
+    const report = formatRunComparison("npm run test", baseline, candidate);
+    assert.match(
+      report,
+      /\| Peak memory \| 300\.0 MB \| 450\.0 MB \| \+50\.0% \|/
+    );
+    assert.match(report, /\| I\/O write \| 0\.00 MB \| 0\.00 MB \| 0% \|/);
+  });
+});
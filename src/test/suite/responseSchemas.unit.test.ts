@@ -0,0 +1,401 @@
+import * as assert from "assert";
+import {
+  InvalidResponseError,
+  parseIdResult,
+  parseInitializeResult,
+  parseProcessInfo,
+  parseProcessEvent,
+  parseProcessList,
+  parseProcessOutput,
+  parseProcessStats,
+  parseServiceStartResult,
+  parseStartResult,
+  parseTerminateResult,
+  parseToolCallResult,
+  parseToolList,
+} from "../../responseSchemas";
+
+/**
+ * Unit tests for tool response validation and normalization
+ */
+suite("Response Schemas Unit Tests", () => {
+  suite("parseProcessInfo", () => {
+    test("Should normalize status-only records", () => {
+      const info = parseProcessInfo(
+        {
+          pid: 42,
+          executable: "node",
+          args: ["server.js"],
+          status: "running",
+          uptime: 1000,
+          startTime: "2024-01-01T00:00:00.000Z",
+        },
+        "process_get_status"
+      );
+
+      assert.strictEqual(info.pid, 42);
+      assert.strictEqual(info.id, "42");
+      assert.strictEqual(info.state, "running");
+      assert.strictEqual(info.status, "running");
+      assert.strictEqual(info.command, "node");
+      assert.deepStrictEqual(info.args, ["server.js"]);
+    });
+
+    test("Should accept numeric string pids and id fallback", () => {
+      const fromString = parseProcessInfo(
+        { pid: "7", command: "sleep", state: "running" },
+        "process_list"
+      );
+      assert.strictEqual(fromString.pid, 7);
+      assert.strictEqual(fromString.executable, "sleep");
+
+      const fromId = parseProcessInfo(
+        { id: 8, command: "sleep", state: "stopped" },
+        "process_list"
+      );
+      assert.strictEqual(fromId.pid, 8);
+      assert.deepStrictEqual(fromId.args, []);
+    });
+
+    test("Should read working directory, group and service aliases", () => {
+      const info = parseProcessInfo(
+        {
+          pid: 3,
+          command: "node",
+          state: "running",
+          workingDirectory: "/srv/app",
+          groupName: "web",
+          serviceName: "api",
+        },
+        "process_list"
+      );
+      assert.strictEqual(info.cwd, "/srv/app");
+      assert.strictEqual(info.group, "web");
+      assert.strictEqual(info.service, "api");
+    });
+
+    test("Should map state aliases to canonical states", () => {
+      const info = parseProcessInfo(
+        { pid: 1, command: "node", state: "terminated" },
+        "process_list"
+      );
+      assert.strictEqual(info.state, "stopped");
+    });
+
+    test("Should reject records without a pid", () => {
+      assert.throws(
+        () => parseProcessInfo({ command: "node", state: "running" }, "t"),
+        InvalidResponseError
+      );
+    });
+
+    test("Should reject unknown states", () => {
+      assert.throws(
+        () =>
+          parseProcessInfo({ pid: 1, command: "node", state: "zombie" }, "t"),
+        /unknown process state "zombie"/
+      );
+    });
+
+    test("Should reject non-string args", () => {
+      assert.throws(
+        () =>
+          parseProcessInfo(
+            { pid: 1, command: "node", state: "running", args: [1, 2] },
+            "t"
+          ),
+        InvalidResponseError
+      );
+    });
+  });
+
+  suite("parseProcessList", () => {
+    test("Should accept wrapped and bare lists", () => {
+      const record = { pid: 1, command: "node", state: "running" };
+      assert.strictEqual(
+        parseProcessList({ processes: [record] }, "process_list").length,
+        1
+      );
+      assert.strictEqual(parseProcessList([record], "process_list").length, 1);
+    });
+
+    test("Should reject non-list payloads with the tool name", () => {
+      assert.throws(
+        () => parseProcessList("Server busy", "process_list"),
+        (error: any) =>
+          error instanceof InvalidResponseError &&
+          error.tool === "process_list" &&
+          error.message.startsWith("Invalid response from process_list")
+      );
+    });
+  });
+
+  suite("parseProcessStats", () => {
+    test("Should flatten nested stats", () => {
+      const stats = parseProcessStats(
+        {
+          state: "running",
+          uptime: 5000,
+          stats: {
+            cpuPercent: 12.5,
+            memoryMB: 64,
+            threadCount: 4,
+            ioRead: 1024,
+            ioWrite: 2048,
+          },
+        },
+        "process_get_stats"
+      );
+
+      assert.strictEqual(stats.cpuPercent, 12.5);
+      assert.strictEqual(stats.memoryMB, 64);
+      assert.strictEqual(stats.threadCount, 4);
+      assert.strictEqual(stats.ioWrite, 2048);
+      assert.strictEqual(stats.state, "running");
+    });
+
+    test("Should default optional metrics to zero", () => {
+      const stats = parseProcessStats(
+        { cpuPercent: 1, memoryMB: 2 },
+        "process_get_stats"
+      );
+      assert.strictEqual(stats.threadCount, 0);
+      assert.strictEqual(stats.ioRead, 0);
+      assert.strictEqual(stats.history, undefined);
+    });
+
+    test("Should parse history samples", () => {
+      const stats = parseProcessStats(
+        {
+          cpuPercent: 1,
+          memoryMB: 2,
+          history: [
+            {
+              timestamp: "2024-01-01T00:00:00.000Z",
+              cpuPercent: 3,
+              memoryMB: 4,
+            },
+            { timestamp: 1704067201000, stats: { cpuPercent: 5, memoryMB: 6 } },
+          ],
+        },
+        "process_get_stats"
+      );
+
+      assert.strictEqual(stats.history?.length, 2);
+      assert.strictEqual(stats.history?.[0].timestamp, 1704067200000);
+      assert.strictEqual(stats.history?.[1].memoryMB, 6);
+    });
+
+    test("Should reject stats without cpu or memory", () => {
+      assert.throws(
+        () => parseProcessStats({ state: "running" }, "process_get_stats"),
+        InvalidResponseError
+      );
+    });
+  });
+
+  suite("Other results", () => {
+    test("parseStartResult should read pid from any known field", () => {
+      assert.strictEqual(parseStartResult({ pid: 10 }, "process_start"), 10);
+      assert.strictEqual(
+        parseStartResult({ processId: "11" }, "process_start"),
+        11
+      );
+      assert.throws(
+        () => parseStartResult({}, "process_start"),
+        InvalidResponseError
+      );
+    });
+
+    test("parseTerminateResult should validate field types", () => {
+      assert.deepStrictEqual(
+        parseTerminateResult(
+          { exitCode: 0, terminationReason: "graceful" },
+          "process_terminate"
+        ),
+        { exitCode: 0, terminationReason: "graceful" }
+      );
+      assert.throws(
+        () => parseTerminateResult({ exitCode: "abc" }, "process_terminate"),
+        InvalidResponseError
+      );
+    });
+
+    test("parseProcessOutput should combine stdout and stderr", () => {
+      assert.deepStrictEqual(
+        parseProcessOutput(
+          { stdout: "out", stderr: "err" },
+          "process_get_output"
+        ),
+        { output: "out\nerr" }
+      );
+      assert.deepStrictEqual(parseProcessOutput("raw", "process_get_output"), {
+        output: "raw",
+      });
+    });
+
+    test("parseIdResult should fall back to the name field", () => {
+      assert.deepStrictEqual(
+        parseIdResult(
+          { name: "builders" },
+          "process_create_group",
+          "groupId",
+          "name"
+        ),
+        { groupId: "builders" }
+      );
+    });
+
+    test("parseServiceStartResult should read an optional pid", () => {
+      assert.deepStrictEqual(
+        parseServiceStartResult(
+          { name: "api", pid: 12 },
+          "process_start_service"
+        ),
+        { serviceId: "api", pid: 12 }
+      );
+      assert.deepStrictEqual(
+        parseServiceStartResult({ serviceId: "s1" }, "process_start_service"),
+        { serviceId: "s1" }
+      );
+    });
+
+    test("parseToolList should default missing schemas and descriptions", () => {
+      const tools = parseToolList(
+        {
+          tools: [
+            {
+              name: "process_start",
+              description: "Start a process",
+              inputSchema: { type: "object", required: ["executable"] },
+            },
+            { name: "process_list" },
+          ],
+        },
+        "tools/list"
+      );
+
+      assert.strictEqual(tools.length, 2);
+      assert.deepStrictEqual(tools[0].inputSchema.required, ["executable"]);
+      assert.strictEqual(tools[1].description, "");
+      assert.deepStrictEqual(tools[1].inputSchema, {
+        type: "object",
+        properties: {},
+      });
+      assert.throws(
+        () => parseToolList({ tools: [{ description: "x" }] }, "tools/list"),
+        InvalidResponseError
+      );
+    });
+
+    test("parseToolCallResult should read the error flag and first text", () => {
+      assert.deepStrictEqual(
+        parseToolCallResult(
+          { content: [{ type: "text", text: '{"pid":1}' }] },
+          "process_start"
+        ),
+        { isError: false, text: '{"pid":1}' }
+      );
+      assert.deepStrictEqual(
+        parseToolCallResult(
+          { content: [{ type: "text", text: "denied" }], isError: true },
+          "process_start"
+        ),
+        { isError: true, text: "denied" }
+      );
+      assert.deepStrictEqual(
+        parseToolCallResult({ content: [] }, "process_list"),
+        { isError: false, text: undefined }
+      );
+      assert.throws(
+        () => parseToolCallResult({ result: "ok" }, "process_list"),
+        /missing tool result content/
+      );
+      assert.throws(
+        () => parseToolCallResult({ content: [{ text: 42 }] }, "process_list"),
+        InvalidResponseError
+      );
+    });
+  });
+
+  suite("parseInitializeResult", () => {
+    test("Should read server info, protocol and capabilities", () => {
+      assert.deepStrictEqual(
+        parseInitializeResult({
+          protocolVersion: "2024-11-05",
+          serverInfo: { name: "mcp-process", version: "1.5.12" },
+          capabilities: { tools: {} },
+        }),
+        {
+          serverName: "mcp-process",
+          serverVersion: "1.5.12",
+          protocolVersion: "2024-11-05",
+          capabilities: { tools: {} },
+        }
+      );
+    });
+
+    test("Should tolerate servers without serverInfo", () => {
+      const handshake = parseInitializeResult({});
+      assert.strictEqual(handshake.serverVersion, undefined);
+      assert.deepStrictEqual(handshake.capabilities, {});
+    });
+  });
+
+  suite("parseProcessEvent", () => {
+    test("Should parse exit events", () => {
+      const event = parseProcessEvent("notifications/process/exited", {
+        pid: "12",
+        exitCode: 0,
+        timestamp: "2024-01-01T00:00:00.000Z",
+      });
+
+      assert.strictEqual(event?.type, "exited");
+      assert.strictEqual(event?.pid, 12);
+      assert.strictEqual(event?.exitCode, 0);
+      assert.strictEqual(event?.timestamp, 1704067200000);
+    });
+
+    test("Should take the pid from an embedded process record", () => {
+      const event = parseProcessEvent("notifications/process/started", {
+        process: { pid: 7, command: "node", state: "running" },
+      });
+
+      assert.strictEqual(event?.pid, 7);
+      assert.strictEqual(event?.process?.state, "running");
+    });
+
+    test("Should validate output streams", () => {
+      const event = parseProcessEvent("notifications/process/output", {
+        pid: 3,
+        stream: "stderr",
+        data: "oops",
+      });
+      assert.strictEqual(event?.stream, "stderr");
+      assert.strictEqual(event?.data, "oops");
+
+      assert.throws(
+        () =>
+          parseProcessEvent("notifications/process/output", {
+            pid: 3,
+            stream: "stdin",
+          }),
+        InvalidResponseError
+      );
+    });
+
+    test("Should ignore unknown event types", () => {
+      assert.strictEqual(
+        parseProcessEvent("notifications/process/paused", { pid: 1 }),
+        undefined
+      );
+    });
+
+    test("Should reject events without a pid", () => {
+      assert.throws(
+        () => parseProcessEvent("notifications/process/crashed", {}),
+        /missing "pid"/
+      );
+    });
+  });
+});
@@ -303,6 +303,27 @@ suite("Security Tree Provider Test Suite", () => {
       assert.ok(children[2].description?.includes("300"));
     });
 
+    test("Should show real values instead of defaults for limits", async () => {
+      const partialClient = {
+        ...mockClient,
+        getConfig: () => ({
+          allowedExecutables: ["node"],
+          defaultResourceLimits: {
+            maxCpuPercent: 0,
+          },
+        }),
+      };
+
+      provider.setMCPClient(partialClient as MCPProcessClient);
+
+      const root = await provider.getChildren();
+      const limitsItem = root[1];
+      const children = await provider.getChildren(limitsItem);
+
+      assert.strictEqual(children[0].description, "Unlimited");
+      assert.strictEqual(children[1].description, "Not set");
+    });
+
     test("Should show enabled/disabled status correctly", async () => {
       provider.setMCPClient(mockClient as MCPProcessClient);
 
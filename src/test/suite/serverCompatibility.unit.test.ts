@@ -0,0 +1,87 @@
+import * as assert from "assert";
+import {
+  IncompatibleServerError,
+  checkServerCompatibility,
+  compareVersions,
+  describeCapabilities,
+  parseVersion,
+} from "../../serverCompatibility";
+
+/**
+ * Unit tests for server version and protocol checks
+ */
+suite("Server Compatibility Unit Tests", () => {
+  test("Should parse versions with prefixes and prerelease tags", () => {
+    assert.deepStrictEqual(parseVersion("v1.5.10"), [1, 5, 10]);
+    assert.deepStrictEqual(parseVersion("2.0.0-beta.1"), [2, 0, 0]);
+    assert.strictEqual(parseVersion("latest"), undefined);
+  });
+
+  test("Should compare versions numerically", () => {
+    assert.ok(compareVersions([1, 10, 0], [1, 9, 9]) > 0);
+    assert.strictEqual(compareVersions([1, 5, 10], [1, 5, 10]), 0);
+  });
+
+  test("Should accept servers inside the compatible range", () => {
+    assert.strictEqual(
+      checkServerCompatibility({
+        serverName: "mcp-process",
+        serverVersion: "1.6.0",
+        protocolVersion: "2024-11-05",
+        capabilities: {},
+      }),
+      undefined
+    );
+  });
+
+  test("Should accept servers that do not report a version", () => {
+    assert.strictEqual(
+      checkServerCompatibility({ capabilities: {} }),
+      undefined
+    );
+  });
+
+  test("Should reject servers outside the range", () => {
+    assert.match(
+      checkServerCompatibility({ serverVersion: "1.4.2", capabilities: {} }) ??
+        "",
+      /outside the supported range/
+    );
+    assert.match(
+      checkServerCompatibility({ serverVersion: "2.0.0", capabilities: {} }) ??
+        "",
+      /outside the supported range/
+    );
+  });
+
+  test("Should reject unsupported protocol versions", () => {
+    assert.match(
+      checkServerCompatibility({
+        serverVersion: "1.6.0",
+        protocolVersion: "2023-01-01",
+        capabilities: {},
+      }) ?? "",
+      /protocol version 2023-01-01 is not supported/
+    );
+  });
+
+  test("Should expose the server version on errors", () => {
+    const error = new IncompatibleServerError("too old", {
+      serverVersion: "1.0.0",
+      capabilities: {},
+    });
+    assert.strictEqual(error.serverVersion, "1.0.0");
+    assert.strictEqual(
+      error.message,
+      "Incompatible MCP ACS Process server: too old"
+    );
+  });
+
+  test("Should describe capabilities", () => {
+    assert.strictEqual(
+      describeCapabilities({ tools: { listChanged: true }, logging: {} }),
+      "tools (listChanged), logging"
+    );
+    assert.strictEqual(describeCapabilities({}), "none");
+  });
+});
@@ -0,0 +1,99 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CONFIG_DIR_PREFIX,
+  copyEnvironment,
+  filterEnvironment,
+  removePrivateConfigFile,
+  sweepStaleConfigFiles,
+  writePrivateConfigFile,
+} from "../../serverEnvironment";
+
+/**
+ * Unit tests for the server's config file and environment
+ */
+suite("Server Environment Unit Tests", () => {
+  let tmpDir: string;
+
+  setup(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "mcp-env-test-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  suite("Environment", () => {
+    test("Should copy only defined variables", () => {
+      assert.deepStrictEqual(copyEnvironment({ A: "1", B: undefined }), {
+        A: "1",
+      });
+    });
+
+    test("Should keep only allowlisted variables", () => {
+      const env = filterEnvironment(
+        { PATH: "/bin", GITHUB_TOKEN: "secret", Path: "x" },
+        ["PATH"],
+        false
+      );
+      assert.deepStrictEqual(env, { PATH: "/bin" });
+    });
+
+    test("Should match names case-insensitively when requested", () => {
+      const env = filterEnvironment(
+        { Path: "C:\\Windows", SECRET: "x" },
+        ["PATH"],
+        true
+      );
+      assert.deepStrictEqual(env, { Path: "C:\\Windows" });
+    });
+  });
+
+  suite("Private config file", () => {
+    test("Should write the config readable only by the owner", () => {
+      const filePath = writePrivateConfigFile(
+        { allowedExecutables: ["node"] },
+        tmpDir
+      );
+
+      assert.deepStrictEqual(JSON.parse(fs.readFileSync(filePath, "utf8")), {
+        allowedExecutables: ["node"],
+      });
+      assert.ok(
+        path.basename(path.dirname(filePath)).startsWith(CONFIG_DIR_PREFIX)
+      );
+
+      if (process.platform !== "win32") {
+        assert.strictEqual(fs.statSync(filePath).mode & 0o777, 0o600);
+        assert.strictEqual(
+          fs.statSync(path.dirname(filePath)).mode & 0o777,
+          0o700
+        );
+      }
+    });
+
+    test("Should remove the file and its directory", () => {
+      const filePath = writePrivateConfigFile({}, tmpDir);
+      removePrivateConfigFile(filePath);
+
+      assert.strictEqual(fs.existsSync(path.dirname(filePath)), false);
+      assert.doesNotThrow(() => removePrivateConfigFile(filePath));
+    });
+
+    test("Should sweep only stale config directories", () => {
+      const stale = writePrivateConfigFile({}, tmpDir);
+      const unrelated = path.join(tmpDir, "other-dir");
+      fs.mkdirSync(unrelated);
+
+      assert.strictEqual(sweepStaleConfigFiles(60000, tmpDir), 0);
+      assert.strictEqual(
+        sweepStaleConfigFiles(60000, tmpDir, Date.now() + 120000),
+        1
+      );
+      assert.strictEqual(fs.existsSync(stale), false);
+      assert.strictEqual(fs.existsSync(unrelated), true);
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import * as assert from "assert";
+import {
+  SseParser,
+  parseSseEndpoint,
+  parseTcpEndpoint,
+  reconnectDelay,
+  resolveAttachTarget,
+  resolveMessageEndpoint,
+  splitLines,
+} from "../../serverTransport";
+
+/**
+ * Unit tests for attaching to a running server
+ */
+suite("Server Transport Unit Tests", () => {
+  suite("resolveAttachTarget", () => {
+    test("Should not attach for stdio", () => {
+      assert.strictEqual(resolveAttachTarget("stdio", "", ""), undefined);
+    });
+
+    test("Should require a socket path for socket transport", () => {
+      assert.throws(
+        () => resolveAttachTarget("socket", "  ", ""),
+        /socketPath must be set/
+      );
+      assert.deepStrictEqual(
+        resolveAttachTarget("socket", "/tmp/mcp.sock", ""),
+        { transport: "socket", address: "/tmp/mcp.sock" }
+      );
+    });
+
+    test("Should validate endpoints for tcp and sse", () => {
+      assert.deepStrictEqual(
+        resolveAttachTarget("tcp", "", " 127.0.0.1:7777 "),
+        { transport: "tcp", address: "127.0.0.1:7777" }
+      );
+      assert.throws(() => resolveAttachTarget("sse", "", ""), /Invalid SSE/);
+    });
+
+    test("Should reject unknown transports", () => {
+      assert.throws(
+        () => resolveAttachTarget("websocket", "", ""),
+        /Unknown server transport/
+      );
+    });
+  });
+
+  suite("Endpoints", () => {
+    test("Should parse loopback TCP endpoints", () => {
+      assert.deepStrictEqual(parseTcpEndpoint("localhost:80"), {
+        host: "localhost",
+        port: 80,
+      });
+      assert.deepStrictEqual(parseTcpEndpoint("tcp://[::1]:9000"), {
+        host: "::1",
+        port: 9000,
+      });
+    });
+
+    test("Should reject remote hosts and bad ports", () => {
+      assert.throws(
+        () => parseTcpEndpoint("10.0.0.5:7777"),
+        /only localhost servers/
+      );
+      assert.throws(() => parseTcpEndpoint("127.0.0.1:70000"), /Invalid TCP/);
+      assert.throws(() => parseTcpEndpoint("127.0.0.1"), /expected host:port/);
+      assert.throws(
+        () => parseSseEndpoint("http://example.com/sse"),
+        /only localhost servers/
+      );
+      assert.throws(
+        () => parseSseEndpoint("ftp://127.0.0.1/sse"),
+        /must use http or https/
+      );
+    });
+
+    test("Should keep SSE message endpoints on the stream's origin", () => {
+      const sse = parseSseEndpoint("http://127.0.0.1:7777/sse");
+      assert.strictEqual(
+        resolveMessageEndpoint("/messages?session=1", sse).href,
+        "http://127.0.0.1:7777/messages?session=1"
+      );
+      assert.throws(
+        () => resolveMessageEndpoint("http://example.com/messages", sse),
+        /not on the event stream's origin/
+      );
+      assert.throws(
+        () => resolveMessageEndpoint("//127.0.0.1:8888/messages", sse),
+        /not on the event stream's origin/
+      );
+    });
+  });
+
+  suite("Wire helpers", () => {
+    test("Should split complete lines and keep the remainder", () => {
+      assert.deepStrictEqual(splitLines('{"a":1}\r\n\n{"b":2}\n{"c"'), {
+        lines: ['{"a":1}', '{"b":2}'],
+        rest: '{"c"',
+      });
+    });
+
+    test("Should parse SSE events across chunks", () => {
+      const parser = new SseParser();
+      assert.deepStrictEqual(parser.push("event: endpoint\ndata: /mess"), []);
+      assert.deepStrictEqual(parser.push("ages?s=1\n\n: ping\n\ndata: {}\n"), [
+        { event: "endpoint", data: "/messages?s=1" },
+      ]);
+      assert.deepStrictEqual(parser.push("\n"), [
+        { event: "message", data: "{}" },
+      ]);
+    });
+
+    test("Should back off exponentially up to a cap", () => {
+      assert.strictEqual(reconnectDelay(1000, 0), 1000);
+      assert.strictEqual(reconnectDelay(1000, 2), 4000);
+      assert.strictEqual(reconnectDelay(1000, 10), 30000);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import * as assert from "assert";
+import {
+  RestartSettings,
+  STABLE_RUN_MS,
+  ServiceState,
+  backoffDelay,
+  decideRestart,
+  describeRestartSettings,
+  describeServiceState,
+} from "../../serviceSupervision";
+
+const settings: RestartSettings = {
+  policy: "on-failure",
+  maxRestarts: 3,
+  backoffInitialMs: 1000,
+  backoffMaxMs: 5000,
+};
+
+function serviceState(overrides: Partial<ServiceState> = {}): ServiceState {
+  return {
+    definition: {
+      name: "api",
+      executable: "node",
+      args: ["server.js"],
+      restart: settings,
+    },
+    status: "running",
+    startedAt: 0,
+    restartCount: 0,
+    consecutiveRestarts: 0,
+    stopRequested: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Unit tests for service restart policies
+ */
+suite("Service Supervision Unit Tests", () => {
+  test("Should double the backoff up to the maximum", () => {
+    assert.deepStrictEqual(
+      [1, 2, 3, 4, 5].map((attempt) => backoffDelay(attempt, settings)),
+      [1000, 2000, 4000, 5000, 5000]
+    );
+  });
+
+  test("Should restart by policy unless stopped from VS Code", () => {
+    assert.deepStrictEqual(decideRestart(serviceState(), true, 1000), {
+      restart: true,
+      attempt: 1,
+      delayMs: 1000,
+    });
+    assert.deepStrictEqual(decideRestart(serviceState(), false, 1000), {
+      restart: false,
+      status: "stopped",
+    });
+    assert.deepStrictEqual(
+      decideRestart(serviceState({ stopRequested: true }), true, 1000),
+      { restart: false, status: "stopped" }
+    );
+
+    const always = serviceState({
+      definition: {
+        ...serviceState().definition,
+        restart: { ...settings, policy: "always" },
+      },
+    });
+    assert.strictEqual(decideRestart(always, false, 1000).restart, true);
+
+    const never = serviceState({
+      definition: {
+        ...serviceState().definition,
+        restart: { ...settings, policy: "never" },
+      },
+    });
+    assert.strictEqual(decideRestart(never, true, 1000).restart, false);
+  });
+
+  test("Should detect a crash loop and reset the count after a stable run", () => {
+    const looping = serviceState({ consecutiveRestarts: 3 });
+    assert.deepStrictEqual(decideRestart(looping, true, 1000), {
+      restart: false,
+      status: "crash-loop",
+    });
+    assert.deepStrictEqual(decideRestart(looping, true, STABLE_RUN_MS), {
+      restart: true,
+      attempt: 1,
+      delayMs: 1000,
+    });
+
+    const unlimited = serviceState({
+      consecutiveRestarts: 10,
+      definition: {
+        ...serviceState().definition,
+        restart: { ...settings, maxRestarts: 0 },
+      },
+    });
+    assert.deepStrictEqual(decideRestart(unlimited, true, 1000), {
+      restart: true,
+      attempt: 11,
+      delayMs: 5000,
+    });
+  });
+
+  test("Should describe restart settings and service state", () => {
+    assert.strictEqual(
+      describeRestartSettings(settings),
+      "on-failure, up to 3 restarts, backoff 1s to 5s"
+    );
+    assert.strictEqual(
+      describeRestartSettings({ ...settings, policy: "never" }),
+      "never"
+    );
+
+    assert.strictEqual(
+      describeServiceState(serviceState({ restartCount: 2 }), 65_000),
+      "running · up 1m 5s · 2 restart(s)"
+    );
+    assert.strictEqual(
+      describeServiceState(
+        serviceState({
+          status: "backoff",
+          consecutiveRestarts: 2,
+          restartCount: 1,
+        }),
+        0
+      ),
+      "waiting to restart (attempt 2/3, 2s backoff) · 1 restart(s)"
+    );
+    assert.strictEqual(
+      describeServiceState(
+        serviceState({ status: "crash-loop", consecutiveRestarts: 3 }),
+        0
+      ),
+      "crash loop · gave up after 3 restarts"
+    );
+  });
+});
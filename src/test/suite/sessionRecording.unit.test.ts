@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import {
+  ReplaySession,
+  SessionRecord,
+  parseRecording,
+  serializeRecord,
+} from "../../sessionRecording";
+
+function request(
+  method: string,
+  params: unknown,
+  result: unknown
+): SessionRecord {
+  return { type: "request", time: 0, method, params, durationMs: 1, result };
+}
+
+/**
+ * Unit tests for recorded sessions and their replay
+ */
+suite("Session Recording Unit Tests", () => {
+  test("Should round-trip records through JSONL", () => {
+    const records: SessionRecord[] = [
+      request("initialize", { protocolVersion: "2024-11-05" }, {}),
+      {
+        type: "notification",
+        time: 1,
+        from: "server",
+        method: "notifications/process/exited",
+        params: { pid: 1 },
+      },
+    ];
+
+    const text = records.map(serializeRecord).join("") + "\n";
+
+    assert.deepStrictEqual(parseRecording(text), records);
+  });
+
+  test("Should report the line of an invalid record", () => {
+    assert.throws(
+      () => parseRecording(`${serializeRecord(request("a", {}, {}))}{"x":1}`),
+      /line 2/
+    );
+  });
+
+  test("Should prefer an exact params match regardless of key order", () => {
+    const session = new ReplaySession([
+      request(
+        "tools/call",
+        { name: "process_get_stats", arguments: { pid: 1 } },
+        "one"
+      ),
+      request(
+        "tools/call",
+        { name: "process_get_stats", arguments: { pid: 2 } },
+        "two"
+      ),
+    ]);
+
+    const response = session.respond("tools/call", {
+      arguments: { pid: 2 },
+      name: "process_get_stats",
+    });
+
+    assert.strictEqual(response?.result, "two");
+  });
+
+  test("Should fall back to the same tool, then reuse the last recording", () => {
+    const session = new ReplaySession([
+      request("tools/call", { name: "process_list", arguments: {} }, "first"),
+      request("tools/call", { name: "process_start", arguments: {} }, "start"),
+      request("tools/call", { name: "process_list", arguments: {} }, "second"),
+    ]);
+    const list = { name: "process_list", arguments: { filter: "x" } };
+
+    assert.strictEqual(session.respond("tools/call", list)?.result, "first");
+    assert.strictEqual(session.respond("tools/call", list)?.result, "second");
+    assert.strictEqual(session.respond("tools/call", list)?.result, "second");
+    assert.strictEqual(session.respond("resources/list", {}), undefined);
+  });
+
+  test("Should replay server notifications once after their request", () => {
+    const session = new ReplaySession([
+      request("initialize", {}, {}),
+      {
+        type: "notification",
+        time: 1,
+        from: "client",
+        method: "initialized",
+      },
+      {
+        type: "notification",
+        time: 2,
+        from: "server",
+        method: "notifications/tools/list_changed",
+      },
+    ]);
+
+    assert.deepStrictEqual(session.respond("initialize", {})?.notifications, [
+      { method: "notifications/tools/list_changed", params: undefined },
+    ]);
+    assert.deepStrictEqual(
+      session.respond("initialize", {})?.notifications,
+      []
+    );
+  });
+});
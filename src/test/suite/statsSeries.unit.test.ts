@@ -0,0 +1,74 @@
+import * as assert from "assert";
+import type { ProcessStatsSample } from "../../mcpClient";
+import {
+  ioRates,
+  mergeSamples,
+  samplesToCsv,
+  windowSamples,
+} from "../../statsSeries";
+
+function sample(
+  timestamp: number,
+  overrides: Partial<ProcessStatsSample> = {}
+): ProcessStatsSample {
+  return {
+    timestamp,
+    cpuPercent: 1,
+    memoryMB: 10,
+    threadCount: 2,
+    ioRead: 0,
+    ioWrite: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Unit tests for resource statistics time series
+ */
+suite("Stats Series Unit Tests", () => {
+  test("Should merge samples in time order and keep the newest", () => {
+    const merged = mergeSamples(
+      [sample(1000), sample(3000)],
+      [sample(2000), sample(3000, { cpuPercent: 50 }), sample(4000)],
+      3
+    );
+
+    assert.deepStrictEqual(
+      merged.map((s) => s.timestamp),
+      [2000, 3000, 4000]
+    );
+    assert.strictEqual(merged[1].cpuPercent, 50);
+  });
+
+  test("Should window samples relative to the newest", () => {
+    const series = [sample(0), sample(30000), sample(60000), sample(90000)];
+
+    assert.deepStrictEqual(
+      windowSamples(series, 60000).map((s) => s.timestamp),
+      [30000, 60000, 90000]
+    );
+    assert.strictEqual(windowSamples(series).length, 4);
+  });
+
+  test("Should derive I/O rates from cumulative counters", () => {
+    const rates = ioRates([
+      sample(0, { ioRead: 0, ioWrite: 0 }),
+      sample(2000, { ioRead: 4096, ioWrite: 1024 }),
+      sample(2000, { ioRead: 8192 }),
+      sample(3000, { ioRead: 100, ioWrite: 2048 }),
+    ]);
+
+    assert.deepStrictEqual(rates, [
+      { timestamp: 2000, readPerSecond: 2048, writePerSecond: 512 },
+      { timestamp: 3000, readPerSecond: 0, writePerSecond: 2048 },
+    ]);
+  });
+
+  test("Should export samples as CSV", () => {
+    assert.strictEqual(
+      samplesToCsv([sample(0, { ioRead: 5 })]),
+      "time,timestamp,cpuPercent,memoryMB,threadCount,ioRead,ioWrite\n" +
+        "1970-01-01T00:00:00.000Z,0,1,10,2,5,0\n"
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import * as assert from "assert";
+import {
+  LineEditor,
+  containsBinaryData,
+  outputDelta,
+  toTerminalText,
+} from "../../terminalOutput";
+
+/**
+ * Unit tests for attached terminal output and input handling
+ */
+suite("Terminal Output Unit Tests", () => {
+  test("Should convert line endings and keep ANSI colors", () => {
+    assert.strictEqual(
+      toTerminalText("\x1b[32mok\x1b[0m\nnext\r\n"),
+      "\x1b[32mok\x1b[0m\r\nnext\r\n"
+    );
+  });
+
+  test("Should return only output added since the last poll", () => {
+    assert.strictEqual(outputDelta("", "a\n"), "a\n");
+    assert.strictEqual(outputDelta("a\n", "a\nb\n"), "b\n");
+    assert.strictEqual(outputDelta("a\nb\n", "a\nb\n"), "");
+  });
+
+  test("Should follow output after the server trims its buffer", () => {
+    assert.strictEqual(
+      outputDelta("line 1\nline 2\n", "line 2\nline 3\n"),
+      "line 3\n"
+    );
+    assert.strictEqual(outputDelta("gone\n", "all new\n"), "all new\n");
+  });
+
+  test("Should detect binary control characters", () => {
+    assert.strictEqual(containsBinaryData("plain text\twith tab"), false);
+    assert.strictEqual(containsBinaryData("nul\x00byte"), true);
+    assert.strictEqual(containsBinaryData("bell\x07"), true);
+  });
+
+  test("Should edit and complete lines with local echo", () => {
+    const editor = new LineEditor();
+
+    assert.deepStrictEqual(editor.handle("helo"), {
+      echo: "helo",
+      lines: [],
+    });
+    assert.deepStrictEqual(editor.handle("\x7fp\x1b[A\r"), {
+      echo: "\b \bp\r\n",
+      lines: ["help"],
+    });
+    assert.deepStrictEqual(editor.handle("one\r\ntwo\r"), {
+      echo: "one\r\ntwo\r\n",
+      lines: ["one", "two"],
+    });
+    assert.deepStrictEqual(editor.handle("abc\x03"), {
+      echo: "abc^C\r\n",
+      lines: [],
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import { buildInputTemplate, findInputProblems } from "../../toolRegistry";
+import { ServerTool } from "../../mcpClient";
+
+/**
+ * Unit tests for server tool input helpers
+ */
+suite("Tool Registry Unit Tests", () => {
+  const tool: ServerTool = {
+    name: "process_start",
+    description: "Start a process",
+    inputSchema: {
+      type: "object",
+      properties: {
+        executable: { type: "string" },
+        args: { type: "array" },
+        timeout: { type: "integer" },
+        captureOutput: { type: "boolean" },
+        env: { type: "object" },
+        extra: {},
+      },
+      required: ["executable", "args"],
+    },
+  };
+
+  test("Should report missing required fields", () => {
+    assert.deepStrictEqual(
+      findInputProblems(tool.inputSchema, { executable: "node" }),
+      ['"args" is required']
+    );
+    assert.deepStrictEqual(findInputProblems(tool.inputSchema, undefined), [
+      '"executable" is required',
+      '"args" is required',
+    ]);
+    assert.deepStrictEqual(
+      findInputProblems(tool.inputSchema, { executable: "node", args: [] }),
+      []
+    );
+  });
+
+  test("Should treat schemas without required fields as satisfied", () => {
+    assert.deepStrictEqual(findInputProblems({}, {}), []);
+  });
+
+  test("Should check input types and enums against the schema", () => {
+    const schema = {
+      ...tool.inputSchema,
+      properties: {
+        ...(tool.inputSchema.properties as object),
+        signal: { type: "string", enum: ["SIGTERM", "SIGINT"] },
+      },
+    };
+
+    assert.deepStrictEqual(
+      findInputProblems(schema, {
+        executable: "node",
+        args: [],
+        timeout: 1.5,
+        captureOutput: "yes",
+        env: [],
+        signal: "SIGKILL",
+        extra: 1,
+      }),
+      [
+        '"timeout" must be an integer',
+        '"captureOutput" must be a boolean',
+        '"env" must be an object',
+        '"signal" must be one of SIGTERM, SIGINT',
+      ]
+    );
+    assert.deepStrictEqual(findInputProblems(schema, { args: "node" }), [
+      '"executable" is required',
+      '"args" must be an array',
+    ]);
+    assert.deepStrictEqual(findInputProblems(schema, "node"), [
+      "input must be an object",
+    ]);
+    assert.deepStrictEqual(
+      findInputProblems({ type: "object", properties: {} }, undefined),
+      []
+    );
+  });
+
+  test("Should build input templates from property types", () => {
+    assert.deepStrictEqual(buildInputTemplate(tool), {
+      executable: "",
+      args: [],
+      timeout: 0,
+      captureOutput: false,
+      env: {},
+      extra: null,
+    });
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Server Tool Registry
+ *
+ * Keeps the extension's commands and language model tools in sync with the
+ * tools the MCP ACS Process Server advertises via tools/list. Tools with a
+ * dedicated handler are registered at activation, so they exist before the
+ * server is up; once the server has listed its tools, those it does not
+ * provide refuse to run and their commands are hidden. Tools added by newer
+ * server versions are exposed through a generic handler. Every invocation is
+ * checked against the tool's input schema first.
+ */
+
+import * as vscode from "vscode";
+import { MCPProcessClient, ServerTool } from "./mcpClient";
+
+/**
+ * Context key holding the names of the tools the server currently provides.
+ * Used in package.json "when" clauses, e.g. `'process_start' in mcp-process.availableTools`.
+ */
+export const AVAILABLE_TOOLS_CONTEXT_KEY = "mcp-process.availableTools";
+
+/**
+ * Handler for a tool that has a dedicated implementation in the extension
+ */
+export type ToolInvokeHandler = (
+  input: any,
+  token: vscode.CancellationToken
+) => Promise<vscode.LanguageModelToolResult>;
+
+export class ServerToolRegistry implements vscode.Disposable {
+  private mcpClient: MCPProcessClient | undefined;
+  private toolsChangedDisposable: vscode.Disposable | undefined;
+  private registrations = new Map<string, vscode.Disposable>();
+  private tools: ServerTool[] = [];
+
+  constructor(
+    private readonly outputChannel: vscode.LogOutputChannel,
+    private readonly handlers: Record<string, ToolInvokeHandler>
+  ) {
+    for (const name of Object.keys(handlers)) {
+      this.register(name);
+    }
+  }
+
+  setMCPClient(client: MCPProcessClient): void {
+    if (this.toolsChangedDisposable) {
+      this.toolsChangedDisposable.dispose();
+    }
+
+    this.mcpClient = client;
+    this.toolsChangedDisposable = client.onToolsChanged((tools) => {
+      void this.sync(tools);
+    });
+
+    void this.sync(client.getServerTools());
+  }
+
+  /**
+   * Get the tools the server currently provides
+   */
+  getTools(): ServerTool[] {
+    return this.tools;
+  }
+
+  /**
+   * Get a tool's definition by name
+   */
+  getTool(name: string): ServerTool | undefined {
+    return this.tools.find((tool) => tool.name === name);
+  }
+
+  private async sync(tools: ServerTool[]): Promise<void> {
+    const previous = new Set(this.tools.map((tool) => tool.name));
+    const current = new Set(tools.map((tool) => tool.name));
+    this.tools = tools;
+
+    await vscode.commands.executeCommand(
+      "setContext",
+      AVAILABLE_TOOLS_CONTEXT_KEY,
+      [...current]
+    );
+
+    // Drop generic tools the server no longer provides; tools with a handler
+    // stay registered and refuse to run instead
+    for (const [name, registration] of this.registrations) {
+      if (!current.has(name) && !this.handlers[name]) {
+        registration.dispose();
+        this.registrations.delete(name);
+        this.outputChannel.appendLine(
+          `Language model tool unregistered (not provided by server): ${name}`
+        );
+      }
+    }
+
+    for (const tool of tools) {
+      if (this.registrations.has(tool.name)) {
+        continue;
+      }
+      this.register(tool.name);
+    }
+
+    const added = [...current].filter((name) => !previous.has(name));
+    if (added.length > 0) {
+      this.outputChannel.appendLine(
+        `Server tools available: ${added.join(", ")}`
+      );
+    }
+  }
+
+  private register(name: string): void {
+    try {
+      this.registrations.set(
+        name,
+        vscode.lm.registerTool(name, {
+          invoke: (options, token) => this.invoke(name, options.input, token),
+        })
+      );
+    } catch (error) {
+      // Tools must be declared in package.json before they can be registered
+      // with the language model API. Newer server tools without a declaration
+      // remain reachable through the "Run Server Tool" command.
+      this.outputChannel.appendLine(
+        `Tool ${name} not registered as a language model tool: ${error}`
+      );
+    }
+  }
+
+  /**
+   * Check the input against the server's schema for the tool, or the one
+   * declared in package.json until the server has listed its tools, then
+   * run the tool's handler
+   */
+  private async invoke(
+    name: string,
+    input: unknown,
+    token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    const serverTool = this.getTool(name);
+    if (!serverTool && this.tools.length > 0) {
+      throw new Error(`Tool ${name} is not provided by the server`);
+    }
+
+    const schema =
+      serverTool?.inputSchema ??
+      vscode.lm.tools.find((tool) => tool.name === name)?.inputSchema;
+    const problems = findInputProblems(schema ?? {}, input);
+    if (problems.length > 0) {
+      throw new Error(`Invalid input for ${name}: ${problems.join("; ")}`);
+    }
+
+    const values = (input ?? {}) as Record<string, unknown>;
+    const handler = this.handlers[name];
+    return handler
+      ? handler(values, token)
+      : this.invokeGeneric(name, values, token);
+  }
+
+  private async invokeGeneric(
+    name: string,
+    input: Record<string, unknown>,
+    token: vscode.CancellationToken
+  ): Promise<vscode.LanguageModelToolResult> {
+    if (!this.mcpClient) {
+      throw new Error("MCP ACS Process server not running");
+    }
+
+    const result = await this.mcpClient.callServerTool(name, input, token);
+    return new vscode.LanguageModelToolResult([
+      new vscode.LanguageModelTextPart(
+        typeof result === "string" ? result : JSON.stringify(result)
+      ),
+    ]);
+  }
+
+  dispose(): void {
+    if (this.toolsChangedDisposable) {
+      this.toolsChangedDisposable.dispose();
+    }
+    for (const registration of this.registrations.values()) {
+      registration.dispose();
+    }
+    this.registrations.clear();
+  }
+}
+
+/**
+ * Check tool input against a JSON schema's required properties, property
+ * types and enums, returning a description of each problem
+ */
+export function findInputProblems(schema: object, input: unknown): string[] {
+  if (input !== undefined && input !== null && typeof input !== "object") {
+    return ["input must be an object"];
+  }
+  const values = (input ?? {}) as Record<string, unknown>;
+  const { required, properties } = schema as {
+    required?: unknown;
+    properties?: unknown;
+  };
+
+  const problems: string[] = [];
+  if (Array.isArray(required)) {
+    for (const field of required) {
+      if (typeof field === "string" && values[field] === undefined) {
+        problems.push(`"${field}" is required`);
+      }
+    }
+  }
+  if (typeof properties !== "object" || properties === null) {
+    return problems;
+  }
+
+  for (const [field, property] of Object.entries(
+    properties as Record<string, any>
+  )) {
+    const value = values[field];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const type = property?.type;
+    if (typeof type === "string" && !matchesType(value, type)) {
+      problems.push(`"${field}" must be ${article(type)} ${type}`);
+    } else if (
+      Array.isArray(property?.enum) &&
+      !property.enum.includes(value)
+    ) {
+      problems.push(`"${field}" must be one of ${property.enum.join(", ")}`);
+    }
+  }
+  return problems;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "string":
+    case "boolean":
+      return typeof value === type;
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && !Array.isArray(value);
+    default:
+      return true;
+  }
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? "an" : "a";
+}
+
+/**
+ * Build an input template for a tool from its JSON schema properties
+ */
+export function buildInputTemplate(tool: ServerTool): Record<string, unknown> {
+  const properties = tool.inputSchema.properties;
+  const template: Record<string, unknown> = {};
+  if (typeof properties !== "object" || properties === null) {
+    return template;
+  }
+
+  for (const [field, schema] of Object.entries(
+    properties as Record<string, any>
+  )) {
+    switch (schema?.type) {
+      case "string":
+        template[field] = "";
+        break;
+      case "number":
+      case "integer":
+        template[field] = 0;
+        break;
+      case "boolean":
+        template[field] = false;
+        break;
+      case "array":
+        template[field] = [];
+        break;
+      case "object":
+        template[field] = {};
+        break;
+      default:
+        template[field] = null;
+    }
+  }
+  return template;
+}
@@ -0,0 +1,277 @@
+/**
+ * Transport Bridge
+ *
+ * Spawned by MCPProcessClient in place of the server when attaching to a
+ * server that is already running. Relays newline-delimited JSON-RPC between
+ * this process's stdio and a Unix domain socket, TCP connection or HTTP-SSE
+ * endpoint, so the client keeps managing the connection like a child process.
+ *
+ * Usage: transportBridge.js --transport <socket|tcp|sse> --address <target>
+ *        [--attempts <n>] [--delay <ms>]
+ */
+
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+import * as readline from "readline";
+import {
+  AttachTarget,
+  BRIDGE_EXIT_CONNECTION_LOST,
+  BRIDGE_EXIT_UNAVAILABLE,
+  SseParser,
+  parseSseEndpoint,
+  parseTcpEndpoint,
+  reconnectDelay,
+  resolveAttachTarget,
+  resolveMessageEndpoint,
+  splitLines,
+} from "./serverTransport";
+
+interface Connection {
+  send(message: string): void;
+  close(): void;
+}
+
+interface ConnectionHandlers {
+  onMessage: (message: string) => void;
+  onClose: (reason: string) => void;
+}
+
+function log(message: string): void {
+  process.stderr.write(`[transport-bridge] ${message}\n`);
+}
+
+/**
+ * Exit once everything written to stdout has been handed to the client
+ */
+function exitAfterFlush(code: number): void {
+  process.stdout.write("", () => process.exit(code));
+}
+
+function readOption(argv: string[], name: string): string | undefined {
+  const index = argv.indexOf(`--${name}`);
+  return index >= 0 ? argv[index + 1] : undefined;
+}
+
+/**
+ * Connect to a Unix domain socket or TCP endpoint
+ */
+function connectStream(
+  target: AttachTarget,
+  handlers: ConnectionHandlers
+): Promise<Connection> {
+  return new Promise((resolve, reject) => {
+    const socket =
+      target.transport === "socket"
+        ? net.createConnection({ path: target.address })
+        : net.createConnection(parseTcpEndpoint(target.address));
+    socket.setEncoding("utf8");
+
+    let connected = false;
+    let buffer = "";
+
+    socket.on("connect", () => {
+      connected = true;
+      resolve({
+        send: (message) => socket.write(`${message}\n`),
+        close: () => socket.end(),
+      });
+    });
+
+    socket.on("data", (chunk: string) => {
+      const { lines, rest } = splitLines(buffer + chunk);
+      buffer = rest;
+      lines.forEach(handlers.onMessage);
+    });
+
+    socket.on("error", (error) => {
+      if (!connected) {
+        reject(error);
+      } else {
+        handlers.onClose(error.message);
+      }
+    });
+
+    socket.on("close", () => {
+      if (connected) {
+        handlers.onClose("connection closed by server");
+      }
+    });
+  });
+}
+
+/**
+ * Connect to an MCP HTTP-SSE endpoint. The server announces the URL to POST
+ * messages to in an `endpoint` event; responses arrive as `message` events.
+ */
+function connectSse(
+  target: AttachTarget,
+  handlers: ConnectionHandlers
+): Promise<Connection> {
+  const url = parseSseEndpoint(target.address);
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    let connected = false;
+
+    const request = client.get(
+      url,
+      { headers: { Accept: "text/event-stream" } },
+      (response) => {
+        if (response.statusCode !== 200) {
+          response.resume();
+          reject(
+            new Error(`SSE endpoint returned HTTP ${response.statusCode}`)
+          );
+          return;
+        }
+
+        response.setEncoding("utf8");
+        const parser = new SseParser();
+
+        response.on("data", (chunk: string) => {
+          for (const event of parser.push(chunk)) {
+            if (event.event === "endpoint" && !connected) {
+              let postUrl: URL;
+              try {
+                postUrl = resolveMessageEndpoint(event.data, url);
+              } catch (error) {
+                request.destroy();
+                reject(error);
+                return;
+              }
+              connected = true;
+              resolve({
+                send: (message) => post(postUrl, message, handlers),
+                close: () => request.destroy(),
+              });
+            } else if (event.event === "message") {
+              handlers.onMessage(event.data);
+            }
+          }
+        });
+
+        response.on("end", () => {
+          if (connected) {
+            handlers.onClose("event stream ended");
+          } else {
+            reject(new Error("Event stream ended before the endpoint event"));
+          }
+        });
+      }
+    );
+
+    request.on("error", (error) => {
+      if (!connected) {
+        reject(error);
+      } else {
+        handlers.onClose(error.message);
+      }
+    });
+  });
+}
+
+function post(url: URL, message: string, handlers: ConnectionHandlers): void {
+  const client = url.protocol === "https:" ? https : http;
+  const request = client.request(
+    url,
+    {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Length": Buffer.byteLength(message),
+      },
+    },
+    (response) => {
+      response.resume();
+      if (response.statusCode && response.statusCode >= 400) {
+        log(`Server rejected message with HTTP ${response.statusCode}`);
+      }
+    }
+  );
+  request.on("error", (error) => handlers.onClose(error.message));
+  request.end(message);
+}
+
+async function connectWithRetry(
+  target: AttachTarget,
+  handlers: ConnectionHandlers,
+  attempts: number,
+  delayMs: number
+): Promise<Connection> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return target.transport === "sse"
+        ? await connectSse(target, handlers)
+        : await connectStream(target, handlers);
+    } catch (error: any) {
+      if (attempt >= attempts) {
+        throw error;
+      }
+      const delay = reconnectDelay(delayMs, attempt);
+      log(
+        `Could not reach server (${
+          error.message || error
+        }) - retrying in ${delay}ms`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+  const transport = readOption(argv, "transport") ?? "";
+  const address = readOption(argv, "address") ?? "";
+  const attempts = Number(readOption(argv, "attempts") ?? 0);
+  const delayMs = Number(readOption(argv, "delay") ?? 1000);
+
+  let target: AttachTarget | undefined;
+  try {
+    target = resolveAttachTarget(transport, address, address);
+  } catch (error: any) {
+    log(error.message || String(error));
+    process.exit(BRIDGE_EXIT_UNAVAILABLE);
+  }
+  if (!target) {
+    log("The stdio transport does not use the bridge");
+    process.exit(BRIDGE_EXIT_UNAVAILABLE);
+  }
+
+  let connection: Connection;
+  try {
+    connection = await connectWithRetry(
+      target,
+      {
+        onMessage: (message) => process.stdout.write(`${message}\n`),
+        onClose: (reason) => {
+          log(`Lost connection to ${target!.address}: ${reason}`);
+          exitAfterFlush(BRIDGE_EXIT_CONNECTION_LOST);
+        },
+      },
+      attempts,
+      delayMs
+    );
+  } catch (error: any) {
+    log(`Server unavailable at ${target.address}: ${error.message || error}`);
+    process.exit(BRIDGE_EXIT_UNAVAILABLE);
+  }
+
+  log(`Attached to ${target.transport} ${target.address}`);
+
+  // Client messages are only read once connected, so nothing is lost while
+  // the connection is being established
+  const input = readline.createInterface({ input: process.stdin });
+  input.on("line", (line) => {
+    if (line.trim().length > 0) {
+      connection.send(line);
+    }
+  });
+  input.on("close", () => {
+    // The client went away; the shared server keeps running
+    connection.close();
+    exitAfterFlush(0);
+  });
+}
+
+main();